@@ -1,95 +1,616 @@
-import { DirectoryEntry } from './xrootd.js';
+import { mkdirSync, readFileSync } from 'fs';
+import { appendFile, rename, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { DirectoryEntry, FileInfo } from './xrootd.js';
 
-interface CacheEntry {
+export interface CacheEntry {
   entries: DirectoryEntry[];
   cachedAt: Date;
 }
 
+/**
+ * Persistence for a DirectoryCache.  The cache stays authoritative in memory;
+ * the store only mirrors its changes so that listings survive a restart.
+ */
+export interface CacheStore {
+  /** Listings saved by a previous run, oldest first. */
+  load(): Array<[string, CacheEntry]>;
+  set(path: string, entry: CacheEntry): void;
+  delete(path: string): void;
+  /** Replace everything stored with `entries`, dropping deleted and expired listings. */
+  rewrite(entries: Array<[string, CacheEntry]>): void;
+  /** Whether enough has been recorded since the last rewrite that the cache should rewrite the store. */
+  needsCompaction?(): boolean;
+}
+
+const CACHE_FILE_VERSION = 1;
+
+/** Bytes appended to a cache file after which it is compacted, besides the periodic cleanup. */
+export const DEFAULT_CACHE_COMPACT_BYTES = 16 * 1024 * 1024;
+// Records are buffered this long so that a burst of listings becomes one write
+const FLUSH_DELAY_MS = 100;
+
+// First line of a cache file; listings are only reused when the server name
+// still refers to the same storage (backend and URL or local path)
+interface CacheFileHeader {
+  version: number;
+  server: string;
+  source: string;
+}
+
+type CacheRecord =
+  | { op: 'set'; path: string; cachedAt: string; entries: DirectoryEntry[] }
+  | { op: 'delete'; path: string };
+
+function reviveEntry(entry: DirectoryEntry): DirectoryEntry {
+  return entry.modificationTime !== undefined
+    ? { ...entry, modificationTime: new Date(entry.modificationTime) }
+    : entry;
+}
+
+/**
+ * Stores the listings of one server as JSON lines in `<cacheDir>/<server>.jsonl`:
+ * a header line, then one record per set or invalidated path.  Records are
+ * buffered and appended in the background, so listings never wait for the
+ * disk; those of the last FLUSH_DELAY_MS are lost if the process is killed.
+ * The file is compacted whenever the cache rewrites it: at startup, on
+ * cleanup and once `compactBytes` have been appended.  Write failures are
+ * logged and never fail the listing that triggered them.
+ */
+export class JsonlCacheStore implements CacheStore {
+  readonly file: string;
+  private header: CacheFileHeader;
+  private compactBytes: number;
+  private pending: string[] = [];
+  private flushTimer?: NodeJS.Timeout;
+  // Appends and rewrites run one after the other, in the order they were requested
+  private writes: Promise<void> = Promise.resolve();
+  private appendedBytes = 0;
+
+  constructor(cacheDir: string, serverName: string, source: string, compactBytes: number = DEFAULT_CACHE_COMPACT_BYTES) {
+    mkdirSync(cacheDir, { recursive: true });
+    this.file = join(cacheDir, `${encodeURIComponent(serverName)}.jsonl`);
+    this.header = { version: CACHE_FILE_VERSION, server: serverName, source };
+    this.compactBytes = compactBytes;
+  }
+
+  load(): Array<[string, CacheEntry]> {
+    let lines: string[];
+    try {
+      lines = readFileSync(this.file, 'utf-8').split('\n').filter(line => line.trim());
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') {
+        console.error(`Could not read cache file ${this.file}: ${error.message}`);
+      }
+      return [];
+    }
+
+    const listings = new Map<string, CacheEntry>();
+    try {
+      const header = JSON.parse(lines[0]) as CacheFileHeader;
+      if (header.version !== CACHE_FILE_VERSION || header.server !== this.header.server || header.source !== this.header.source) {
+        return [];
+      }
+      for (const line of lines.slice(1)) {
+        const record = JSON.parse(line) as CacheRecord;
+        // Re-inserting keeps the map ordered by cachedAt
+        listings.delete(record.path);
+        if (record.op === 'set') {
+          listings.set(record.path, { entries: record.entries.map(reviveEntry), cachedAt: new Date(record.cachedAt) });
+        }
+      }
+    } catch (error: any) {
+      // A torn last line (e.g. the process was killed mid-write) loses nothing before it
+      console.error(`Ignoring the rest of cache file ${this.file}: ${error.message}`);
+    }
+    return Array.from(listings.entries());
+  }
+
+  set(path: string, entry: CacheEntry): void {
+    this.append({ op: 'set', path, cachedAt: entry.cachedAt.toISOString(), entries: entry.entries });
+  }
+
+  delete(path: string): void {
+    this.append({ op: 'delete', path });
+  }
+
+  rewrite(entries: Array<[string, CacheEntry]>): void {
+    const lines = [JSON.stringify(this.header)];
+    for (const [path, entry] of entries) {
+      lines.push(JSON.stringify({ op: 'set', path, cachedAt: entry.cachedAt.toISOString(), entries: entry.entries }));
+    }
+    // Buffered records are superseded by the listings being written
+    this.cancelFlush();
+    this.pending = [];
+    this.appendedBytes = 0;
+    // Write then rename, so a crash never leaves a half-written cache behind
+    const tmp = `${this.file}.${process.pid}.tmp`;
+    this.enqueue(async () => {
+      await writeFile(tmp, lines.join('\n') + '\n');
+      await rename(tmp, this.file);
+    });
+  }
+
+  needsCompaction(): boolean {
+    return this.appendedBytes > this.compactBytes;
+  }
+
+  /** Write the buffered records now; resolves once every write requested so far is done. */
+  flush(): Promise<void> {
+    this.cancelFlush();
+    if (this.pending.length > 0) {
+      const data = this.pending.join('');
+      this.pending = [];
+      this.enqueue(() => appendFile(this.file, data));
+    }
+    return this.writes;
+  }
+
+  private append(record: CacheRecord): void {
+    const line = JSON.stringify(record) + '\n';
+    this.pending.push(line);
+    this.appendedBytes += line.length;
+    if (!this.flushTimer) {
+      this.flushTimer = setTimeout(() => this.flush(), FLUSH_DELAY_MS);
+      this.flushTimer.unref();
+    }
+  }
+
+  private cancelFlush(): void {
+    clearTimeout(this.flushTimer);
+    this.flushTimer = undefined;
+  }
+
+  private enqueue(write: () => Promise<void>): void {
+    this.writes = this.writes.then(write).catch((error: any) => {
+      console.error(`Could not write cache file ${this.file}: ${error.message}`);
+    });
+  }
+}
+
+/** Memory budget for cached listings when none is configured. */
+export const DEFAULT_CACHE_MAX_BYTES = 128 * 1024 * 1024;
+/** How long a "no such file" listing failure is remembered when not configured. */
+export const DEFAULT_NEGATIVE_TTL_SECONDS = 30;
+
+export interface DirectoryCacheOptions {
+  /** Mirror the cache to this store so that listings survive a restart. */
+  store?: CacheStore;
+  /** Estimated memory budget for all listings. */
+  maxBytes?: number;
+  /**
+   * Minutes after the TTL during which an expired listing is still returned
+   * (flagged as stale) so the caller can refresh it in the background; 0 disables.
+   */
+  staleTTLMinutes?: number;
+  /** Seconds a path that does not exist is remembered as missing; 0 disables. */
+  negativeTTLSeconds?: number;
+}
+
+/** A cached listing; stale ones are past the TTL and should be refreshed. */
+export interface CacheLookup {
+  entries: DirectoryEntry[];
+  stale: boolean;
+}
+
+// A path the server reported as nonexistent
+interface MissingPath {
+  error: string;
+  cachedAt: number;
+}
+
+// In-memory bookkeeping on top of what the store persists
+interface CachedListing extends CacheEntry {
+  /** Estimated memory held by the listing. */
+  bytes: number;
+  lastAccessed: Date;
+  hits: number;
+}
+
+export interface CacheStats {
+  size: number;
+  maxSize: number;
+  /** Estimated memory held by all listings. */
+  bytes: number;
+  maxBytes: number;
+  hits: number;
+  misses: number;
+  /** hits / (hits + misses); absent until the first lookup. */
+  hitRate?: number;
+  /** Hits served from an expired listing while it was refreshed (included in hits). */
+  staleHits: number;
+  /** Paths currently remembered as nonexistent. */
+  negativeEntries: number;
+  /** Lookups answered from the negative cache. */
+  negativeHits: number;
+  /** Listings dropped to stay within maxSize or maxBytes. */
+  evictions: number;
+  /** Listings dropped because they outlived the TTL. */
+  expirations: number;
+  /** Cache file when the cache is persistent. */
+  file?: string;
+}
+
+/** What cache_inspect shows about one cached listing. */
+export interface CacheEntryInfo {
+  path: string;
+  entryCount: number;
+  cachedAt: Date;
+  lastAccessed: Date;
+  hits: number;
+  bytes: number;
+  /** Seconds until the listing expires (negative once expired but not yet cleaned up). */
+  expiresInSeconds: number;
+}
+
+// Rough V8 footprint of a listing: fixed object overhead plus UTF-16 strings.
+// Only meant to keep the budget in the right order of magnitude.
+export function estimateListingBytes(path: string, entries: DirectoryEntry[]): number {
+  let bytes = 128 + path.length * 2;
+  for (const entry of entries) {
+    bytes += 112 + entry.name.length * 2;
+  }
+  return bytes;
+}
+
+/**
+ * LRU cache of directory listings.  Listings expire after the TTL and the
+ * least recently used ones are evicted once either `maxSize` listings or
+ * `maxBytes` of estimated memory are exceeded.  Optionally, expired listings
+ * are served stale for a while (stale-while-revalidate) and paths that do not
+ * exist are remembered for a short time (negative caching).
+ */
 export class DirectoryCache {
-  private cache: Map<string, CacheEntry>;
+  // Map iteration order doubles as recency order: least recently used first
+  private cache: Map<string, CachedListing>;
   private cacheTTL: number; // milliseconds
+  private staleTTL: number; // milliseconds after cacheTTL
+  private negativeTTL: number; // milliseconds
   private maxSize: number;
+  private maxBytes: number;
+  private totalBytes = 0;
+  private hits = 0;
+  private misses = 0;
+  private staleHits = 0;
+  private negativeHits = 0;
+  private evictions = 0;
+  private expirations = 0;
+  private missing = new Map<string, MissingPath>();
+  private store?: CacheStore;
 
-  constructor(cacheTTLMinutes: number = 60, maxSize: number = 1000) {
+  constructor(cacheTTLMinutes: number = 60, maxSize: number = 1000, options: DirectoryCacheOptions = {}) {
     this.cache = new Map();
     this.cacheTTL = cacheTTLMinutes * 60 * 1000;
+    this.staleTTL = (options.staleTTLMinutes ?? 0) * 60 * 1000;
+    this.negativeTTL = (options.negativeTTLSeconds ?? DEFAULT_NEGATIVE_TTL_SECONDS) * 1000;
     this.maxSize = maxSize;
+    this.maxBytes = options.maxBytes ?? DEFAULT_CACHE_MAX_BYTES;
+    this.store = options.store;
+
+    const { store } = options;
+    if (store) {
+      // Keep the newest still-usable listings of the previous run that fit
+      // the limits, then compact the file
+      const now = Date.now();
+      const loaded = store.load().filter(([, entry]) => now - entry.cachedAt.getTime() <= this.cacheTTL + this.staleTTL);
+      for (const [path, entry] of loaded.reverse()) {
+        const bytes = estimateListingBytes(path, entry.entries);
+        if (this.cache.size >= maxSize || this.totalBytes + bytes > this.maxBytes) {
+          break;
+        }
+        this.cache.set(path, { ...entry, bytes, lastAccessed: entry.cachedAt, hits: 0 });
+        this.totalBytes += bytes;
+      }
+      // Inserted newest first; restore least-recently-used-first order
+      this.cache = new Map(Array.from(this.cache.entries()).reverse());
+      store.rewrite(Array.from(this.cache.entries()));
+    }
   }
 
+  /** The fresh listing of `path`, or null when it is not cached or expired. */
   get(path: string): DirectoryEntry[] | null {
+    const cached = this.lookup(path);
+    return cached && !cached.stale ? cached.entries : null;
+  }
+
+  /**
+   * The listing of `path` if it is fresh, or expired by less than the stale
+   * TTL (then `stale` is set and the caller should refresh it).
+   */
+  lookup(path: string): CacheLookup | null {
     const entry = this.cache.get(path);
     
     if (!entry) {
+      this.misses++;
       return null;
     }
 
     const age = Date.now() - entry.cachedAt.getTime();
     
-    if (age > this.cacheTTL) {
+    if (age > this.cacheTTL + this.staleTTL) {
       // Expired
-      this.cache.delete(path);
+      this.remove(path, entry);
+      this.store?.delete(path);
+      this.expirations++;
+      this.misses++;
       return null;
     }
 
-    return entry.entries;
+    // Move to the most recently used end
+    this.cache.delete(path);
+    this.cache.set(path, entry);
+    entry.lastAccessed = new Date();
+    entry.hits++;
+    this.hits++;
+    const stale = age > this.cacheTTL;
+    if (stale) {
+      this.staleHits++;
+    }
+    return { entries: entry.entries, stale };
+  }
+
+  /** The fresh listing of `path` without counting a lookup or refreshing its recency. */
+  peek(path: string): DirectoryEntry[] | null {
+    const entry = this.cache.get(path);
+    return entry && Date.now() - entry.cachedAt.getTime() <= this.cacheTTL ? entry.entries : null;
+  }
+
+  /** The error recorded for `path` if it was recently found not to exist. */
+  getMissing(path: string): string | null {
+    const missing = this.missing.get(path);
+    if (!missing) {
+      return null;
+    }
+    if (Date.now() - missing.cachedAt > this.negativeTTL) {
+      this.missing.delete(path);
+      return null;
+    }
+    this.negativeHits++;
+    return missing.error;
+  }
+
+  /** Remember that `path` does not exist, for the negative TTL. */
+  setMissing(path: string, error: string): void {
+    if (this.negativeTTL <= 0) {
+      return;
+    }
+    this.invalidate(path);
+    this.missing.delete(path);
+    if (this.missing.size >= Math.max(1, this.maxSize)) {
+      this.missing.delete(this.missing.keys().next().value as string);
+    }
+    this.missing.set(path, { error, cachedAt: Date.now() });
   }
 
   set(path: string, entries: DirectoryEntry[]): void {
-    // LRU eviction: if cache is full, remove oldest entry
-    if (this.cache.size >= this.maxSize) {
-      const oldestKey = this.findOldestEntry();
-      if (oldestKey) {
-        this.cache.delete(oldestKey);
+    this.missing.delete(path);
+    // The listing shows which children exist now, whatever was remembered about them
+    if (this.missing.size > 0) {
+      for (const entry of entries) {
+        this.missing.delete(`${path}/${entry.name}`.replace(/\/+/g, '/'));
+      }
+    }
+    const existing = this.cache.get(path);
+    if (existing) {
+      this.remove(path, existing);
+    }
+
+    const bytes = estimateListingBytes(path, entries);
+    if (bytes > this.maxBytes) {
+      // Would evict everything else and still not fit
+      if (existing) {
+        this.store?.delete(path);
       }
+      return;
+    }
+
+    while (this.cache.size > 0 && (this.cache.size >= this.maxSize || this.totalBytes + bytes > this.maxBytes)) {
+      const [lruPath, lruEntry] = this.cache.entries().next().value as [string, CachedListing];
+      this.remove(lruPath, lruEntry);
+      this.store?.delete(lruPath);
+      this.evictions++;
     }
 
-    this.cache.set(path, {
+    const now = new Date();
+    const entry: CachedListing = {
       entries,
-      cachedAt: new Date(),
-    });
+      cachedAt: now,
+      bytes,
+      lastAccessed: now,
+      hits: 0,
+    };
+    this.cache.set(path, entry);
+    this.totalBytes += bytes;
+    this.store?.set(path, entry);
+    if (this.store?.needsCompaction?.()) {
+      this.store.rewrite(Array.from(this.cache.entries()));
+    }
   }
 
   invalidate(path: string): void {
-    this.cache.delete(path);
+    this.missing.delete(path);
+    const entry = this.cache.get(path);
+    if (entry) {
+      this.remove(path, entry);
+      this.store?.delete(path);
+    }
+  }
+
+  /** Drop `path` and every cached listing below it; returns how many were dropped. */
+  invalidateTree(path: string): number {
+    const prefix = path.endsWith('/') ? path : `${path}/`;
+    for (const key of Array.from(this.missing.keys())) {
+      if (key === path || key.startsWith(prefix)) {
+        this.missing.delete(key);
+      }
+    }
+    let count = 0;
+    for (const [key, entry] of Array.from(this.cache.entries())) {
+      if (key === path || key.startsWith(prefix)) {
+        this.remove(key, entry);
+        this.store?.delete(key);
+        count++;
+      }
+    }
+    return count;
+  }
+
+  /** Cached listings at or below `path` (all when omitted), most recently used first. */
+  inspect(path?: string): CacheEntryInfo[] {
+    const prefix = path === undefined || path.endsWith('/') ? path : `${path}/`;
+    const now = Date.now();
+    const infos: CacheEntryInfo[] = [];
+    for (const [key, entry] of this.cache) {
+      if (prefix !== undefined && key !== path && !key.startsWith(prefix)) {
+        continue;
+      }
+      infos.push({
+        path: key,
+        entryCount: entry.entries.length,
+        cachedAt: entry.cachedAt,
+        lastAccessed: entry.lastAccessed,
+        hits: entry.hits,
+        bytes: entry.bytes,
+        expiresInSeconds: Math.round((entry.cachedAt.getTime() + this.cacheTTL - now) / 1000),
+      });
+    }
+    return infos.reverse();
   }
 
   clear(): void {
     this.cache.clear();
+    this.missing.clear();
+    this.totalBytes = 0;
+    this.store?.rewrite([]);
   }
 
-  getStats(): { size: number; hitRate?: number } {
-    return {
+  getStats(): CacheStats {
+    const lookups = this.hits + this.misses;
+    const stats: CacheStats = {
       size: this.cache.size,
+      maxSize: this.maxSize,
+      bytes: this.totalBytes,
+      maxBytes: this.maxBytes,
+      hits: this.hits,
+      misses: this.misses,
+      staleHits: this.staleHits,
+      negativeEntries: this.missing.size,
+      negativeHits: this.negativeHits,
+      evictions: this.evictions,
+      expirations: this.expirations,
     };
+    if (lookups > 0) {
+      stats.hitRate = this.hits / lookups;
+    }
+    if (this.store instanceof JsonlCacheStore) {
+      stats.file = this.store.file;
+    }
+    return stats;
   }
 
-  private findOldestEntry(): string | null {
-    let oldestKey: string | null = null;
-    let oldestTime = Date.now();
+  private remove(path: string, entry: CachedListing): void {
+    this.cache.delete(path);
+    this.totalBytes -= entry.bytes;
+  }
+
+  // Cleanup expired entries periodically
+  cleanup(): void {
+    const now = Date.now();
 
     for (const [key, entry] of Array.from(this.cache.entries())) {
-      const time = entry.cachedAt.getTime();
-      if (time < oldestTime) {
-        oldestTime = time;
-        oldestKey = key;
+      const age = now - entry.cachedAt.getTime();
+      if (age > this.cacheTTL + this.staleTTL) {
+        this.remove(key, entry);
+        this.expirations++;
+      }
+    }
+    for (const [key, missing] of Array.from(this.missing.entries())) {
+      if (now - missing.cachedAt > this.negativeTTL) {
+        this.missing.delete(key);
       }
     }
 
-    return oldestKey;
+    this.store?.rewrite(Array.from(this.cache.entries()));
+  }
+}
+
+export interface StatCacheStats {
+  size: number;
+  hits: number;
+  misses: number;
+}
+
+// Parent directory of an absolute path ("/" for top-level entries)
+function parentOf(path: string): string {
+  return path.slice(0, path.lastIndexOf('/')) || '/';
+}
+
+/**
+ * LRU cache of stat results, kept next to the DirectoryCache with the same
+ * TTL and size limit.  Entries are invalidated together with the listing of
+ * their parent directory.
+ */
+export class StatCache {
+  // Least recently used first, as in DirectoryCache
+  private cache = new Map<string, { info: FileInfo; cachedAt: number }>();
+  private cacheTTL: number; // milliseconds
+  private maxSize: number;
+  private hits = 0;
+  private misses = 0;
+
+  constructor(cacheTTLMinutes: number = 60, maxSize: number = 1000) {
+    this.cacheTTL = cacheTTLMinutes * 60 * 1000;
+    this.maxSize = maxSize;
+  }
+
+  get(path: string): FileInfo | null {
+    const entry = this.cache.get(path);
+    if (!entry || Date.now() - entry.cachedAt > this.cacheTTL) {
+      this.cache.delete(path);
+      this.misses++;
+      return null;
+    }
+    this.cache.delete(path);
+    this.cache.set(path, entry);
+    this.hits++;
+    return entry.info;
+  }
+
+  set(path: string, info: FileInfo): void {
+    this.cache.delete(path);
+    while (this.cache.size > 0 && this.cache.size >= this.maxSize) {
+      this.cache.delete(this.cache.keys().next().value as string);
+    }
+    this.cache.set(path, { info, cachedAt: Date.now() });
+  }
+
+  /**
+   * Drop `path` and the entries directly inside it; with `recursive`, every
+   * entry below it.
+   */
+  invalidate(path: string, recursive: boolean = false): void {
+    const prefix = path.endsWith('/') ? path : `${path}/`;
+    for (const key of Array.from(this.cache.keys())) {
+      if (key === path || (key.startsWith(prefix) && (recursive || parentOf(key) === path))) {
+        this.cache.delete(key);
+      }
+    }
+  }
+
+  clear(): void {
+    this.cache.clear();
+  }
+
+  getStats(): StatCacheStats {
+    return { size: this.cache.size, hits: this.hits, misses: this.misses };
   }
 
-  // Cleanup expired entries periodically
   cleanup(): void {
     const now = Date.now();
-    const keysToDelete: string[] = [];
-
     for (const [key, entry] of Array.from(this.cache.entries())) {
-      const age = now - entry.cachedAt.getTime();
-      if (age > this.cacheTTL) {
-        keysToDelete.push(key);
+      if (now - entry.cachedAt > this.cacheTTL) {
+        this.cache.delete(key);
       }
     }
-
-    keysToDelete.forEach(key => this.cache.delete(key));
   }
 }
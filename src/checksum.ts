@@ -0,0 +1,255 @@
+/**
+ * File checksums: the adler32, crc32c and md5 checksums that XRootD servers
+ * report, checksum manifests, and the sampled content hash used where a
+ * server cannot report a checksum.
+ */
+import { createHash } from 'crypto';
+
+/** A checksum as reported by `xrdfs query checksum`: algorithm name and lower-case hex value. */
+export interface Checksum {
+  algorithm: string;
+  value: string;
+}
+
+const ADLER_MOD = 65521;
+// Largest number of bytes that can be summed before the 32-bit sums must be reduced
+const ADLER_BLOCK = 5552;
+
+/** Adler-32 of `data`, continuing from `previous` when hashing in chunks. */
+export function adler32(data: Uint8Array, previous: number = 1): number {
+  let a = previous & 0xffff;
+  let b = (previous >>> 16) & 0xffff;
+  for (let offset = 0; offset < data.length; offset += ADLER_BLOCK) {
+    const end = Math.min(offset + ADLER_BLOCK, data.length);
+    for (let i = offset; i < end; i++) {
+      a += data[i];
+      b += a;
+    }
+    a %= ADLER_MOD;
+    b %= ADLER_MOD;
+  }
+  return ((b << 16) | a) >>> 0;
+}
+
+/** A 32-bit checksum (adler32, crc32c) as 8 lower-case hex digits. */
+export function formatHex32(value: number): string {
+  return value.toString(16).padStart(8, '0');
+}
+
+// Reflected CRC-32C (Castagnoli) polynomial
+const CRC32C_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0x82f63b78 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+/** CRC-32C of `data`, continuing from `previous` when hashing in chunks. */
+export function crc32c(data: Uint8Array, previous: number = 0): number {
+  let crc = ~previous >>> 0;
+  for (let i = 0; i < data.length; i++) {
+    crc = CRC32C_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return ~crc >>> 0;
+}
+
+/** Checksum algorithms XRootD servers can be asked for with `cks.type`. */
+export const CHECKSUM_ALGORITHMS = ['adler32', 'crc32c', 'md5'] as const;
+
+export type ChecksumAlgorithm = typeof CHECKSUM_ALGORITHMS[number];
+
+export function isChecksumAlgorithm(name: string): name is ChecksumAlgorithm {
+  return (CHECKSUM_ALGORITHMS as readonly string[]).includes(name);
+}
+
+/** Incremental checksum, for backends that compute checksums themselves. */
+export interface ChecksumHasher {
+  update(data: Uint8Array): void;
+  digest(): Checksum;
+}
+
+export function createChecksumHasher(algorithm: string = 'adler32'): ChecksumHasher {
+  switch (algorithm) {
+    case 'adler32':
+    case 'crc32c': {
+      const update = algorithm === 'adler32' ? adler32 : crc32c;
+      let value = algorithm === 'adler32' ? 1 : 0;
+      return {
+        update: data => { value = update(data, value); },
+        digest: () => ({ algorithm, value: formatHex32(value) }),
+      };
+    }
+    case 'md5': {
+      const hash = createHash('md5');
+      return {
+        update: data => { hash.update(data); },
+        digest: () => ({ algorithm, value: hash.digest('hex') }),
+      };
+    }
+    default:
+      throw new Error(`Unsupported checksum algorithm: ${algorithm}`);
+  }
+}
+
+/**
+ * Parse a checksum response such as "adler32 0a1b2c3d" (xrdfs query checksum
+ * and kXR_Qcksum both answer in this form).
+ */
+export function parseChecksum(text: string): Checksum {
+  const match = text.replace(/\0/g, '').trim().match(/^(\S+)\s+([0-9a-fA-F]+)/);
+  if (!match) {
+    throw new Error(`Unexpected checksum response: ${JSON.stringify(text.trim())}`);
+  }
+  return { algorithm: match[1].toLowerCase(), value: match[2].toLowerCase() };
+}
+
+/** Bytes read from each of the start, middle and end of a file for a sampled hash. */
+export const SAMPLE_BYTES = 64 * 1024;
+
+/** Byte ranges hashed by sampledHash for a file of `size` bytes. */
+export function sampleRanges(size: number): Array<{ start: number; end: number }> {
+  if (size <= 3 * SAMPLE_BYTES) {
+    return [{ start: 0, end: size }];
+  }
+  const middle = Math.floor((size - SAMPLE_BYTES) / 2);
+  return [
+    { start: 0, end: SAMPLE_BYTES },
+    { start: middle, end: middle + SAMPLE_BYTES },
+    { start: size - SAMPLE_BYTES, end: size },
+  ];
+}
+
+/**
+ * SHA-256 over the size and the sampleRanges of a file.  Equal sampled hashes
+ * make files very likely, but not certainly, identical.
+ */
+export function sampledHash(size: number, samples: Buffer[]): string {
+  const hash = createHash('sha256');
+  hash.update(`${size}\n`);
+  for (const sample of samples) {
+    hash.update(sample);
+  }
+  return hash.digest('hex');
+}
+
+/** One file listed in a checksum manifest. */
+export interface ManifestEntry {
+  /** As written in the manifest: relative to the dataset directory, or absolute */
+  path: string;
+  algorithm: string;
+  value: string;
+}
+
+const PATH_COLUMNS = ['path', 'file', 'filename', 'name', 'lfn'];
+const VALUE_COLUMNS = ['checksum', 'cksum', 'value'];
+const ALGORITHM_COLUMNS = ['algorithm', 'type', 'cks.type'];
+
+function normalizeValue(algorithm: string, value: string): string {
+  const hex = value.trim().toLowerCase().replace(/^0x/, '');
+  // Manifests written from integers may drop leading zeros
+  return algorithm === 'adler32' || algorithm === 'crc32c' ? hex.padStart(8, '0') : hex;
+}
+
+function manifestEntry(path: unknown, algorithm: unknown, value: unknown, where: string): ManifestEntry {
+  if (typeof path !== 'string' || !path.trim()) {
+    throw new Error(`Invalid manifest: ${where} has no path`);
+  }
+  if (typeof value !== 'string' || !/^(0x)?[0-9a-fA-F]+$/.test(value.trim())) {
+    throw new Error(`Invalid manifest: ${where} has no hexadecimal checksum`);
+  }
+  const name = String(algorithm).toLowerCase();
+  return { path: path.trim(), algorithm: name, value: normalizeValue(name, value) };
+}
+
+// Records are objects such as {"path": ..., "adler32": ...} or {"file": ..., "checksum": ..., "algorithm": ...}
+function entryFromRecord(record: Record<string, unknown>, defaultAlgorithm: string, where: string): ManifestEntry {
+  const fields = new Map(Object.entries(record).map(([key, value]) => [key.toLowerCase(), value]));
+  const pathKey = PATH_COLUMNS.find(key => fields.has(key));
+  const algorithmKey = ALGORITHM_COLUMNS.find(key => fields.has(key));
+  const valueKey = VALUE_COLUMNS.find(key => fields.has(key));
+  const named = [defaultAlgorithm, ...CHECKSUM_ALGORITHMS].find(key => fields.has(key));
+  if (named && !valueKey) {
+    return manifestEntry(pathKey && fields.get(pathKey), named, fields.get(named), where);
+  }
+  const algorithm = algorithmKey ? fields.get(algorithmKey) : defaultAlgorithm;
+  return manifestEntry(pathKey && fields.get(pathKey), algorithm, valueKey && fields.get(valueKey), where);
+}
+
+function parseJsonManifest(text: string, defaultAlgorithm: string): ManifestEntry[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (error: any) {
+    throw new Error(`Invalid manifest: ${error.message}`);
+  }
+  if (typeof data === 'object' && data !== null && 'files' in data && Array.isArray((data as { files: unknown }).files)) {
+    data = (data as { files: unknown[] }).files;
+  }
+  if (Array.isArray(data)) {
+    return data.map((record, i) => {
+      if (!record || typeof record !== 'object') {
+        throw new Error(`Invalid manifest: entry ${i + 1} is not an object`);
+      }
+      return entryFromRecord(record, defaultAlgorithm, `entry ${i + 1}`);
+    });
+  }
+  if (data && typeof data === 'object') {
+    // {"<path>": "<checksum>"} or {"<path>": {"adler32": "<checksum>"}}
+    return Object.entries(data).map(([path, value]) => value && typeof value === 'object'
+      ? entryFromRecord({ path, ...value }, defaultAlgorithm, `entry ${path}`)
+      : manifestEntry(path, defaultAlgorithm, value, `entry ${path}`));
+  }
+  throw new Error('Invalid manifest: expected an array or object of files');
+}
+
+function parseTextManifest(text: string, defaultAlgorithm: string): ManifestEntry[] {
+  const rows: Array<{ line: number; cells: string[] }> = [];
+  text.split(/\r?\n/).forEach((raw, i) => {
+    const line = raw.trim();
+    if (line && !line.startsWith('#')) {
+      const cells = line.includes(',') ? line.split(',') : line.includes('\t') ? line.split('\t') : line.split(/\s+/);
+      rows.push({ line: i + 1, cells: cells.map(c => c.trim().replace(/^"(.*)"$/, '$1')) });
+    }
+  });
+  if (rows.length === 0) {
+    return [];
+  }
+
+  const header = rows[0].cells.map(c => c.toLowerCase());
+  if (header.some(c => PATH_COLUMNS.includes(c))) {
+    return rows.slice(1).map(({ line, cells }) =>
+      entryFromRecord(Object.fromEntries(header.map((key, i) => [key, cells[i]])), defaultAlgorithm, `line ${line}`));
+  }
+  return rows.map(({ line, cells }) => {
+    if (cells.length < 2) {
+      throw new Error(`Invalid manifest: line ${line} needs a path and a checksum`);
+    }
+    // "<path>,<checksum>", or "<checksum>  <path>" as written by md5sum
+    const hex = /^(0x)?[0-9a-fA-F]+$/;
+    const swapped = hex.test(cells[0]) && !hex.test(cells[cells.length - 1]);
+    return swapped
+      ? manifestEntry(cells.slice(1).join(' '), defaultAlgorithm, cells[0], `line ${line}`)
+      : manifestEntry(cells[0], defaultAlgorithm, cells[1], `line ${line}`);
+  });
+}
+
+/** Largest checksum manifest read; anything bigger is most likely not a manifest. */
+export const MAX_MANIFEST_BYTES = 1024 * 1024;
+
+/**
+ * Parse a checksum manifest: JSON (an array of records, `{"files": [...]}`,
+ * or an object mapping paths to checksums) or CSV/TSV/whitespace-separated
+ * text with an optional header naming the path and checksum columns.
+ * Checksums whose algorithm the manifest does not name use `defaultAlgorithm`.
+ */
+export function parseManifest(text: string, defaultAlgorithm: string = 'adler32'): ManifestEntry[] {
+  const trimmed = text.trim();
+  return trimmed.startsWith('{') || trimmed.startsWith('[')
+    ? parseJsonManifest(trimmed, defaultAlgorithm)
+    : parseTextManifest(trimmed, defaultAlgorithm);
+}
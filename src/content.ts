@@ -0,0 +1,89 @@
+/**
+ * Helpers for returning file contents to MCP clients: binary detection,
+ * UTF-8-safe truncation and the encodings supported by read_file.
+ */
+
+export type ContentEncoding = 'utf-8' | 'base64' | 'hex-dump';
+
+export const CONTENT_ENCODINGS: ContentEncoding[] = ['utf-8', 'base64', 'hex-dump'];
+
+/** Bytes returned by read_file when maxBytes is not given. */
+export const DEFAULT_READ_MAX_BYTES = 64 * 1024;
+/** Upper bound for maxBytes, independent of what the client asks for. */
+export const MAX_READ_MAX_BYTES = 16 * 1024 * 1024;
+
+const BINARY_SAMPLE_SIZE = 8192;
+
+/**
+ * Heuristic used by read_file: data is binary if it contains a NUL byte, is
+ * not valid UTF-8, or more than 10% of its bytes are control characters other
+ * than common whitespace.  An incomplete multi-byte sequence at the very end
+ * of the sample is tolerated, since the read may have stopped mid-character.
+ */
+export function isLikelyBinary(data: Buffer): boolean {
+  const sample = trimToCharBoundary(data.subarray(0, BINARY_SAMPLE_SIZE));
+  if (sample.length === 0) {
+    return false;
+  }
+  if (sample.includes(0)) {
+    return true;
+  }
+  try {
+    new TextDecoder('utf-8', { fatal: true }).decode(sample);
+  } catch {
+    return true;
+  }
+  let control = 0;
+  for (const byte of sample) {
+    // Allow \b \t \n \v \f \r and ESC (ANSI colour codes in logs)
+    if ((byte < 0x20 && !(byte >= 0x08 && byte <= 0x0d) && byte !== 0x1b) || byte === 0x7f) {
+      control++;
+    }
+  }
+  return control / sample.length > 0.1;
+}
+
+/**
+ * Drop a trailing, incomplete UTF-8 sequence so that a chunk boundary never
+ * splits a character.  Data without such a sequence is returned unchanged.
+ */
+export function trimToCharBoundary(data: Buffer): Buffer {
+  // A UTF-8 sequence is at most 4 bytes: look back for its lead byte
+  for (let back = 1; back <= Math.min(4, data.length); back++) {
+    const byte = data[data.length - back];
+    if ((byte & 0xc0) === 0x80) {
+      continue; // continuation byte
+    }
+    const expected = byte >= 0xf0 ? 4 : byte >= 0xe0 ? 3 : byte >= 0xc0 ? 2 : 1;
+    return expected > back ? data.subarray(0, data.length - back) : data;
+  }
+  return data;
+}
+
+/**
+ * Format bytes like `hexdump -C`; offsets are relative to the start of the
+ * file, so `baseOffset` is the position of data[0].
+ */
+export function hexDump(data: Buffer, baseOffset: number = 0): string {
+  const lines: string[] = [];
+  for (let i = 0; i < data.length; i += 16) {
+    const row = data.subarray(i, i + 16);
+    const hex = Array.from(row, b => b.toString(16).padStart(2, '0'));
+    const left = hex.slice(0, 8).join(' ');
+    const right = hex.slice(8).join(' ');
+    const ascii = Array.from(row, b => (b >= 0x20 && b < 0x7f ? String.fromCharCode(b) : '.')).join('');
+    lines.push(`${(baseOffset + i).toString(16).padStart(8, '0')}  ${left.padEnd(23)}  ${right.padEnd(23)}  |${ascii}|`);
+  }
+  return lines.join('\n');
+}
+
+export function encodeContent(data: Buffer, encoding: ContentEncoding, baseOffset: number = 0): string {
+  switch (encoding) {
+    case 'base64':
+      return data.toString('base64');
+    case 'hex-dump':
+      return hexDump(data, baseOffset);
+    default:
+      return data.toString('utf-8');
+  }
+}
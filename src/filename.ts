@@ -0,0 +1,179 @@
+/**
+ * Metadata encoded in EPIC simulation file names such as
+ * pythia8NCDIS_18x275_minQ2=0.001_beamEffects_xAngle=-0.025_hiDiv_1.0000.eicrecon.tree.edm4eic.root
+ */
+
+export interface EpicFileFields {
+  /** Event generator, e.g. "pythia8" */
+  generator?: string;
+  /** Process the generator name is suffixed with, e.g. "NCDIS" */
+  process?: string;
+  /** Electron x hadron beam energies in GeV, e.g. "18x275" */
+  beamEnergy?: string;
+  electronEnergy?: number;
+  hadronEnergy?: number;
+  /** Lower Q² cut in GeV² from "minQ2=<value>" */
+  minQ2?: number;
+  /** Q² range in GeV² from "q2_<min>_<max>" */
+  q2Min?: number;
+  q2Max?: number;
+  beamEffects?: boolean;
+  /** Beam crossing angle in rad from "xAngle=<value>" */
+  crossingAngle?: number;
+  /** Beam divergence setting, e.g. "hiDiv" or "hiAcc" */
+  divergence?: string;
+  /** Number following the divergence setting or "run<n>": the generator input file */
+  run?: number;
+  /** Zero-padded index of the reconstruction output file, e.g. 0 for ".0000." */
+  fileIndex?: number;
+  /** Data format, e.g. "edm4eic" or "hepmc3" */
+  format?: string;
+  /** Program that wrote the file, e.g. "eicrecon" or "npsim" */
+  producer?: string;
+  /** Name parts that were not recognised, e.g. "noradcor" */
+  tags?: string[];
+}
+
+export type EpicFileField = keyof EpicFileFields;
+
+/** Fields that search results can be filtered and grouped by. */
+export const EPIC_FILE_FIELDS: EpicFileField[] = [
+  'generator', 'process', 'beamEnergy', 'electronEnergy', 'hadronEnergy', 'minQ2', 'q2Min', 'q2Max',
+  'beamEffects', 'crossingAngle', 'divergence', 'run', 'fileIndex', 'format', 'producer',
+];
+
+const FORMATS = ['edm4eic', 'edm4hep', 'hepmc3', 'hepmc', 'podio'];
+const PRODUCERS = ['eicrecon', 'npsim', 'ddsim', 'afterburner'];
+const NUMBER = /^[+-]?\d+(?:\.\d+)?(?:[eE][+-]?\d+)?$/;
+
+// <stem>[.<index>].<suffix parts starting with a letter>; dots inside numbers stay in the stem
+const NAME_PATTERN = /^(?<stem>.+?)(?:\.(?<index>\d{4,}))?(?<suffix>(?:\.[A-Za-z][A-Za-z0-9]*)+)$/;
+
+/** The parts of a file name: everything before the file index, the index digits and the dotted suffix. */
+export interface EpicFileNameParts {
+  /** Shared by all files of one numbered sequence, e.g. "pythia8NCDIS_10x100_..._hiDiv_1" */
+  stem: string;
+  /** e.g. "0012" */
+  index?: string;
+  /** e.g. ".eicrecon.tree.edm4eic.root" */
+  suffix: string;
+}
+
+export function splitEpicFileName(name: string): EpicFileNameParts | undefined {
+  const groups = NAME_PATTERN.exec(name)?.groups;
+  return groups ? { stem: groups.stem, index: groups.index, suffix: groups.suffix } : undefined;
+}
+
+/**
+ * Parse the metadata out of an EPIC file name (without directories).
+ * Returns undefined for names that carry none, such as "job.log".
+ */
+export function parseEpicFileName(name: string): EpicFileFields | undefined {
+  const parts = splitEpicFileName(name);
+  if (!parts) {
+    return undefined;
+  }
+  const { stem, index, suffix } = parts;
+  const fields: EpicFileFields = {};
+  const tags: string[] = [];
+
+  const tokens = stem.split('_');
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+    let m: RegExpExecArray | null;
+    if ((m = /^(\d+(?:\.\d+)?)x(\d+(?:\.\d+)?)$/.exec(token))) {
+      fields.beamEnergy = token;
+      fields.electronEnergy = Number(m[1]);
+      fields.hadronEnergy = Number(m[2]);
+    } else if ((m = /^minQ2=(.+)$/i.exec(token)) && NUMBER.test(m[1])) {
+      fields.minQ2 = Number(m[1]);
+    } else if (/^q2$/i.test(token) && NUMBER.test(tokens[i + 1] ?? '')) {
+      fields.q2Min = Number(tokens[++i]);
+      if (NUMBER.test(tokens[i + 1] ?? '')) {
+        fields.q2Max = Number(tokens[++i]);
+      }
+    } else if ((m = /^xAngle=(.+)$/.exec(token)) && NUMBER.test(m[1])) {
+      fields.crossingAngle = Number(m[1]);
+    } else if (token === 'beamEffects') {
+      fields.beamEffects = true;
+    } else if (/^(?:hi|lo)(?:Div|Acc)$/.test(token)) {
+      fields.divergence = token;
+      if (/^\d+$/.test(tokens[i + 1] ?? '')) {
+        fields.run = Number(tokens[++i]);
+      }
+    } else if ((m = /^run(\d+)$/.exec(token))) {
+      fields.run = Number(m[1]);
+    } else if (i === 0 && (m = /^([a-z][a-z0-9]*?\d*)([A-Z][A-Z0-9]+)?$/.exec(token))) {
+      fields.generator = m[1];
+      if (m[2]) {
+        fields.process = m[2];
+      }
+    } else {
+      tags.push(token);
+    }
+  }
+
+  if (index !== undefined) {
+    fields.fileIndex = Number(index);
+  }
+  const suffixParts = suffix.slice(1).split('.');
+  fields.format = suffixParts.find(part => FORMATS.includes(part));
+  fields.producer = suffixParts.find(part => PRODUCERS.includes(part));
+
+  // A generator-like first word alone does not make an EPIC name
+  const structured = Object.keys(fields).some(key =>
+    !['generator', 'process', 'format', 'producer'].includes(key) && fields[key as EpicFileField] !== undefined);
+  if (!structured) {
+    return undefined;
+  }
+  if (tags.length > 0) {
+    fields.tags = tags;
+  }
+  return Object.fromEntries(Object.entries(fields).filter(([, value]) => value !== undefined)) as EpicFileFields;
+}
+
+export function isEpicFileField(name: string): name is EpicFileField {
+  return (EPIC_FILE_FIELDS as string[]).includes(name);
+}
+
+/**
+ * Whether `fields` satisfy every condition of `filter`: a value, or an array
+ * of alternatives.  Numbers compare numerically, so "275" matches 275.
+ */
+export function matchesFileFields(fields: EpicFileFields | undefined, filter: Record<string, unknown>): boolean {
+  return Object.entries(filter).every(([key, expected]) => {
+    const actual = fields?.[key as EpicFileField];
+    if (actual === undefined) {
+      return false;
+    }
+    const alternatives = Array.isArray(expected) ? expected : [expected];
+    return alternatives.some(value => typeof actual === 'number'
+      ? Number(value) === actual
+      : String(value) === String(actual));
+  });
+}
+
+export interface FileFieldGroup {
+  /** The field's value, or null for files without it */
+  value: string | number | boolean | null;
+  count: number;
+  totalSize: number;
+}
+
+/** Count files and bytes per value of `field`, largest groups first. */
+export function groupByFileField(
+  files: Array<{ size: number; fields?: EpicFileFields }>,
+  field: EpicFileField
+): FileFieldGroup[] {
+  const groups = new Map<string, FileFieldGroup>();
+  for (const file of files) {
+    const raw = file.fields?.[field];
+    const value = raw === undefined || Array.isArray(raw) ? null : raw;
+    const key = JSON.stringify(value);
+    const group = groups.get(key) ?? { value, count: 0, totalSize: 0 };
+    group.count++;
+    group.totalSize += file.size;
+    groups.set(key, group);
+  }
+  return Array.from(groups.values()).sort((a, b) => b.count - a.count || String(a.value).localeCompare(String(b.value)));
+}
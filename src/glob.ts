@@ -0,0 +1,183 @@
+/**
+ * Glob patterns as used by search_files and the namePattern filters:
+ * `*` and `?` (never crossing a '/'), character classes `[abc]`, `[a-z]` and
+ * `[!a-z]`, alternation `{18x275,10x100}` (may nest) and `**`, which spans
+ * any number of directories.  Every other character, including regex
+ * metacharacters and backslashes, matches literally; a `[` or `{` that does
+ * not open a complete class or alternation is literal as well.
+ */
+
+const REGEX_SPECIAL = /[.*+?^${}()|[\]\\]/g;
+
+// Index of the ']' closing the character class opened at `start`, or -1.
+// A ']' right after the opening '[' (or '[!') is a member, not the end.
+function classEnd(glob: string, start: number): number {
+  let i = start + 1;
+  if (glob[i] === '!' || glob[i] === '^') {
+    i++;
+  }
+  if (glob[i] === ']') {
+    i++;
+  }
+  for (; i < glob.length; i++) {
+    if (glob[i] === '/') {
+      return -1;
+    }
+    if (glob[i] === ']') {
+      return i;
+    }
+  }
+  return -1;
+}
+
+/** Most plain globs one pattern's alternations may expand into. */
+export const MAX_BRACE_EXPANSIONS = 1024;
+
+/**
+ * Expand `{a,b}` alternations into the plain globs they stand for, e.g.
+ * `q2_{1,10}_*.root` into `q2_1_*.root` and `q2_10_*.root`.  Braces without a
+ * top-level comma are kept literally.  Patterns expanding into more than
+ * MAX_BRACE_EXPANSIONS globs are rejected.
+ */
+export function expandBraces(glob: string): string[] {
+  return expand(glob, { count: 0 });
+}
+
+// `budget` counts the globs produced so far, duplicates included
+function expand(glob: string, budget: { count: number }): string[] {
+  for (let start = 0; start < glob.length; start++) {
+    if (glob[start] === '[') {
+      const end = classEnd(glob, start);
+      if (end > 0) {
+        start = end;
+      }
+      continue;
+    }
+    if (glob[start] !== '{') {
+      continue;
+    }
+
+    let depth = 0;
+    let end = -1;
+    const commas: number[] = [];
+    for (let i = start; i < glob.length && end < 0; i++) {
+      if (glob[i] === '[') {
+        const close = classEnd(glob, i);
+        if (close > 0) {
+          i = close;
+        }
+      } else if (glob[i] === '{') {
+        depth++;
+      } else if (glob[i] === '}' && --depth === 0) {
+        end = i;
+      } else if (glob[i] === ',' && depth === 1) {
+        commas.push(i);
+      }
+    }
+    if (end < 0 || commas.length === 0) {
+      continue;
+    }
+
+    const prefix = glob.slice(0, start);
+    const suffix = glob.slice(end + 1);
+    const bounds = [start, ...commas, end];
+    const expanded = new Set<string>();
+    for (let k = 0; k < bounds.length - 1; k++) {
+      const alternative = glob.slice(bounds[k] + 1, bounds[k + 1]);
+      for (const expansion of expand(prefix + alternative + suffix, budget)) {
+        expanded.add(expansion);
+      }
+    }
+    return Array.from(expanded);
+  }
+  if (++budget.count > MAX_BRACE_EXPANSIONS) {
+    throw new Error('Invalid pattern: brace expansion too large');
+  }
+  return [glob];
+}
+
+// Regex source for a glob without alternations
+function translate(glob: string): string {
+  let source = '';
+  for (let i = 0; i < glob.length; i++) {
+    const c = glob[i];
+    if (c === '*' && glob[i + 1] === '*') {
+      i++;
+      if (glob[i + 1] === '/') {
+        // '**/' also matches no directory at all, so 'a/**/b' matches 'a/b'
+        i++;
+        source += '(?:.*/)?';
+      } else {
+        source += '.*';
+      }
+    } else if (c === '*') {
+      source += '[^/]*';
+    } else if (c === '?') {
+      source += '[^/]';
+    } else if (c === '[' && classEnd(glob, i) > 0) {
+      const end = classEnd(glob, i);
+      let body = glob.slice(i + 1, end);
+      const negated = body[0] === '!' || body[0] === '^';
+      if (negated) {
+        body = body.slice(1);
+      }
+      body = body.replace(/[\\\]\[^]/g, '\\$&');
+      source += negated ? `[^/${body}]` : `[${body}]`;
+      i = end;
+    } else {
+      source += c.replace(REGEX_SPECIAL, '\\$&');
+    }
+  }
+  return source;
+}
+
+/** Unanchored regex source for a glob, for embedding in a larger expression. */
+export function globSource(glob: string): string {
+  return `(?:${expandBraces(glob).map(translate).join('|')})`;
+}
+
+/** Convert a glob pattern to a RegExp anchored to the whole string. */
+export function globToRegex(glob: string): RegExp {
+  return new RegExp(`^${globSource(glob)}$`);
+}
+
+/** True if the pattern may use more than the `*` and `?` understood by `xrdfs find -name`. */
+export function hasExtendedGlob(glob: string): boolean {
+  return /[[{]/.test(glob) || glob.includes('**');
+}
+
+/** A glob such as `RECO/24.0?.?/DIS/**` matched against paths relative to a search root. */
+export interface PathGlob {
+  regex: RegExp;
+  /** Deepest directory level that can hold a match, or undefined with `**`. */
+  maxDepth?: number;
+  /** Whether a directory (given by its relative path segments) can contain matches. */
+  canDescend(segments: string[]): boolean;
+}
+
+export function compilePathGlob(pattern: string): PathGlob {
+  const normalized = pattern.replace(/^(\.?\/)+/, '').replace(/\/+/g, '/');
+  const expansions = expandBraces(normalized).map(glob =>
+    glob.split('/').map(segment => segment.includes('**') ? null : new RegExp(`^${translate(segment)}$`))
+  );
+  const unbounded = expansions.some(segments => segments.includes(null));
+
+  return {
+    regex: globToRegex(normalized),
+    maxDepth: unbounded ? undefined : Math.max(...expansions.map(segments => segments.length)) - 1,
+    canDescend(segments: string[]): boolean {
+      return expansions.some(globSegments => {
+        for (let i = 0; i < segments.length; i++) {
+          const segment = globSegments[i];
+          if (segment === null) {
+            return true;
+          }
+          if (segment === undefined || !segment.test(segments[i])) {
+            return false;
+          }
+        }
+        return globSegments.length > segments.length;
+      });
+    },
+  };
+}
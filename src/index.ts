@@ -4,11 +4,56 @@ import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
 import {
   CallToolRequestSchema,
+  ErrorCode,
+  GetPromptRequestSchema,
+  ListPromptsRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
   ListToolsRequestSchema,
+  McpError,
+  ReadResourceRequestSchema,
+  ServerNotification,
+  SubscribeRequestSchema,
   Tool,
+  UnsubscribeRequestSchema,
 } from '@modelcontextprotocol/sdk/types.js';
-import { XRootDClient } from './xrootd.js';
+import { readFileSync } from 'fs';
+import {
+  XRootDClient, DatasetComparison, DirectoryEntry, DuplicateOptions, FileFilter, FilteredSortKey, OperationOptions, PrewarmJob,
+  STORAGE_LEVELS, StorageLevel, StorageNode, StorageReport,
+} from './xrootd.js';
+import { CHECKSUM_ALGORITHMS, isChecksumAlgorithm } from './checksum.js';
+import { DEFAULT_INDEX_INTERVAL_MINUTES, IndexSnapshot } from './indexer.js';
+import { LayoutLevel, PathLayout } from './layout.js';
+import {
+  EPIC_FILE_FIELDS,
+  EpicFileField,
+  EpicFileFields,
+  groupByFileField,
+  isEpicFileField,
+  matchesFileFields,
+  parseEpicFileName,
+} from './filename.js';
 import { ROOTAnalyzer } from './root-analysis.js';
+import { XRootDResources, DEFAULT_WATCH_INTERVAL_SECONDS } from './resources.js';
+import { listPrompts, getPrompt } from './prompts.js';
+import {
+  ContentEncoding,
+  CONTENT_ENCODINGS,
+  DEFAULT_READ_MAX_BYTES,
+  MAX_READ_MAX_BYTES,
+  encodeContent,
+  isLikelyBinary,
+  trimToCharBoundary,
+} from './content.js';
+import { untilAborted } from './concurrency.js';
+import { CacheStore, JsonlCacheStore, DEFAULT_CACHE_MAX_BYTES, DEFAULT_NEGATIVE_TTL_SECONDS } from './cache.js';
+import { StorageSnapshotStore, applySnapshot, snapshotOf } from './snapshots.js';
+import { StorageBackend, XrdfsBackend, NativeBackend, LocalBackend, MemoryBackend, StorageFixture } from './storage.js';
+
+type BackendKind = 'xrdfs' | 'native' | 'local' | 'memory';
+
+const BACKEND_KINDS: BackendKind[] = ['xrdfs', 'native', 'local', 'memory'];
 
 interface ServerConfig {
   name: string;
@@ -16,12 +61,27 @@ interface ServerConfig {
   baseDir?: string;
   cacheTTL?: number;
   cacheMaxSize?: number;
+  cacheMaxMemoryMB?: number;
+  cacheStaleTTL?: number;
+  cacheNegativeTTL?: number;
   cacheEnabled?: boolean;
+  cacheDir?: string;
+  snapshotDir?: string;
+  backend?: BackendKind;
+  localPath?: string;
+  fixture?: string;
+  watchInterval?: number;
+  indexRoots?: string[] | string;
+  indexInterval?: number;
+  layout?: Array<LayoutLevel | string>;
 }
 
 interface ServerEntry {
   client: XRootDClient;
   rootAnalyzer: ROOTAnalyzer;
+  watchInterval: number;
+  /** Where storage_report keeps its snapshots, if anywhere */
+  snapshots?: StorageSnapshotStore;
 }
 
 // Safe XRootD URL pattern: root://host[:port][/] with no whitespace or shell metacharacters
@@ -94,6 +154,143 @@ function normalizeNonNegativeInt(
   return num;
 }
 
+// Non-network backends do not need a root:// URL for listing or reading, but
+// the ROOT analysis tools derive an HTTP URL from it.  Default to localhost so
+// those tools report CopyRequiredError and fall back to reading via the backend.
+const LOCAL_PLACEHOLDER_URL = 'root://localhost';
+
+// Server-wide default for a per-server setting, taken from an environment variable
+function envDefault(envName: string, defaultValue: number, serverName: string): number {
+  return normalizeNonNegativeInt(process.env[envName], defaultValue, envName, serverName);
+}
+
+// Directories to index: an array or comma-separated list, defaulting to XROOTD_INDEX_ROOTS
+function normalizeIndexRoots(rawValue: unknown, serverName: string): string[] {
+  const value = rawValue ?? process.env.XROOTD_INDEX_ROOTS;
+  if (value === undefined || value === null) {
+    return [];
+  }
+  const roots = typeof value === 'string' ? value.split(',') : value;
+  if (!Array.isArray(roots) || !roots.every(root => typeof root === 'string')) {
+    console.warn(`Warning: invalid value for indexRoots on server "${serverName}", indexing disabled`);
+    return [];
+  }
+  return roots.map(root => root.trim()).filter(root => root);
+}
+
+// Dataset layout below a campaign, defaulting to XROOTD_LAYOUT and then the EPIC layout
+function normalizeLayout(rawValue: unknown, serverName: string): PathLayout | undefined {
+  let value = rawValue;
+  if (value === undefined && process.env.XROOTD_LAYOUT) {
+    try {
+      value = JSON.parse(process.env.XROOTD_LAYOUT);
+    } catch (e: any) {
+      console.error(`Error: XROOTD_LAYOUT is not valid JSON: ${e.message}`);
+      process.exit(1);
+    }
+  }
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  try {
+    return PathLayout.fromConfig(value);
+  } catch (e: any) {
+    console.error(`Error: ${e.message} for server "${serverName}"`);
+    process.exit(1);
+  }
+}
+
+function normalizeBackendKind(rawValue: unknown, serverName: string): BackendKind {
+  if (rawValue === undefined || rawValue === null) {
+    return 'xrdfs';
+  }
+  if (typeof rawValue === 'string' && (BACKEND_KINDS as string[]).includes(rawValue.trim())) {
+    return rawValue.trim() as BackendKind;
+  }
+  console.error(
+    `Error: Invalid backend for server "${serverName}": expected one of ${BACKEND_KINDS.join(', ')}, got ${JSON.stringify(rawValue)}`
+  );
+  process.exit(1);
+}
+
+function createStorageBackend(kind: BackendKind, cfg: ServerConfig, url: string, baseDir: string): StorageBackend {
+  switch (kind) {
+    case 'native':
+      return new NativeBackend(url);
+    case 'local': {
+      if (typeof cfg.localPath !== 'string' || cfg.localPath.trim().length === 0) {
+        console.error(`Error: Server "${cfg.name}" uses the local backend but has no localPath`);
+        process.exit(1);
+      }
+      return new LocalBackend(cfg.localPath, baseDir);
+    }
+    case 'memory': {
+      if (cfg.fixture === undefined) {
+        return new MemoryBackend();
+      }
+      try {
+        const fixture = JSON.parse(readFileSync(String(cfg.fixture), 'utf-8')) as StorageFixture;
+        return MemoryBackend.fromFixture(fixture);
+      } catch (e) {
+        console.error(`Error: Could not load fixture for server "${cfg.name}":`, e);
+        process.exit(1);
+      }
+    }
+    default:
+      return new XrdfsBackend(url);
+  }
+}
+
+// Identifies the storage behind a server name in its persistent cache file, so
+// that listings are dropped when the name is pointed somewhere else
+function cacheSource(kind: BackendKind, cfg: ServerConfig, url: string): string {
+  switch (kind) {
+    case 'local':
+      return `local:${cfg.localPath}`;
+    case 'memory':
+      return `memory:${cfg.fixture ?? ''}`;
+    default:
+      return url;
+  }
+}
+
+function createCacheStore(kind: BackendKind, cfg: ServerConfig, url: string): CacheStore | undefined {
+  // Read as unknown: the config file is JSON and may hold any type here
+  const rawCacheDir: unknown = cfg.cacheDir ?? process.env.XROOTD_CACHE_DIR;
+  if (rawCacheDir === undefined || rawCacheDir === '') {
+    return undefined;
+  }
+  if (typeof rawCacheDir !== 'string') {
+    console.error(`Error: Invalid cacheDir for server "${cfg.name}": expected string, got ${typeof rawCacheDir}`);
+    process.exit(1);
+  }
+  try {
+    return new JsonlCacheStore(rawCacheDir, cfg.name, cacheSource(kind, cfg, url));
+  } catch (e: any) {
+    // The server still works without persistence
+    console.error(`Warning: Persistent cache disabled for server "${cfg.name}": ${e.message}`);
+    return undefined;
+  }
+}
+
+// Storage report snapshots go to snapshotDir, XROOTD_SNAPSHOT_DIR or else the cache directory
+function createSnapshotStore(cfg: ServerConfig): StorageSnapshotStore | undefined {
+  const rawDir: unknown = cfg.snapshotDir ?? process.env.XROOTD_SNAPSHOT_DIR ?? cfg.cacheDir ?? process.env.XROOTD_CACHE_DIR;
+  if (rawDir === undefined || rawDir === '') {
+    return undefined;
+  }
+  if (typeof rawDir !== 'string') {
+    console.error(`Error: Invalid snapshotDir for server "${cfg.name}": expected string, got ${typeof rawDir}`);
+    process.exit(1);
+  }
+  try {
+    return new StorageSnapshotStore(rawDir, cfg.name);
+  } catch (e: any) {
+    console.error(`Warning: Storage report snapshots disabled for server "${cfg.name}": ${e.message}`);
+    return undefined;
+  }
+}
+
 function buildServerConfigs(): ServerConfig[] {
   const XROOTD_SERVERS = process.env.XROOTD_SERVERS;
   const XROOTD_SERVER = process.env.XROOTD_SERVER;
@@ -113,13 +310,15 @@ function buildServerConfigs(): ServerConfig[] {
         }
         const rawName = (config as ServerConfig).name;
         const url = (config as ServerConfig).url;
+        const backend = (config as ServerConfig).backend;
         if (typeof rawName !== 'string' || rawName.trim().length === 0) {
           console.error(`Error: XROOTD_SERVERS[${index}].name must be a non-empty string`);
           process.exit(1);
         }
         const name = rawName.trim();
         (config as ServerConfig).name = name;
-        if (typeof url !== 'string' || url.trim().length === 0) {
+        const urlRequired = backend === undefined || backend === 'xrdfs' || backend === 'native';
+        if ((urlRequired || url !== undefined) && (typeof url !== 'string' || url.trim().length === 0)) {
           console.error(`Error: XROOTD_SERVERS[${index}].url must be a non-empty string`);
           process.exit(1);
         }
@@ -142,6 +341,7 @@ function buildServerConfigs(): ServerConfig[] {
         name: 'default',
         url: XROOTD_SERVER,
         baseDir: process.env.XROOTD_BASE_DIR || '/',
+        backend: (process.env.XROOTD_BACKEND || undefined) as BackendKind | undefined,
         cacheEnabled: process.env.XROOTD_CACHE_ENABLED !== 'false',
         cacheTTL: parseInt(process.env.XROOTD_CACHE_TTL || '60', 10),
         cacheMaxSize: parseInt(process.env.XROOTD_CACHE_MAX_SIZE || '1000', 10),
@@ -157,11 +357,34 @@ const serverConfigs = buildServerConfigs();
 
 const servers = new Map<string, ServerEntry>();
 for (const cfg of serverConfigs) {
-  validateServerUrl(cfg.url, cfg.name);
+  const backendKind = normalizeBackendKind(cfg.backend, cfg.name);
+  const url = cfg.url ?? LOCAL_PLACEHOLDER_URL;
+  validateServerUrl(url, cfg.name);
   const anyCfg = cfg as any;
   const cacheEnabled = normalizeCacheEnabled(anyCfg.cacheEnabled, true);
   const cacheTTL = normalizeNonNegativeInt(anyCfg.cacheTTL, 60, 'cacheTTL', cfg.name);
   const cacheMaxSize = normalizeNonNegativeInt(anyCfg.cacheMaxSize, 1000, 'cacheMaxSize', cfg.name);
+  const cacheMaxMemoryMB = normalizeNonNegativeInt(
+    anyCfg.cacheMaxMemoryMB,
+    envDefault('XROOTD_CACHE_MAX_MEMORY_MB', DEFAULT_CACHE_MAX_BYTES / (1024 * 1024), cfg.name),
+    'cacheMaxMemoryMB',
+    cfg.name
+  );
+  const cacheStaleTTL = normalizeNonNegativeInt(
+    anyCfg.cacheStaleTTL,
+    envDefault('XROOTD_CACHE_STALE_TTL', 0, cfg.name),
+    'cacheStaleTTL',
+    cfg.name
+  );
+  const cacheNegativeTTL = normalizeNonNegativeInt(
+    anyCfg.cacheNegativeTTL,
+    envDefault('XROOTD_CACHE_NEGATIVE_TTL', DEFAULT_NEGATIVE_TTL_SECONDS, cfg.name),
+    'cacheNegativeTTL',
+    cfg.name
+  );
+  const defaultWatchInterval = parseInt(process.env.XROOTD_WATCH_INTERVAL || '', 10) || DEFAULT_WATCH_INTERVAL_SECONDS;
+  // A zero interval would poll continuously
+  const watchInterval = Math.max(1, normalizeNonNegativeInt(anyCfg.watchInterval, defaultWatchInterval, 'watchInterval', cfg.name));
   const rawBaseDir = anyCfg.baseDir;
   let baseDir: string;
   if (rawBaseDir === undefined || rawBaseDir === null) {
@@ -176,13 +399,34 @@ for (const cfg of serverConfigs) {
     baseDir = '/'; // unreachable; satisfies TypeScript control-flow analysis
   }
   const client = new XRootDClient(
-    cfg.url,
+    url,
     baseDir,
     cacheEnabled,
     cacheTTL,
-    cacheMaxSize
+    cacheMaxSize,
+    createStorageBackend(backendKind, cfg, url, baseDir),
+    {
+      store: cacheEnabled ? createCacheStore(backendKind, cfg, url) : undefined,
+      maxBytes: cacheMaxMemoryMB * 1024 * 1024,
+      staleTTLMinutes: cacheStaleTTL,
+      negativeTTLSeconds: cacheNegativeTTL,
+    }
   );
-  servers.set(cfg.name, { client, rootAnalyzer: new ROOTAnalyzer(client) });
+  const indexRoots = normalizeIndexRoots(anyCfg.indexRoots, cfg.name);
+  if (indexRoots.length > 0) {
+    const indexInterval = Math.max(1, normalizeNonNegativeInt(
+      anyCfg.indexInterval,
+      envDefault('XROOTD_INDEX_INTERVAL', DEFAULT_INDEX_INTERVAL_MINUTES, cfg.name),
+      'indexInterval',
+      cfg.name
+    ));
+    client.startIndexing(indexRoots, indexInterval);
+  }
+  const layout = normalizeLayout(anyCfg.layout, cfg.name);
+  if (layout) {
+    client.setLayout(layout);
+  }
+  servers.set(cfg.name, { client, rootAnalyzer: new ROOTAnalyzer(client), watchInterval, snapshots: createSnapshotStore(cfg) });
 }
 
 function getClient(serverName?: string): ServerEntry {
@@ -204,23 +448,122 @@ const server = new Server(
   {
     capabilities: {
       tools: {},
+      resources: { subscribe: true },
+      prompts: {},
+    },
+  }
+);
+
+const resources = new XRootDResources(
+  new Map(Array.from(servers.entries(), ([name, { client }]) => [name, client])),
+  {
+    watchIntervals: new Map(Array.from(servers.entries(), ([name, { watchInterval }]) => [name, watchInterval])),
+    onUpdated: (uri, changes) => {
+      console.error(
+        `Resource updated: ${uri} (+${changes.added.length} -${changes.removed.length} ~${changes.changed.length})`
+      );
+      server.sendResourceUpdated({ uri }).catch(error => {
+        console.error(`Failed to send resource update for ${uri}:`, error);
+      });
     },
   }
 );
 
-// Log server info for debugging
-console.error(`Server: xrootd-mcp-server v0.1.0`);
-console.error(`Capabilities: tools (17 available)`);
+// Options of search_files and list_directory for metadata encoded in EPIC file names
+const FILE_NAME_FIELD_PROPERTIES = {
+  parse_file_names: {
+    type: 'boolean',
+    description: 'Attach the fields encoded in EPIC file names (generator, process, beamEnergy, electronEnergy, hadronEnergy, minQ2, q2Min, q2Max, beamEffects, crossingAngle, divergence, run, fileIndex, format, producer) to each file (default: false)',
+  },
+  fieldFilter: {
+    type: 'object',
+    description: 'Only return files whose parsed name fields have these values, e.g. {"hadronEnergy": 275, "minQ2": [1, 10]}; an array lists alternatives. Implies parse_file_names',
+  },
+  groupBy: {
+    type: 'string',
+    enum: EPIC_FILE_FIELDS,
+    description: 'Count files and bytes per value of this parsed name field. Implies parse_file_names',
+  },
+};
 
 const tools: Tool[] = [
   {
     name: 'list_servers',
-    description: 'List all configured XRootD servers',
+    description: 'List all configured XRootD servers with their backend and directory cache statistics (entries, estimated memory, hits, misses, hit rate, evictions, expirations)',
     inputSchema: {
       type: 'object',
       properties: {},
     },
   },
+  {
+    name: 'cache_inspect',
+    description: 'List cached directory listings with their age, entry counts and hits, plus running and recent cache_prewarm walks',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        path: {
+          type: 'string',
+          description: 'Only show listings at or below this path (default: all)',
+        },
+        limit: {
+          type: 'integer',
+          description: 'Maximum number of listings to return, most recently used first (default: 100)',
+        },
+        server: {
+          type: 'string',
+          description: 'Name of the XRootD server to use (default: first configured server)',
+        },
+      },
+    },
+  },
+  {
+    name: 'cache_invalidate',
+    description: 'Drop cached directory listings so that the next request reads them fresh from the server, e.g. after a production push',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        path: {
+          type: 'string',
+          description: 'Directory whose cached listing should be dropped',
+        },
+        recursive: {
+          type: 'boolean',
+          description: 'Also drop every cached listing below the path (default: false)',
+        },
+        server: {
+          type: 'string',
+          description: 'Name of the XRootD server to use (default: first configured server)',
+        },
+      },
+      required: ['path'],
+    },
+  },
+  {
+    name: 'cache_prewarm',
+    description: 'Walk a directory tree down to a given depth in the background, caching every listing. Returns immediately unless wait is true; check progress with cache_inspect.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        path: {
+          type: 'string',
+          description: 'Directory to start from',
+        },
+        maxDepth: {
+          type: 'integer',
+          description: 'Number of directory levels below the path to list; 0 caches only the path itself (default: 3)',
+        },
+        wait: {
+          type: 'boolean',
+          description: 'Wait for the walk to finish and return its result (default: false); cancelling the request stops only the wait, not the walk',
+        },
+        server: {
+          type: 'string',
+          description: 'Name of the XRootD server to use (default: first configured server)',
+        },
+      },
+      required: ['path'],
+    },
+  },
   {
     name: 'list_directory',
     description: 'List contents of a directory on an XRootD server',
@@ -239,6 +582,7 @@ const tools: Tool[] = [
           type: 'number',
           description: 'Starting index for pagination (default: 0). Use with limit to retrieve subsequent pages.',
         },
+        ...FILE_NAME_FIELD_PROPERTIES,
         server: {
           type: 'string',
           description: 'Name of the XRootD server to use (default: first configured server)',
@@ -265,9 +609,32 @@ const tools: Tool[] = [
       required: ['path'],
     },
   },
+  {
+    name: 'get_checksum',
+    description: 'Get the checksum of a file as computed or stored by the server (xrdfs query checksum)',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        path: {
+          type: 'string',
+          description: 'Path to the file',
+        },
+        algorithm: {
+          type: 'string',
+          enum: [...CHECKSUM_ALGORITHMS],
+          description: 'Checksum algorithm to request (default: the server\'s configured checksum, normally adler32)',
+        },
+        server: {
+          type: 'string',
+          description: 'Name of the XRootD server to use (default: first configured server)',
+        },
+      },
+      required: ['path'],
+    },
+  },
   {
     name: 'read_file',
-    description: 'Read contents of a file from an XRootD server (supports byte ranges)',
+    description: 'Read contents of a file from an XRootD server (supports byte ranges). At most maxBytes are returned per call; the second content item is JSON metadata with a nextStart cursor when more data remains. Binary files are refused unless an encoding is given.',
     inputSchema: {
       type: 'object',
       properties: {
@@ -281,7 +648,16 @@ const tools: Tool[] = [
         },
         end: {
           type: 'number',
-          description: 'Optional: End byte position for partial read',
+          description: 'Optional: End byte position (exclusive) for partial read',
+        },
+        encoding: {
+          type: 'string',
+          enum: CONTENT_ENCODINGS,
+          description: 'Optional: How to return the bytes: "utf-8" text, "base64", or a "hex-dump" (hexdump -C style). Default: utf-8 for text files; binary files require an explicit encoding',
+        },
+        maxBytes: {
+          type: 'number',
+          description: `Optional: Maximum number of bytes to return (default: ${DEFAULT_READ_MAX_BYTES}, max: ${MAX_READ_MAX_BYTES})`,
         },
         server: {
           type: 'string',
@@ -335,7 +711,7 @@ const tools: Tool[] = [
       properties: {
         pattern: {
           type: 'string',
-          description: 'Search pattern (glob like "*.root" or regex if useRegex=true)',
+          description: 'Search pattern: a glob like "*.root", "*_{18x275,10x100}_*.root" or "run[0-9]*.root" matched against file names, a path glob like "RECO/24.*/epic_craterlake/DIS/**/q2_1_*/*.edm4eic.root" matched against the path relative to basePath, or a regex if useRegex=true',
         },
         basePath: {
           type: 'string',
@@ -349,6 +725,11 @@ const tools: Tool[] = [
           type: 'boolean',
           description: 'Treat pattern as regex instead of glob (default: false)',
         },
+        useIndex: {
+          type: 'boolean',
+          description: 'Answer from the namespace index when the path is indexed, reporting its indexAge in seconds (default: true)',
+        },
+        ...FILE_NAME_FIELD_PROPERTIES,
         server: {
           type: 'string',
           description: 'Name of the XRootD server to use (default: first configured server)',
@@ -371,6 +752,10 @@ const tools: Tool[] = [
           type: 'boolean',
           description: 'Include subdirectories (default: true)',
         },
+        useIndex: {
+          type: 'boolean',
+          description: 'Answer from the namespace index when the path is indexed, reporting its indexAge in seconds (default: true)',
+        },
         server: {
           type: 'string',
           description: 'Name of the XRootD server to use (default: first configured server)',
@@ -381,7 +766,7 @@ const tools: Tool[] = [
   },
   {
     name: 'list_directory_filtered',
-    description: 'List directory with advanced filtering options',
+    description: 'List directory with advanced filtering options, optionally recursive, sorted and paginated (e.g. the 20 largest .root files modified this week under a campaign)',
     inputSchema: {
       type: 'object',
       properties: {
@@ -390,8 +775,11 @@ const tools: Tool[] = [
           description: 'Directory path',
         },
         extension: {
-          type: 'string',
-          description: 'Filter by file extension (e.g., ".root")',
+          anyOf: [
+            { type: 'string' },
+            { type: 'array', items: { type: 'string' } },
+          ],
+          description: 'Filter by file extension (e.g., ".root"); several alternatives as an array or comma-separated list (e.g., [".root", ".hepmc3"])',
         },
         minSize: {
           type: 'number',
@@ -411,7 +799,33 @@ const tools: Tool[] = [
         },
         namePattern: {
           type: 'string',
-          description: 'Glob pattern for filename (e.g., "DEMP*")',
+          description: 'Glob pattern for filename (e.g., "DEMP*", "*_{18x275,10x100}_*", "[!.]*")',
+        },
+        recursive: {
+          type: 'boolean',
+          description: 'Include entries of all subdirectories (default: false)',
+        },
+        maxDepth: {
+          type: 'number',
+          description: 'With recursive, the deepest directory level to descend into (default: unlimited)',
+        },
+        sortBy: {
+          type: 'string',
+          enum: ['name', 'size', 'mtime'],
+          description: 'Sort key (default: server order, or path when recursive)',
+        },
+        sortOrder: {
+          type: 'string',
+          enum: ['asc', 'desc'],
+          description: 'Sort direction (default: asc)',
+        },
+        limit: {
+          type: 'number',
+          description: 'Maximum number of entries per page (default: 1000). Use with offset for pagination.',
+        },
+        offset: {
+          type: 'number',
+          description: 'Starting index for pagination (default: 0). Use with limit to retrieve subsequent pages.',
         },
         server: {
           type: 'string',
@@ -422,84 +836,122 @@ const tools: Tool[] = [
     },
   },
   {
-    name: 'find_recent_files',
-    description: 'Find files modified within a time period',
+    name: 'query_files',
+    description: 'Search a directory tree with a query expression combining name, path, size, modification time, depth and type conditions, e.g. name ~ "*.root" and size > 1GB and mtime > -7d and path ~ "DIS/NC" sort by size desc limit 20',
     inputSchema: {
       type: 'object',
       properties: {
-        path: {
+        query: {
           type: 'string',
-          description: 'Path to search',
+          description: 'Conditions joined by and/or/not and parentheses. Fields: name, path (relative to basePath), size, mtime, depth, type (file or dir). Operators: = != < <= > >= and ~ / !~ for globs (a path glob matches any run of path segments). Sizes take units like 500MB or 1.5GB; times are ISO dates or ages like -7d, -24h. Optional trailing "sort by <field> [asc|desc], ..." and "limit N". Only files match unless the query mentions type',
         },
-        hours: {
+        basePath: {
+          type: 'string',
+          description: 'Directory to search (default: current directory)',
+        },
+        maxDepth: {
           type: 'number',
-          description: 'Number of hours to look back (default: 24)',
+          description: 'Deepest directory level to descend into below basePath (default: unlimited)',
         },
-        recursive: {
-          type: 'boolean',
-          description: 'Search recursively (default: true)',
+        limit: {
+          type: 'number',
+          description: 'Maximum number of matches to return when the query has no limit clause (default: 100)',
         },
         server: {
           type: 'string',
           description: 'Name of the XRootD server to use (default: first configured server)',
         },
       },
-      required: ['path'],
+      required: ['query'],
     },
   },
   {
-    name: 'list_campaigns',
-    description: 'List available production campaigns',
+    name: 'find_duplicates',
+    description: 'Find files stored more than once under one or more paths (e.g. several RECO/<campaign> trees): files are grouped by size and confirmed by server checksum or a sampled content hash, reporting the bytes wasted per group',
     inputSchema: {
       type: 'object',
       properties: {
-        recoPath: {
+        paths: {
+          anyOf: [
+            { type: 'string' },
+            { type: 'array', items: { type: 'string' } },
+          ],
+          description: 'Directory or directories to search together (e.g., ["RECO/24.07.0", "RECO/24.08.1"])',
+        },
+        minSize: {
+          type: 'number',
+          description: 'Ignore files smaller than this many bytes (default: 1, skipping empty files)',
+        },
+        method: {
           type: 'string',
-          description: 'Path to RECO directory (default: "RECO")',
+          enum: ['auto', 'checksum', 'sampled'],
+          description: 'How equal-size files are compared: "checksum" (xrdfs query checksum), "sampled" (hash of the start, middle and end of each file) or "auto" (checksum where the server supports it; default)',
+        },
+        limit: {
+          type: 'number',
+          description: 'Maximum number of duplicate groups to return, largest waste first (default: 100)',
         },
         server: {
           type: 'string',
           description: 'Name of the XRootD server to use (default: first configured server)',
         },
       },
+      required: ['paths'],
     },
   },
   {
-    name: 'list_datasets',
-    description: 'List datasets within a campaign',
+    name: 'verify_checksums',
+    description: 'Verify a dataset against a checksum manifest stored on the server: every listed file\'s server checksum is compared with the manifest, reporting mismatches and missing files. The manifest may be JSON (e.g. [{"path": "a.root", "adler32": "0a1b2c3d"}] or {"a.root": "0a1b2c3d"}) or CSV/TSV text (e.g. "path,adler32" with a header, or "<path>,<checksum>" / md5sum-style "<checksum>  <path>" lines)',
     inputSchema: {
       type: 'object',
       properties: {
-        campaign: {
+        manifest: {
           type: 'string',
-          description: 'Campaign name (e.g., "25.10.2")',
+          description: 'Path to the manifest file',
         },
-        recoPath: {
+        datasetPath: {
           type: 'string',
-          description: 'Path to RECO directory (default: "RECO")',
+          description: 'Directory relative manifest paths are resolved against (default: the manifest\'s directory)',
+        },
+        algorithm: {
+          type: 'string',
+          enum: [...CHECKSUM_ALGORITHMS],
+          description: 'Algorithm of manifest checksums whose column or field does not name one (default: adler32)',
+        },
+        limit: {
+          type: 'number',
+          description: 'Maximum number of mismatched and of missing files to list (default: 100)',
         },
         server: {
           type: 'string',
           description: 'Name of the XRootD server to use (default: first configured server)',
         },
       },
-      required: ['campaign'],
+      required: ['manifest'],
     },
   },
   {
-    name: 'summarize_recent_changes',
-    description: 'Summarize files added in a time period with statistics',
+    name: 'find_recent_files',
+    description: 'Find files modified within a time period',
     inputSchema: {
       type: 'object',
       properties: {
         path: {
           type: 'string',
-          description: 'Path to analyze',
+          description: 'Path to search',
         },
         hours: {
           type: 'number',
           description: 'Number of hours to look back (default: 24)',
         },
+        recursive: {
+          type: 'boolean',
+          description: 'Search recursively (default: true)',
+        },
+        useIndex: {
+          type: 'boolean',
+          description: 'Answer from the namespace index when the path is indexed, reporting its indexAge in seconds (default: true)',
+        },
         server: {
           type: 'string',
           description: 'Name of the XRootD server to use (default: first configured server)',
@@ -509,65 +961,235 @@ const tools: Tool[] = [
     },
   },
   {
-    name: 'analyze_root_file',
-    description: 'Analyze ROOT file structure, trees, and branches. Prefers HTTP-based access; if unavailable, set allow_copy: true to fall back to xrdcp.',
+    name: 'list_campaigns',
+    description: 'List available production campaigns',
     inputSchema: {
       type: 'object',
       properties: {
-        path: {
+        recoPath: {
           type: 'string',
-          description: 'Path to ROOT file',
+          description: 'Path to RECO directory (default: "RECO")',
         },
         server: {
           type: 'string',
           description: 'Name of the XRootD server to use (default: first configured server)',
         },
-        allow_copy: {
-          type: 'boolean',
-          description: 'Fall back to a full xrdcp file copy if HTTP access fails (default: false).',
-        },
       },
-      required: ['path'],
     },
   },
   {
-    name: 'extract_podio_metadata',
-    description: 'Extract metadata from podio_metadata tree in ROOT file. Prefers HTTP-based access; if unavailable, set allow_copy: true to fall back to xrdcp.',
+    name: 'list_datasets',
+    description: 'List datasets within a campaign, following the server\'s path layout (by default detector/process_type/process, continuing into beam-energy and Q2 directories such as 18x275/q2_0.001_1.0); each dataset carries the fields parsed from its path',
     inputSchema: {
       type: 'object',
       properties: {
-        path: {
+        campaign: {
           type: 'string',
-          description: 'Path to ROOT file',
+          description: 'Campaign name (e.g., "25.10.2")',
+        },
+        recoPath: {
+          type: 'string',
+          description: 'Path to RECO directory (default: "RECO")',
         },
         server: {
           type: 'string',
           description: 'Name of the XRootD server to use (default: first configured server)',
         },
-        allow_copy: {
-          type: 'boolean',
-          description: 'Fall back to a full xrdcp file copy if HTTP access fails (default: false).',
-        },
       },
-      required: ['path'],
+      required: ['campaign'],
     },
   },
   {
-    name: 'get_event_statistics',
-    description: 'Get event statistics and collection info from ROOT file. Prefers HTTP-based access; if unavailable, set allow_copy: true to fall back to xrdcp.',
+    name: 'compare_campaigns',
+    description: 'Compare two production campaigns (e.g. 24.06.0 vs 24.07.0): aligns their datasets as found by list_datasets and reports datasets added and removed, and file-count, total-size and optionally event-count deltas per dataset',
     inputSchema: {
       type: 'object',
       properties: {
-        path: {
+        base: {
           type: 'string',
-          description: 'Path to ROOT file',
+          description: 'Campaign to compare against (e.g., "24.06.0")',
         },
-        server: {
+        target: {
           type: 'string',
-          description: 'Name of the XRootD server to use (default: first configured server)',
+          description: 'Campaign to compare (e.g., "24.07.0")',
         },
-        allow_copy: {
-          type: 'boolean',
+        recoPath: {
+          type: 'string',
+          description: 'Path to RECO directory (default: "RECO")',
+        },
+        includeEvents: {
+          type: 'boolean',
+          description: 'Also count the events of every dataset with get_dataset_event_statistics and report event deltas (slow: every ROOT file is opened; default: false)',
+        },
+        includeUnchanged: {
+          type: 'boolean',
+          description: 'List datasets identical in both campaigns as well (default: false, only counted)',
+        },
+        allow_copy: {
+          type: 'boolean',
+          description: 'With includeEvents, allow copying files locally when HTTP access is unavailable (default: false)',
+        },
+        server: {
+          type: 'string',
+          description: 'Name of the XRootD server to use (default: first configured server)',
+        },
+      },
+      required: ['base', 'target'],
+    },
+  },
+  {
+    name: 'check_dataset_completeness',
+    description: 'Check a dataset directory for failed production jobs: infers the numbered file sequences (_1.0000, _1.0001, ...) and reports missing file indices, empty files, files much smaller than the median of their format and indices produced more than once (e.g. in two formats)',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        path: {
+          type: 'string',
+          description: 'Dataset directory (e.g., "RECO/24.07.0/epic_craterlake/DIS/NC/18x275/q2_1_10")',
+        },
+        firstIndex: {
+          type: 'number',
+          description: 'File index the sequences start at (default: 0)',
+        },
+        expectedFiles: {
+          type: 'number',
+          description: 'Number of files each sequence should have (default: up to the highest index found, so missing files at the end go unnoticed)',
+        },
+        smallFileRatio: {
+          type: 'number',
+          description: 'Report files smaller than this fraction of the median size of their format (default: 0.5)',
+        },
+        limit: {
+          type: 'number',
+          description: 'Maximum number of missing indices per sequence and of files per category to list (default: 100)',
+        },
+        server: {
+          type: 'string',
+          description: 'Name of the XRootD server to use (default: first configured server)',
+        },
+      },
+      required: ['path'],
+    },
+  },
+  {
+    name: 'storage_report',
+    description: 'Report storage usage of production campaigns as a tree (campaign, detector, process, dataset) with file counts, bytes and each node\'s share of its parent, as JSON and as a Markdown table. Reports can be saved as snapshots on the MCP server, and are compared with the latest earlier snapshot to show growth',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        campaigns: {
+          anyOf: [
+            { type: 'string' },
+            { type: 'array', items: { type: 'string' } },
+          ],
+          description: 'Campaign or campaigns to report (default: every campaign in recoPath)',
+        },
+        recoPath: {
+          type: 'string',
+          description: 'Path to RECO directory (default: "RECO")',
+        },
+        depth: {
+          type: 'string',
+          enum: [...STORAGE_LEVELS],
+          description: 'Deepest level to show (default: "dataset"); totals always include everything below',
+        },
+        since: {
+          type: 'string',
+          description: 'Compare with the latest snapshot taken at or before this date (ISO 8601, e.g. "2026-09-01"; default: the latest snapshot)',
+        },
+        saveSnapshot: {
+          type: 'boolean',
+          description: 'Keep this report as a snapshot for later comparisons (default: false)',
+        },
+        server: {
+          type: 'string',
+          description: 'Name of the XRootD server to use (default: first configured server)',
+        },
+      },
+    },
+  },
+  {
+    name: 'summarize_recent_changes',
+    description: 'Summarize files added in a time period with statistics',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        path: {
+          type: 'string',
+          description: 'Path to analyze',
+        },
+        hours: {
+          type: 'number',
+          description: 'Number of hours to look back (default: 24)',
+        },
+        server: {
+          type: 'string',
+          description: 'Name of the XRootD server to use (default: first configured server)',
+        },
+      },
+      required: ['path'],
+    },
+  },
+  {
+    name: 'analyze_root_file',
+    description: 'Analyze ROOT file structure, trees, and branches. Prefers HTTP-based access; if unavailable, set allow_copy: true to fall back to xrdcp.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        path: {
+          type: 'string',
+          description: 'Path to ROOT file',
+        },
+        server: {
+          type: 'string',
+          description: 'Name of the XRootD server to use (default: first configured server)',
+        },
+        allow_copy: {
+          type: 'boolean',
+          description: 'Fall back to a full xrdcp file copy if HTTP access fails (default: false).',
+        },
+      },
+      required: ['path'],
+    },
+  },
+  {
+    name: 'extract_podio_metadata',
+    description: 'Extract metadata from podio_metadata tree in ROOT file. Prefers HTTP-based access; if unavailable, set allow_copy: true to fall back to xrdcp.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        path: {
+          type: 'string',
+          description: 'Path to ROOT file',
+        },
+        server: {
+          type: 'string',
+          description: 'Name of the XRootD server to use (default: first configured server)',
+        },
+        allow_copy: {
+          type: 'boolean',
+          description: 'Fall back to a full xrdcp file copy if HTTP access fails (default: false).',
+        },
+      },
+      required: ['path'],
+    },
+  },
+  {
+    name: 'get_event_statistics',
+    description: 'Get event statistics and collection info from ROOT file. Prefers HTTP-based access; if unavailable, set allow_copy: true to fall back to xrdcp.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        path: {
+          type: 'string',
+          description: 'Path to ROOT file',
+        },
+        server: {
+          type: 'string',
+          description: 'Name of the XRootD server to use (default: first configured server)',
+        },
+        allow_copy: {
+          type: 'boolean',
           description: 'Fall back to a full xrdcp file copy if HTTP access fails (default: false).',
         },
       },
@@ -648,23 +1270,146 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
   return { tools };
 });
 
-server.setRequestHandler(CallToolRequestSchema, async (request) => {
+server.setRequestHandler(ListResourcesRequestSchema, async () => {
+  return { resources: await resources.listResources() };
+});
+
+server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+  return { resourceTemplates: resources.listResourceTemplates() };
+});
+
+server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+  return await resources.readResource(request.params.uri);
+});
+
+server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+  await resources.subscribe(request.params.uri);
+  return {};
+});
+
+server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+  resources.unsubscribe(request.params.uri);
+  return {};
+});
+
+server.setRequestHandler(ListPromptsRequestSchema, async () => {
+  return { prompts: listPrompts() };
+});
+
+server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+  const args = request.params.arguments ?? {};
+  if (args.server && !servers.has(args.server)) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `Unknown server: "${args.server}". Available servers: ${Array.from(servers.keys()).join(', ')}`
+    );
+  }
+  return getPrompt(request.params.name, args);
+});
+
+server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
   const { name } = request.params;
   // list_servers takes no parameters so clients may omit arguments; default to {}
   const args = request.params.arguments ?? {};
+  // Long-running tools report progress when the client asked for it and stop
+  // (killing in-flight xrdfs/xrdcp processes) on notifications/cancelled
+  const operation = createOperationOptions(request.params._meta?.progressToken, extra.signal, extra.sendNotification);
 
   try {
     switch (name) {
       case 'list_servers': {
-        const serverList = Array.from(servers.entries()).map(([srvName, { client }]) => ({
-          name: srvName,
-          cacheStats: client.getCacheStats(),
-        }));
+        const serverList = Array.from(servers.entries()).map(([srvName, { client }]) => {
+          const cacheStats = client.getCacheStats();
+          return {
+            name: srvName,
+            backend: client.getBackendKind(),
+            cacheStats: {
+              ...cacheStats,
+              bytesHuman: formatBytes(cacheStats.bytes),
+              maxBytesHuman: formatBytes(cacheStats.maxBytes),
+            },
+            ...(client.getIndexStatus() ? { index: client.getIndexStatus() } : {}),
+            layout: client.getLayout().levels.map(level => level.name),
+          };
+        });
         return {
           content: [{ type: 'text', text: JSON.stringify({ servers: serverList }, null, 2) }],
         };
       }
 
+      case 'cache_inspect': {
+        const { client } = getClient(args.server ? String(args.server) : undefined);
+        const path = args.path !== undefined ? String(args.path) : undefined;
+        const limit = args.limit !== undefined ? Number(args.limit) : 100;
+        if (!Number.isInteger(limit) || limit < 1) {
+          throw new Error('Invalid "limit" parameter: must be a positive integer.');
+        }
+        const listings = client.inspectCache(path);
+        const now = Date.now();
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                stats: client.getCacheStats(),
+                totalListings: listings.length,
+                listings: listings.slice(0, limit).map(info => ({
+                  path: info.path,
+                  entryCount: info.entryCount,
+                  ageSeconds: Math.round((now - info.cachedAt.getTime()) / 1000),
+                  expiresInSeconds: info.expiresInSeconds,
+                  hits: info.hits,
+                  lastAccessed: info.lastAccessed,
+                  sizeHuman: formatBytes(info.bytes),
+                })),
+                prewarmJobs: client.getPrewarmJobs().map(formatPrewarmJob),
+              }, null, 2),
+            },
+          ],
+        };
+      }
+
+      case 'cache_invalidate': {
+        const { client } = getClient(args.server ? String(args.server) : undefined);
+        const path = String(args.path);
+        const recursive = args.recursive === true;
+        const invalidated = client.invalidateCache(path, recursive);
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({ path, recursive, invalidated }, null, 2),
+            },
+          ],
+        };
+      }
+
+      case 'cache_prewarm': {
+        const { client } = getClient(args.server ? String(args.server) : undefined);
+        const path = String(args.path);
+        const maxDepth = args.maxDepth !== undefined ? Number(args.maxDepth) : 3;
+        const wait = args.wait === true;
+        // The walk is shared with later calls for the same path, so cancelling this request only stops the wait
+        const job = client.prewarmCache(path, maxDepth);
+        if (wait) {
+          await untilAborted(job.done, operation.signal);
+          if (job.error !== undefined) {
+            throw new Error(`Failed to prewarm cache for ${path}: ${job.error}`);
+          }
+        }
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({ status: job.finishedAt ? 'finished' : 'started', ...formatPrewarmJob(job) }, null, 2),
+            },
+          ],
+        };
+      }
+
       case 'list_directory': {
         const { client } = getClient(args.server ? String(args.server) : undefined);
         const path = String(args.path);
@@ -678,7 +1423,11 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
           throw new Error('Invalid "offset" parameter: must be a non-negative integer.');
         }
 
-        const allEntries = await client.listDirectory(path);
+        const fileNames = fileNameOptions(args);
+
+        const listed: Array<DirectoryEntry & { fields?: EpicFileFields }> = (await client.listDirectory(path))
+          .map(entry => fileNames.parse && !entry.isDirectory ? { ...entry, fields: parseEpicFileName(entry.name) } : entry);
+        const allEntries = fileNames.filter ? listed.filter(entry => matchesFileFields(entry.fields, fileNames.filter!)) : listed;
         const page = allEntries.slice(offset, offset + limit);
         const hasMore = offset + page.length < allEntries.length;
 
@@ -689,6 +1438,7 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
           returnedEntries: page.length,
           hasMore,
           entries: page,
+          ...fileFieldGroups(allEntries.filter(entry => !entry.isDirectory), fileNames.groupBy),
         };
         if (hasMore) {
           responseBody.nextOffset = offset + page.length;
@@ -720,19 +1470,87 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         };
       }
 
+      case 'get_checksum': {
+        const { client } = getClient(args.server ? String(args.server) : undefined);
+        const path = String(args.path);
+        const algorithm = args.algorithm !== undefined ? String(args.algorithm) : undefined;
+        if (algorithm !== undefined && !isChecksumAlgorithm(algorithm)) {
+          throw new Error(`Invalid "algorithm" parameter: must be one of ${CHECKSUM_ALGORITHMS.join(', ')}.`);
+        }
+        const checksum = await client.getChecksum(path, algorithm, operation.signal);
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({ path, ...checksum }, null, 2),
+            },
+          ],
+        };
+      }
+
       case 'read_file': {
         const { client } = getClient(args.server ? String(args.server) : undefined);
         const path = String(args.path);
         const start = args.start !== undefined ? Number(args.start) : undefined;
         const end = args.end !== undefined ? Number(args.end) : undefined;
-        
-        const content = await client.readFile(path, start, end);
-        
+        const requestedEncoding = args.encoding !== undefined ? String(args.encoding) : undefined;
+        const maxBytes = args.maxBytes !== undefined ? Number(args.maxBytes) : DEFAULT_READ_MAX_BYTES;
+
+        if (requestedEncoding !== undefined && !(CONTENT_ENCODINGS as string[]).includes(requestedEncoding)) {
+          throw new Error(`Invalid "encoding" parameter: must be one of ${CONTENT_ENCODINGS.join(', ')}.`);
+        }
+        if (!Number.isInteger(maxBytes) || maxBytes < 1) {
+          throw new Error('Invalid "maxBytes" parameter: must be a positive integer.');
+        }
+        if (start !== undefined && (!Number.isInteger(start) || start < 0)) {
+          throw new Error('Invalid "start" parameter: must be a non-negative integer.');
+        }
+        if (end !== undefined && (!Number.isInteger(end) || end < (start ?? 0))) {
+          throw new Error('Invalid "end" parameter: must be an integer not less than "start".');
+        }
+
+        const chunk = await client.readFileChunk(path, start, end, Math.min(maxBytes, MAX_READ_MAX_BYTES));
+
+        if (requestedEncoding === undefined && isLikelyBinary(chunk.data)) {
+          throw new Error(
+            `File ${path} appears to be binary; pass encoding "base64" or "hex-dump" (or "utf-8" to decode it anyway).`
+          );
+        }
+        const encoding = (requestedEncoding ?? 'utf-8') as ContentEncoding;
+
+        // Do not split a multi-byte character across pages
+        let data = chunk.data;
+        if (encoding === 'utf-8' && chunk.hasMore) {
+          const trimmed = trimToCharBoundary(data);
+          data = trimmed.length > 0 ? trimmed : data;
+        }
+        const readEnd = chunk.start + data.length;
+        const hasMore = chunk.hasMore || readEnd < chunk.end;
+
+        const metadata: Record<string, unknown> = {
+          path,
+          encoding,
+          start: chunk.start,
+          end: readEnd,
+          bytesRead: data.length,
+          fileSize: chunk.size,
+          hasMore,
+        };
+        if (hasMore) {
+          metadata.nextStart = readEnd;
+          metadata.note = `Returned bytes ${chunk.start}–${readEnd - 1} of ${chunk.size}. Use start=${readEnd} to read the next chunk.`;
+        }
+
         return {
           content: [
             {
               type: 'text',
-              text: content.toString('utf-8'),
+              text: encodeContent(data, encoding, chunk.start),
+            },
+            {
+              type: 'text',
+              text: JSON.stringify(metadata, null, 2),
             },
           ],
         };
@@ -756,7 +1574,7 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
       case 'get_directory_size': {
         const { client } = getClient(args.server ? String(args.server) : undefined);
         const path = String(args.path);
-        const size = await client.getDirectorySize(path);
+        const size = await client.getDirectorySize(path, operation);
         
         return {
           content: [
@@ -774,8 +1592,19 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         const basePath = args.basePath ? String(args.basePath) : '.';
         const recursive = args.recursive !== undefined ? Boolean(args.recursive) : true;
         const useRegex = args.useRegex !== undefined ? Boolean(args.useRegex) : false;
+        const index = args.useIndex !== false ? client.getIndexSnapshot(basePath) : undefined;
         
-        const results = await client.searchFiles(pattern, basePath, recursive, useRegex);
+        const fileNames = fileNameOptions(args);
+
+        const found = (await client.searchFiles(pattern, basePath, recursive, useRegex, { signal: extra.signal, index }))
+          .map(r => ({
+            path: r.path,
+            size: r.size,
+            sizeHuman: formatBytes(r.size),
+            modificationTime: r.modificationTime,
+            ...(fileNames.parse ? { fields: parseEpicFileName(r.path.slice(r.path.lastIndexOf('/') + 1)) } : {}),
+          }));
+        const results = fileNames.filter ? found.filter(r => matchesFileFields(r.fields, fileNames.filter!)) : found;
         
         return {
           content: [
@@ -783,13 +1612,10 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
               type: 'text',
               text: JSON.stringify({
                 pattern,
+                ...indexFields(index),
                 matchCount: results.length,
-                results: results.map(r => ({
-                  path: r.path,
-                  size: r.size,
-                  sizeHuman: formatBytes(r.size),
-                  modificationTime: r.modificationTime,
-                })),
+                ...fileFieldGroups(results, fileNames.groupBy),
+                results,
               }, null, 2),
             },
           ],
@@ -800,14 +1626,16 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         const { client } = getClient(args.server ? String(args.server) : undefined);
         const path = String(args.path);
         const recursive = args.recursive !== undefined ? Boolean(args.recursive) : true;
+        const index = args.useIndex !== false ? client.getIndexSnapshot(path) : undefined;
         
-        const stats = await client.getStatistics(path, recursive);
+        const stats = await client.getStatistics(path, recursive, { ...operation, index });
         
         return {
           content: [
             {
               type: 'text',
               text: JSON.stringify({
+                ...indexFields(index),
                 ...stats,
                 totalSizeHuman: formatBytes(stats.totalSize),
                 sizeByExtension: Object.fromEntries(
@@ -825,26 +1653,183 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
       case 'list_directory_filtered': {
         const { client } = getClient(args.server ? String(args.server) : undefined);
         const path = String(args.path);
-        const filter: any = {};
+        const filter: FileFilter = {};
+        const limit = args.limit !== undefined ? Number(args.limit) : 1000;
+        const offset = args.offset !== undefined ? Number(args.offset) : 0;
+
+        if (!Number.isFinite(limit) || !Number.isInteger(limit) || limit < 1) {
+          throw new Error('Invalid "limit" parameter: must be a positive integer.');
+        }
+        if (!Number.isFinite(offset) || !Number.isInteger(offset) || offset < 0) {
+          throw new Error('Invalid "offset" parameter: must be a non-negative integer.');
+        }
+        const sortBy = args.sortBy !== undefined ? String(args.sortBy) : undefined;
+        if (sortBy !== undefined && !['name', 'size', 'mtime'].includes(sortBy)) {
+          throw new Error('Invalid "sortBy" parameter: must be one of name, size, mtime.');
+        }
+        const sortOrder = args.sortOrder !== undefined ? String(args.sortOrder) : 'asc';
+        if (sortOrder !== 'asc' && sortOrder !== 'desc') {
+          throw new Error('Invalid "sortOrder" parameter: must be asc or desc.');
+        }
         
-        if (args.extension) filter.extension = String(args.extension);
+        if (args.extension) {
+          filter.extension = (Array.isArray(args.extension) ? args.extension.map(String) : String(args.extension).split(','))
+            .map(ext => ext.trim())
+            .filter(ext => ext);
+        }
         if (args.minSize !== undefined) filter.minSize = Number(args.minSize);
         if (args.maxSize !== undefined) filter.maxSize = Number(args.maxSize);
         if (args.modifiedAfter) filter.modifiedAfter = new Date(String(args.modifiedAfter));
         if (args.modifiedBefore) filter.modifiedBefore = new Date(String(args.modifiedBefore));
         if (args.namePattern) filter.namePattern = String(args.namePattern);
         
-        const entries = await client.listDirectoryFiltered(path, filter);
-        
+        const allEntries = await client.listDirectoryFiltered(path, filter, {
+          ...operation,
+          recursive: Boolean(args.recursive),
+          maxDepth: args.maxDepth !== undefined ? Number(args.maxDepth) : undefined,
+          sortBy: sortBy as FilteredSortKey | undefined,
+          sortOrder,
+        });
+        const page = allEntries.slice(offset, offset + limit);
+        const hasMore = offset + page.length < allEntries.length;
+
+        const responseBody: Record<string, unknown> = {
+          path,
+          filter,
+          matchCount: allEntries.length,
+          offset,
+          limit,
+          returnedEntries: page.length,
+          hasMore,
+          entries: page,
+        };
+        if (hasMore) {
+          responseBody.nextOffset = offset + page.length;
+          responseBody.note = `Showing entries ${offset}–${offset + page.length - 1} of ${allEntries.length}. Use offset=${offset + page.length} to retrieve the next page.`;
+        }
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(responseBody, null, 2),
+            },
+          ],
+        };
+      }
+
+      case 'query_files': {
+        const { client } = getClient(args.server ? String(args.server) : undefined);
+        const query = String(args.query);
+        const basePath = args.basePath ? String(args.basePath) : '.';
+        const maxDepth = args.maxDepth !== undefined ? Number(args.maxDepth) : undefined;
+        const limit = args.limit !== undefined ? Number(args.limit) : 100;
+        if (!Number.isInteger(limit) || limit < 1) {
+          throw new Error('Invalid "limit" parameter: must be a positive integer.');
+        }
+        if (maxDepth !== undefined && (!Number.isInteger(maxDepth) || maxDepth < 0)) {
+          throw new Error('Invalid "maxDepth" parameter: must be a non-negative integer.');
+        }
+
+        const result = await client.queryFiles(query, basePath, { ...operation, maxDepth, limit });
+
         return {
           content: [
             {
               type: 'text',
               text: JSON.stringify({
-                path,
-                filter,
-                matchCount: entries.length,
-                entries,
+                query,
+                basePath,
+                matchCount: result.matches.length,
+                totalMatches: result.totalMatches,
+                truncated: result.truncated,
+                results: result.matches.map(r => ({
+                  path: r.path,
+                  size: r.size,
+                  sizeHuman: formatBytes(r.size),
+                  modificationTime: r.modificationTime,
+                  isDirectory: r.isDirectory,
+                })),
+                ...(result.errors.length > 0 ? { errors: result.errors } : {}),
+              }, null, 2),
+            },
+          ],
+        };
+      }
+
+      case 'find_duplicates': {
+        const { client } = getClient(args.server ? String(args.server) : undefined);
+        const paths = Array.isArray(args.paths) ? args.paths.map(String) : [String(args.paths)];
+        const limit = args.limit !== undefined ? Number(args.limit) : 100;
+        if (!Number.isInteger(limit) || limit < 1) {
+          throw new Error('Invalid "limit" parameter: must be a positive integer.');
+        }
+        const method = args.method !== undefined ? String(args.method) : 'auto';
+        if (!['auto', 'checksum', 'sampled'].includes(method)) {
+          throw new Error('Invalid "method" parameter: must be one of auto, checksum, sampled.');
+        }
+
+        const report = await client.findDuplicates(paths, {
+          ...operation,
+          minSize: args.minSize !== undefined ? Number(args.minSize) : undefined,
+          method: method as DuplicateOptions['method'],
+        });
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                paths,
+                filesScanned: report.filesScanned,
+                candidates: report.candidates,
+                duplicateGroups: report.groups.length,
+                totalWastedBytes: report.totalWastedBytes,
+                totalWastedBytesHuman: formatBytes(report.totalWastedBytes),
+                groups: report.groups.slice(0, limit).map(group => ({
+                  ...group,
+                  sizeHuman: formatBytes(group.size),
+                  wastedBytesHuman: formatBytes(group.wastedBytes),
+                })),
+                ...(report.errors.length > 0 ? { errors: report.errors } : {}),
+              }, null, 2),
+            },
+          ],
+        };
+      }
+
+      case 'verify_checksums': {
+        const { client } = getClient(args.server ? String(args.server) : undefined);
+        const algorithm = args.algorithm !== undefined ? String(args.algorithm) : undefined;
+        if (algorithm !== undefined && !isChecksumAlgorithm(algorithm)) {
+          throw new Error(`Invalid "algorithm" parameter: must be one of ${CHECKSUM_ALGORITHMS.join(', ')}.`);
+        }
+        const limit = args.limit !== undefined ? Number(args.limit) : 100;
+        if (!Number.isInteger(limit) || limit < 1) {
+          throw new Error('Invalid "limit" parameter: must be a positive integer.');
+        }
+
+        const result = await client.verifyChecksums(String(args.manifest), {
+          ...operation,
+          datasetPath: args.datasetPath !== undefined ? String(args.datasetPath) : undefined,
+          algorithm,
+        });
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                manifest: result.manifest,
+                datasetPath: result.datasetPath,
+                ok: result.mismatches.length === 0 && result.missing.length === 0 && result.errors.length === 0,
+                listed: result.listed,
+                verified: result.verified,
+                mismatchCount: result.mismatches.length,
+                missingCount: result.missing.length,
+                mismatches: result.mismatches.slice(0, limit),
+                missing: result.missing.slice(0, limit),
+                ...(result.errors.length > 0 ? { errors: result.errors } : {}),
               }, null, 2),
             },
           ],
@@ -856,8 +1841,9 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         const path = String(args.path);
         const hours = args.hours !== undefined ? Number(args.hours) : 24;
         const recursive = args.recursive !== undefined ? Boolean(args.recursive) : true;
+        const index = args.useIndex !== false ? client.getIndexSnapshot(path) : undefined;
         
-        const results = await client.findRecentFiles(path, hours, recursive);
+        const results = await client.findRecentFiles(path, hours, recursive, { ...operation, index });
         
         return {
           content: [
@@ -866,6 +1852,7 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
               text: JSON.stringify({
                 path,
                 hours,
+                ...indexFields(index),
                 fileCount: results.length,
                 results: results.map(r => ({
                   path: r.path,
@@ -902,7 +1889,7 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         const campaign = String(args.campaign);
         const recoPath = args.recoPath ? String(args.recoPath) : 'RECO';
         
-        const datasets = await client.listDatasets(campaign, recoPath);
+        const datasets = await client.listDatasets(campaign, recoPath, operation);
         
         return {
           content: [
@@ -918,12 +1905,169 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         };
       }
 
+      case 'compare_campaigns': {
+        const { client, rootAnalyzer: ra } = getClient(args.server ? String(args.server) : undefined);
+        const base = String(args.base);
+        const target = String(args.target);
+        const allowCopy = args.allow_copy === true;
+        const countEvents = args.includeEvents === true
+          ? async (datasetPath: string, signal?: AbortSignal) =>
+            (await ra.getDatasetEventStatistics(datasetPath, allowCopy, { signal })).totalEvents
+          : undefined;
+
+        const comparison = await client.compareCampaigns(base, target, {
+          ...operation,
+          recoPath: args.recoPath ? String(args.recoPath) : undefined,
+          countEvents,
+        });
+        const count = (status: DatasetComparison['status']) => comparison.datasets.filter(d => d.status === status).length;
+        const total = (side: 'base' | 'target', key: 'fileCount' | 'totalSize' | 'events') =>
+          comparison.datasets.reduce((sum, d) => sum + (d[side]?.[key] ?? 0), 0);
+        const totalSizeDelta = total('target', 'totalSize') - total('base', 'totalSize');
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                base,
+                target,
+                summary: {
+                  added: count('added'),
+                  removed: count('removed'),
+                  changed: count('changed'),
+                  unchanged: count('unchanged'),
+                  fileCountDelta: total('target', 'fileCount') - total('base', 'fileCount'),
+                  totalSizeDelta,
+                  totalSizeDeltaHuman: formatByteDelta(totalSizeDelta),
+                  ...(countEvents ? { eventsDelta: total('target', 'events') - total('base', 'events') } : {}),
+                },
+                datasets: comparison.datasets
+                  .filter(d => args.includeUnchanged === true || d.status !== 'unchanged')
+                  .map(d => ({ ...d, totalSizeDeltaHuman: formatByteDelta(d.totalSizeDelta) })),
+                ...(comparison.errors.length > 0 ? { errors: comparison.errors } : {}),
+              }, null, 2),
+            },
+          ],
+        };
+      }
+
+      case 'check_dataset_completeness': {
+        const { client } = getClient(args.server ? String(args.server) : undefined);
+        const limit = args.limit !== undefined ? Number(args.limit) : 100;
+        if (!Number.isInteger(limit) || limit < 1) {
+          throw new Error('Invalid "limit" parameter: must be a positive integer.');
+        }
+
+        const report = await client.checkDatasetCompleteness(String(args.path), {
+          ...operation,
+          firstIndex: args.firstIndex !== undefined ? Number(args.firstIndex) : undefined,
+          expectedFiles: args.expectedFiles !== undefined ? Number(args.expectedFiles) : undefined,
+          smallFileRatio: args.smallFileRatio !== undefined ? Number(args.smallFileRatio) : undefined,
+        });
+        const missingCount = report.sequences.reduce((sum, sequence) => sum + sequence.missing.length, 0);
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                path: report.path,
+                complete: missingCount === 0 && report.emptyFiles.length === 0
+                  && report.smallFiles.length === 0 && report.duplicateIndices.length === 0,
+                fileCount: report.fileCount,
+                totalSize: report.totalSize,
+                totalSizeHuman: formatBytes(report.totalSize),
+                missingCount,
+                emptyCount: report.emptyFiles.length,
+                smallCount: report.smallFiles.length,
+                duplicateIndexCount: report.duplicateIndices.length,
+                sequences: report.sequences.map(sequence => ({
+                  ...sequence,
+                  missingCount: sequence.missing.length,
+                  missing: sequence.missing.slice(0, limit),
+                })),
+                emptyFiles: report.emptyFiles.slice(0, limit),
+                smallFiles: report.smallFiles.slice(0, limit).map(file => ({
+                  ...file,
+                  sizeHuman: formatBytes(file.size),
+                  medianSizeHuman: formatBytes(file.medianSize),
+                })),
+                duplicateIndices: report.duplicateIndices.slice(0, limit),
+                unindexedFiles: report.unindexedFiles.slice(0, limit),
+              }, null, 2),
+            },
+          ],
+        };
+      }
+
+      case 'storage_report': {
+        const { client, snapshots } = getClient(args.server ? String(args.server) : undefined);
+        const recoPath = args.recoPath ? String(args.recoPath) : 'RECO';
+        const depth = args.depth !== undefined ? String(args.depth) : 'dataset';
+        if (!(STORAGE_LEVELS as readonly string[]).includes(depth)) {
+          throw new Error(`Invalid "depth" parameter: must be one of ${STORAGE_LEVELS.join(', ')}.`);
+        }
+        const since = args.since !== undefined ? new Date(String(args.since)) : undefined;
+        if (since && isNaN(since.getTime())) {
+          throw new Error('Invalid "since" parameter: must be an ISO 8601 date.');
+        }
+        if (!snapshots && (since || args.saveSnapshot === true)) {
+          throw new Error('Storage report snapshots are disabled: set snapshotDir (or XROOTD_SNAPSHOT_DIR) for this server.');
+        }
+        const campaigns = args.campaigns !== undefined
+          ? (Array.isArray(args.campaigns) ? args.campaigns.map(String) : [String(args.campaigns)])
+          : (await client.listCampaigns(recoPath)).map(c => c.name);
+
+        const takenAt = new Date();
+        const report = await client.getStorageReport(campaigns, { ...operation, recoPath });
+        const previous = snapshots?.latest(recoPath, since);
+        if (since && !previous) {
+          throw new Error(`No storage report snapshot of ${recoPath} was taken before ${since.toISOString()}.`);
+        }
+        if (previous) {
+          applySnapshot(report, previous);
+        }
+        if (args.saveSnapshot === true) {
+          snapshots!.save(snapshotOf(report, takenAt));
+        }
+        const maxLevel = STORAGE_LEVELS.indexOf(depth as StorageLevel);
+        // Campaigns new since the snapshot are not counted as growth
+        const growth = previous
+          ? report.campaigns.reduce((sum, campaign) => sum + (campaign.growth ?? 0), 0)
+          : undefined;
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                recoPath,
+                takenAt,
+                ...(previous ? { comparedWith: previous.takenAt } : {}),
+                ...(args.saveSnapshot === true ? { snapshotSaved: true } : {}),
+                fileCount: report.fileCount,
+                totalSize: report.totalSize,
+                totalSizeHuman: formatBytes(report.totalSize),
+                ...(growth !== undefined ? { growth, growthHuman: formatByteDelta(growth) } : {}),
+                campaigns: report.campaigns.map(campaign => storageNodeJson(campaign, maxLevel)),
+                ...(report.errors.length > 0 ? { errors: report.errors } : {}),
+              }, null, 2),
+            },
+            {
+              type: 'text',
+              text: storageReportMarkdown(report, maxLevel, takenAt, previous?.takenAt),
+            },
+          ],
+        };
+      }
+
       case 'summarize_recent_changes': {
         const { client } = getClient(args.server ? String(args.server) : undefined);
         const path = String(args.path);
         const hours = args.hours !== undefined ? Number(args.hours) : 24;
         
-        const summary = await client.summarizeRecentChanges(path, hours);
+        const summary = await client.summarizeRecentChanges(path, hours, operation);
         
         return {
           content: [
@@ -951,6 +2095,7 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
                   size: formatBytes(f.size),
                   modificationTime: f.modificationTime,
                 })),
+                errors: summary.errors,
               }, null, 2),
             },
           ],
@@ -1037,7 +2182,7 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         const { rootAnalyzer: ra } = getClient(args.server ? String(args.server) : undefined);
         const path = String(args.path);
         const allowCopy = args.allow_copy === true;
-        const stats = await ra.getDatasetEventStatistics(path, allowCopy);
+        const stats = await ra.getDatasetEventStatistics(path, allowCopy, operation);
         
         return {
           content: [
@@ -1135,6 +2280,57 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
   }
 });
 
+// Minimum delay between progress notifications, so that walks over thousands
+// of directories do not flood the client
+const PROGRESS_INTERVAL_MS = 250;
+
+function createOperationOptions(
+  progressToken: string | number | undefined,
+  signal: AbortSignal,
+  sendNotification: (notification: ServerNotification) => Promise<void>
+): OperationOptions {
+  if (progressToken === undefined) {
+    return { signal };
+  }
+  let lastSent = 0;
+  return {
+    signal,
+    onProgress: (progress, total, message) => {
+      const now = Date.now();
+      const done = total !== undefined && progress >= total;
+      if (!done && now - lastSent < PROGRESS_INTERVAL_MS) {
+        return;
+      }
+      lastSent = now;
+      sendNotification({
+        method: 'notifications/progress',
+        params: { progressToken, progress, total, message },
+      }).catch((error) => console.error('Failed to send progress notification:', error));
+    },
+  };
+}
+
+// How old the index snapshot a response was answered from is, in seconds
+function indexFields(index: IndexSnapshot | undefined): Record<string, unknown> {
+  if (!index) {
+    return {};
+  }
+  return { indexAge: Math.round((Date.now() - index.builtAt.getTime()) / 1000), indexedAt: index.builtAt };
+}
+
+function formatPrewarmJob(job: PrewarmJob): Record<string, unknown> {
+  return {
+    path: job.path,
+    maxDepth: job.maxDepth,
+    startedAt: job.startedAt,
+    finishedAt: job.finishedAt,
+    directories: job.directories,
+    files: job.files,
+    errors: job.errors,
+    error: job.error,
+  };
+}
+
 function formatBytes(bytes: number): string {
   if (bytes === 0) return '0 Bytes';
   
@@ -1145,7 +2341,89 @@ function formatBytes(bytes: number): string {
   return `${parseFloat((bytes / Math.pow(k, i)).toFixed(2))} ${sizes[i]}`;
 }
 
+// parse_file_names, fieldFilter and groupBy of search_files and list_directory
+function fileNameOptions(args: Record<string, unknown>): { parse: boolean; filter?: Record<string, unknown>; groupBy?: EpicFileField } {
+  const filter = args.fieldFilter;
+  if (filter !== undefined && (typeof filter !== 'object' || filter === null || Array.isArray(filter))) {
+    throw new Error('Invalid "fieldFilter" parameter: must be an object of field values.');
+  }
+  const unknown = Object.keys(filter ?? {}).filter(key => !isEpicFileField(key));
+  if (unknown.length > 0) {
+    throw new Error(`Invalid "fieldFilter" parameter: unknown field ${unknown.join(', ')}; expected ${EPIC_FILE_FIELDS.join(', ')}.`);
+  }
+  const groupBy = args.groupBy !== undefined ? String(args.groupBy) : undefined;
+  if (groupBy !== undefined && !isEpicFileField(groupBy)) {
+    throw new Error(`Invalid "groupBy" parameter: must be one of ${EPIC_FILE_FIELDS.join(', ')}.`);
+  }
+  return {
+    parse: args.parse_file_names === true || filter !== undefined || groupBy !== undefined,
+    filter: filter as Record<string, unknown> | undefined,
+    groupBy,
+  };
+}
+
+function fileFieldGroups(files: Array<{ size?: number; fields?: EpicFileFields }>, groupBy?: EpicFileField): Record<string, unknown> {
+  if (!groupBy) {
+    return {};
+  }
+  const groups = groupByFileField(files.map(f => ({ size: f.size ?? 0, fields: f.fields })), groupBy);
+  return {
+    groupBy,
+    groups: groups.map(group => ({ ...group, totalSizeHuman: formatBytes(group.totalSize) })),
+  };
+}
+
+// Signed, e.g. "+1.5 GB" or "-200 MB"
+function formatByteDelta(bytes: number): string {
+  return `${bytes < 0 ? '-' : '+'}${formatBytes(Math.abs(bytes))}`;
+}
+
+// A storage report node for JSON output, without the levels below maxLevel
+function storageNodeJson(node: StorageNode, maxLevel: number): Record<string, unknown> {
+  const { children, growth, ...fields } = node;
+  const shown = children.filter(child => STORAGE_LEVELS.indexOf(child.level) <= maxLevel);
+  return {
+    ...fields,
+    share: Number(node.share.toFixed(4)),
+    totalSizeHuman: formatBytes(node.totalSize),
+    ...(growth !== undefined ? { growth, growthHuman: formatByteDelta(growth) } : {}),
+    ...(shown.length > 0 ? { children: shown.map(child => storageNodeJson(child, maxLevel)) } : {}),
+  };
+}
+
+// One table row per node down to maxLevel, parents before their children
+function storageReportMarkdown(report: StorageReport, maxLevel: number, takenAt: Date, comparedWith?: Date): string {
+  const compared = comparedWith !== undefined;
+  const lines = [
+    `## Storage usage of ${report.recoPath} (${takenAt.toISOString()})`,
+    '',
+    compared ? `Growth since the snapshot of ${comparedWith.toISOString()}.` : 'No earlier snapshot to compare with.',
+    '',
+    `| Path | Level | Files | Size | Share of parent |${compared ? ' Growth |' : ''}`,
+    `| --- | --- | ---: | ---: | ---: |${compared ? ' ---: |' : ''}`,
+  ];
+  const addRows = (node: StorageNode, prefix: string): void => {
+    if (STORAGE_LEVELS.indexOf(node.level) > maxLevel) {
+      return;
+    }
+    const path = prefix ? `${prefix}/${node.name}` : node.name;
+    const growth = compared ? ` ${node.isNew ? 'new' : formatByteDelta(node.growth ?? 0)} |` : '';
+    lines.push(`| ${path.replace(/\|/g, '\\|')} | ${node.level} | ${node.fileCount} | ${formatBytes(node.totalSize)} | ${(node.share * 100).toFixed(1)}% |${growth}`);
+    node.children.forEach(child => addRows(child, path));
+  };
+  report.campaigns.forEach(campaign => addRows(campaign, ''));
+  lines.push(`| **Total** | | ${report.fileCount} | ${formatBytes(report.totalSize)} | |${compared ? ' |' : ''}`);
+  if (report.errors.length > 0) {
+    lines.push('', `${report.errors.length} directories could not be listed; their usage is missing.`);
+  }
+  return lines.join('\n');
+}
+
 async function main() {
+  // Log server info for debugging
+  console.error(`Server: xrootd-mcp-server v0.1.0`);
+  console.error(`Capabilities: tools (${tools.length} available), resources (subscribable), prompts (${listPrompts().length} available)`);
+
   const transport = new StdioServerTransport();
   await server.connect(transport);
   
@@ -1153,7 +2431,7 @@ async function main() {
   console.error(`Configured servers: ${Array.from(servers.keys()).join(', ')}`);
   for (const [srvName, { client }] of servers.entries()) {
     const stats = client.getCacheStats();
-    console.error(`  [${srvName}] cache entries: ${stats.size}`);
+    console.error(`  [${srvName}] cache entries: ${stats.size} (${formatBytes(stats.bytes)} of ${formatBytes(stats.maxBytes)})`);
   }
 }
 
@@ -0,0 +1,168 @@
+import { DirectoryEntry, WalkError } from './xrootd.js';
+
+/** Default minutes between two crawls of an indexed root. */
+export const DEFAULT_INDEX_INTERVAL_MINUTES = 60;
+
+/**
+ * Walks `root`, calling `visit` with the parent directory of every entry.
+ * Directories listed in `errors` could not be listed.
+ */
+export type IndexCrawler = (
+  root: string,
+  visit: (parent: string, entry: DirectoryEntry) => void
+) => Promise<{ errors: WalkError[] }>;
+
+/**
+ * The listings of every directory below one root, as of the crawl that built
+ * them.  Directories that could not be listed during the crawl are absent, so
+ * lookups fall back to the server for them.
+ */
+export class IndexSnapshot {
+  constructor(
+    readonly root: string,
+    readonly builtAt: Date,
+    private listings: Map<string, DirectoryEntry[]>
+  ) {}
+
+  /** The indexed listing of `path` (absolute), or undefined if it is not indexed. */
+  list(path: string): DirectoryEntry[] | undefined {
+    return this.listings.get(path);
+  }
+
+  get directories(): number {
+    return this.listings.size;
+  }
+
+  get files(): number {
+    let files = 0;
+    for (const entries of this.listings.values()) {
+      files += entries.filter(e => !e.isDirectory).length;
+    }
+    return files;
+  }
+}
+
+export interface IndexRootStatus {
+  root: string;
+  building: boolean;
+  builtAt?: Date;
+  directories?: number;
+  files?: number;
+  /** Duration of the last successful crawl */
+  durationMs?: number;
+  /** Directories the last crawl could not list */
+  unlistedDirectories?: number;
+  /** Why the last crawl of the root failed; the previous snapshot is kept */
+  lastError?: string;
+}
+
+interface IndexedRoot {
+  snapshot?: IndexSnapshot;
+  crawl?: Promise<void>;
+  durationMs?: number;
+  unlistedDirectories?: number;
+  lastError?: string;
+}
+
+/**
+ * Periodically crawls a server's configured roots into in-memory snapshots
+ * so that recursive tools can answer without walking the server.  A snapshot
+ * is replaced only once the next crawl of its root has completed.
+ */
+export class NamespaceIndexer {
+  private roots = new Map<string, IndexedRoot>();
+  private timer?: NodeJS.Timeout;
+
+  constructor(roots: string[], private crawler: IndexCrawler, private intervalMinutes: number = DEFAULT_INDEX_INTERVAL_MINUTES) {
+    for (const root of roots) {
+      this.roots.set(root, {});
+    }
+  }
+
+  /** Crawl every root now and then every `intervalMinutes`. */
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+    this.refresh().catch(() => undefined);
+    this.timer = setInterval(() => {
+      this.refresh().catch(() => undefined);
+    }, this.intervalMinutes * 60 * 1000);
+    this.timer.unref();
+  }
+
+  stop(): void {
+    clearInterval(this.timer);
+    this.timer = undefined;
+  }
+
+  /** Crawl one root, or all of them; joins crawls already in progress. */
+  async refresh(root?: string): Promise<void> {
+    const roots = root === undefined ? Array.from(this.roots.keys()) : [root];
+    await Promise.all(roots.map(r => this.crawl(r)));
+  }
+
+  private crawl(root: string): Promise<void> {
+    const indexed = this.roots.get(root);
+    if (!indexed) {
+      return Promise.reject(new Error(`${root} is not an indexed root`));
+    }
+    indexed.crawl ??= (async () => {
+      const startedAt = Date.now();
+      const listings = new Map<string, DirectoryEntry[]>([[root, []]]);
+      try {
+        const { errors } = await this.crawler(root, (parent, entry) => {
+          let siblings = listings.get(parent);
+          if (!siblings) {
+            siblings = [];
+            listings.set(parent, siblings);
+          }
+          siblings.push(entry);
+          if (entry.isDirectory) {
+            const path = `${parent}/${entry.name}`.replace(/\/+/g, '/');
+            if (!listings.has(path)) {
+              listings.set(path, []);
+            }
+          }
+        });
+        for (const { path } of errors) {
+          listings.delete(path);
+        }
+        indexed.snapshot = new IndexSnapshot(root, new Date(), listings);
+        indexed.durationMs = Date.now() - startedAt;
+        indexed.unlistedDirectories = errors.length;
+        indexed.lastError = undefined;
+      } catch (error: any) {
+        indexed.lastError = error.message;
+        console.error(`Failed to index ${root}: ${error.message}`);
+        throw error;
+      } finally {
+        indexed.crawl = undefined;
+      }
+    })();
+    return indexed.crawl;
+  }
+
+  /** The snapshot that holds the listing of `path` (absolute), if any. */
+  snapshotFor(path: string): IndexSnapshot | undefined {
+    for (const { snapshot } of this.roots.values()) {
+      if (snapshot?.list(path)) {
+        return snapshot;
+      }
+    }
+    return undefined;
+  }
+
+  getStatus(): IndexRootStatus[] {
+    return Array.from(this.roots.entries(), ([root, indexed]) => ({
+      root,
+      building: indexed.crawl !== undefined,
+      builtAt: indexed.snapshot?.builtAt,
+      directories: indexed.snapshot?.directories,
+      files: indexed.snapshot?.files,
+      durationMs: indexed.durationMs,
+      unlistedDirectories: indexed.unlistedDirectories,
+      lastError: indexed.lastError,
+    }));
+  }
+}
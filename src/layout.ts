@@ -0,0 +1,124 @@
+/**
+ * Declarative description of how a campaign directory is organised, e.g.
+ * RECO/<campaign>/<detector>/<process_type>/<process>/<beam energy>/<Q² bin>,
+ * used to discover datasets and parse fields out of their paths.
+ */
+
+/** One directory level below a campaign. */
+export interface LayoutLevel {
+  /** Field the directory name is reported under, e.g. "detector" */
+  name: string;
+  /**
+   * Regular expression a directory name must match to belong to this level;
+   * named groups become additional fields.  Unset matches any name.
+   */
+  pattern?: string;
+  /** Datasets may end above this level; only trailing levels can be optional */
+  optional?: boolean;
+}
+
+/** Fields parsed from a dataset path, by level and pattern group name. */
+export type DatasetFields = Record<string, string>;
+
+// Decimal numbers as used in directory names: 18, 0.001, 1e-3
+const NUMBER = '\\d+(?:\\.\\d+)?(?:[eE][+-]?\\d+)?';
+
+/**
+ * The EPIC production layout: detector/process_type/process, optionally
+ * followed by the beam energies (18x275, ep_18x275) and a Q² bin
+ * (q2_0.001_1.0, minQ2=10).
+ */
+export const EPIC_LAYOUT: LayoutLevel[] = [
+  { name: 'detector' },
+  { name: 'processType' },
+  { name: 'process' },
+  {
+    name: 'beamEnergy',
+    pattern: `^(?:[A-Za-z]+_)?(?<electronEnergy>${NUMBER})x(?<hadronEnergy>${NUMBER})$`,
+    optional: true,
+  },
+  {
+    name: 'q2Range',
+    pattern: `^(?:q2_(?<q2Min>${NUMBER})(?:_(?<q2Max>${NUMBER}))?|minQ2=(?<minQ2>${NUMBER}))$`,
+    optional: true,
+  },
+];
+
+export class PathLayout {
+  private patterns: Array<RegExp | undefined>;
+
+  constructor(readonly levels: LayoutLevel[]) {
+    if (levels.length === 0) {
+      throw new Error('Invalid layout: at least one level is required');
+    }
+    const names = new Set<string>();
+    this.patterns = levels.map((level, i) => {
+      if (!level || typeof level.name !== 'string' || !level.name.trim()) {
+        throw new Error(`Invalid layout: level ${i + 1} has no name`);
+      }
+      if (names.has(level.name)) {
+        throw new Error(`Invalid layout: duplicate level name "${level.name}"`);
+      }
+      names.add(level.name);
+      if (i > 0 && levels[i - 1].optional && !level.optional) {
+        throw new Error(`Invalid layout: required level "${level.name}" follows an optional level`);
+      }
+      if (level.pattern === undefined) {
+        return undefined;
+      }
+      try {
+        return new RegExp(level.pattern);
+      } catch (error: any) {
+        throw new Error(`Invalid layout: level "${level.name}": ${error.message}`);
+      }
+    });
+    if (levels[0].optional) {
+      throw new Error('Invalid layout: the first level cannot be optional');
+    }
+  }
+
+  /**
+   * Build a layout from configuration: an array of levels, or of level names
+   * when no patterns are needed.
+   */
+  static fromConfig(raw: unknown): PathLayout {
+    if (!Array.isArray(raw)) {
+      throw new Error('Invalid layout: expected an array of levels');
+    }
+    return new PathLayout(raw.map(level => typeof level === 'string' ? { name: level } : level));
+  }
+
+  /** Number of levels a dataset path may have */
+  get depth(): number {
+    return this.levels.length;
+  }
+
+  /** Number of levels every dataset path has */
+  get minDepth(): number {
+    const optional = this.levels.findIndex(level => level.optional);
+    return optional === -1 ? this.levels.length : optional;
+  }
+
+  /** Whether a directory called `name` at `depth` (1 = a campaign's children) fits the layout. */
+  matches(depth: number, name: string): boolean {
+    if (depth < 1 || depth > this.levels.length) {
+      return false;
+    }
+    return this.patterns[depth - 1]?.test(name) ?? true;
+  }
+
+  /** Fields of a dataset from its path segments below the campaign. */
+  parse(segments: string[]): DatasetFields {
+    const fields: DatasetFields = {};
+    segments.slice(0, this.levels.length).forEach((segment, i) => {
+      fields[this.levels[i].name] = segment;
+      const groups = this.patterns[i]?.exec(segment)?.groups;
+      for (const [group, value] of Object.entries(groups ?? {})) {
+        if (value !== undefined) {
+          fields[group] = value;
+        }
+      }
+    });
+    return fields;
+  }
+}
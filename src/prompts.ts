@@ -0,0 +1,158 @@
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import type { GetPromptResult, Prompt, PromptArgument } from '@modelcontextprotocol/sdk/types.js';
+
+/**
+ * Prompt templates for recurring EIC data-discovery workflows.  Each template
+ * spells out which tools to call and in what order, so users do not have to
+ * retype the same instructions.
+ */
+
+interface PromptTemplate {
+  name: string;
+  title: string;
+  description: string;
+  arguments: PromptArgument[];
+  render(args: Record<string, string>): string;
+}
+
+const SERVER_ARGUMENT: PromptArgument = {
+  name: 'server',
+  description: 'Name of the XRootD server to use (default: first configured server)',
+  required: false,
+};
+
+// Appended to every tool call in a rendered prompt when a server was chosen
+function serverHint(args: Record<string, string>): string {
+  return args.server ? ` on server "${args.server}"` : '';
+}
+
+const PROMPTS: PromptTemplate[] = [
+  {
+    name: 'summarize_campaign',
+    title: 'Summarize a campaign',
+    description: 'Overview of one production campaign: its datasets, their sizes and file counts',
+    arguments: [
+      { name: 'campaign', description: 'Campaign name (e.g., "25.10.2")', required: true },
+      SERVER_ARGUMENT,
+    ],
+    render: (args) => {
+      const on = serverHint(args);
+      return [
+        `Summarize the EIC production campaign ${args.campaign}.`,
+        '',
+        `1. Call list_campaigns${on} and confirm that ${args.campaign} exists; if it does not, list the closest campaign names and stop.`,
+        `2. Call list_datasets${on} with campaign: "${args.campaign}" to enumerate its datasets.`,
+        `3. For each dataset, call get_statistics${on} for the dataset path (recursive) to obtain the file count and total size.`,
+        '',
+        'Report a table with one row per dataset (detector configuration, process, file count, total size) and totals for the campaign. ' +
+          'Point out datasets that are empty or much smaller than their siblings.',
+      ].join('\n');
+    },
+  },
+  {
+    name: 'compare_campaigns',
+    title: 'Compare two campaigns',
+    description: 'Which datasets were added, dropped or changed in size between two campaigns',
+    arguments: [
+      { name: 'baseline', description: 'Older campaign name (e.g., "25.09.0")', required: true },
+      { name: 'candidate', description: 'Newer campaign name (e.g., "25.10.2")', required: true },
+      SERVER_ARGUMENT,
+    ],
+    render: (args) => {
+      const on = serverHint(args);
+      return [
+        `Compare the EIC production campaigns ${args.baseline} (baseline) and ${args.candidate} (candidate).`,
+        '',
+        `1. Call list_campaigns${on} and confirm that both campaigns exist.`,
+        `2. Call list_datasets${on} for campaign "${args.baseline}" and for campaign "${args.candidate}".`,
+        `3. For every dataset present in both, call get_statistics${on} for the dataset path in each campaign.`,
+        '',
+        'Report: datasets only in the baseline, datasets only in the candidate, and for shared datasets the change in file count and total size. ' +
+          'Flag shared datasets whose file count dropped, since that usually means an incomplete production.',
+      ].join('\n');
+    },
+  },
+  {
+    name: 'validate_dataset',
+    title: "Validate a dataset's ROOT files",
+    description: 'Check that the ROOT files of a dataset are readable and have consistent event counts',
+    arguments: [
+      { name: 'path', description: 'Path to the dataset directory', required: true },
+      {
+        name: 'allow_copy',
+        description: 'Set to "true" to allow full xrdcp copies when HTTP access fails (default: false)',
+        required: false,
+      },
+      SERVER_ARGUMENT,
+    ],
+    render: (args) => {
+      const on = serverHint(args);
+      const copy = args.allow_copy === 'true' ? ' and allow_copy: true' : '';
+      return [
+        `Validate the ROOT files of the EIC dataset at ${args.path}.`,
+        '',
+        `1. Call list_directory_filtered${on} with path: "${args.path}" and extension: ".root" to list the files; note any zero-byte files.`,
+        `2. Call get_dataset_event_statistics${on} with path: "${args.path}"${copy} to aggregate event counts across the files.`,
+        `3. For up to three files that look unusual (smallest, largest, or failing in step 2), call get_event_statistics${on} for each of them${copy ? ', again with allow_copy: true' : ''}.`,
+        '',
+        'Report the number of files, total events, the per-file event count range, and list every file that is empty, unreadable or has an event count far from the median. ' +
+          'If a tool asks for allow_copy, say so instead of retrying.',
+      ].join('\n');
+    },
+  },
+  {
+    name: 'recent_changes',
+    title: 'What changed recently',
+    description: 'Summary of files added under a path in the last N hours',
+    arguments: [
+      { name: 'hours', description: 'Number of hours to look back (default: 24)', required: false },
+      { name: 'path', description: 'Path to analyze (default: "RECO")', required: false },
+      SERVER_ARGUMENT,
+    ],
+    render: (args) => {
+      const on = serverHint(args);
+      const hours = args.hours || '24';
+      const path = args.path || 'RECO';
+      return [
+        `What changed under ${path} in the last ${hours} hours?`,
+        '',
+        `1. Call summarize_recent_changes${on} with path: "${path}" and hours: ${hours}.`,
+        `2. If files were added, call find_recent_files${on} with the same path and hours to see which datasets they belong to.`,
+        '',
+        'Report the number and total size of new files grouped by campaign and dataset, and mention any dataset that received only log files or no ROOT files.',
+      ].join('\n');
+    },
+  },
+];
+
+export function listPrompts(): Prompt[] {
+  return PROMPTS.map(({ name, title, description, arguments: args }) => ({ name, title, description, arguments: args }));
+}
+
+export function getPrompt(name: string, args: Record<string, string> = {}): GetPromptResult {
+  const prompt = PROMPTS.find(p => p.name === name);
+  if (!prompt) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `Unknown prompt: "${name}". Available prompts: ${PROMPTS.map(p => p.name).join(', ')}`
+    );
+  }
+  for (const argument of prompt.arguments) {
+    if (argument.required && !args[argument.name]?.trim()) {
+      throw new McpError(ErrorCode.InvalidParams, `Missing required argument "${argument.name}" for prompt ${name}`);
+    }
+  }
+  if (args.hours !== undefined && args.hours !== '' && !/^\d+$/.test(args.hours.trim())) {
+    throw new McpError(ErrorCode.InvalidParams, 'Invalid "hours" argument: must be a positive integer.');
+  }
+
+  return {
+    description: prompt.description,
+    messages: [
+      {
+        role: 'user',
+        content: { type: 'text', text: prompt.render(args) },
+      },
+    ],
+  };
+}
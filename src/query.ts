@@ -0,0 +1,374 @@
+/**
+ * The expression language of query_files:
+ *
+ *   name ~ "*.root" and size > 1GB and mtime > -7d and path ~ "DIS/NC"
+ *   (name ~ "*.log" or size = 0) and not path ~ "old" sort by size desc, name limit 20
+ *
+ * Fields are `name`, `path` (relative to the queried directory), `size`,
+ * `mtime`, `depth` and `type` (`file` or `dir`).  `~` and `!~` match globs:
+ * against the whole name, or against any run of whole path segments, so
+ * `path ~ "DIS/NC"` finds everything below a DIS/NC directory.  Sizes take
+ * 1024-based units (`500KB`, `1.5GB`, `2TiB`); times are ISO dates
+ * (`2024-07-01`, `2024-07-01T12:00:00Z`) or ages in s/m/h/d/w (`-7d` and `7d`
+ * both mean seven days ago, so `mtime > -7d` selects files modified since).
+ * Only files are matched unless the query refers to `type`.
+ */
+import { globSource } from './glob.js';
+
+export type QueryField = 'name' | 'path' | 'size' | 'mtime' | 'depth' | 'type';
+export type QueryOperator = '=' | '!=' | '<' | '<=' | '>' | '>=' | '~' | '!~';
+
+/** A file or directory as seen by a query. */
+export interface QueryEntry {
+  name: string;
+  /** Path relative to the queried directory */
+  path: string;
+  size: number;
+  modificationTime: Date;
+  isDirectory: boolean;
+  depth: number;
+}
+
+export interface QuerySortKey {
+  field: QueryField;
+  descending: boolean;
+}
+
+export interface FileQuery {
+  matches(entry: QueryEntry): boolean;
+  /** Orders entries by the `sort by` keys, then by path. */
+  compare(a: QueryEntry, b: QueryEntry): number;
+  sort: QuerySortKey[];
+  limit?: number;
+  /** True if the query mentions `type`, so directories are candidates too. */
+  includesDirectories: boolean;
+}
+
+type Predicate = (entry: QueryEntry) => boolean;
+
+interface Token {
+  kind: 'word' | 'string' | 'number' | 'date' | 'operator' | 'punctuation';
+  text: string;
+  position: number;
+}
+
+const FIELDS: QueryField[] = ['name', 'path', 'size', 'mtime', 'depth', 'type'];
+const OPERATORS = ['!~', '!=', '<=', '>=', '==', '~', '=', '<', '>'];
+const SIZE_UNITS = ['b', 'k', 'm', 'g', 't', 'p'];
+const AGE_UNITS: Record<string, number> = { s: 1, m: 60, h: 3600, d: 86400, w: 7 * 86400 };
+const DATE_PATTERN = /\d{4}-\d{2}-\d{2}(?:T\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?(?:Z|[+-]\d{2}:?\d{2})?)?(?![\w:-])/y;
+const NUMBER_PATTERN = /-?\d+(?:\.\d+)?[A-Za-z]*/y;
+const WORD_PATTERN = /[A-Za-z_][\w.]*/y;
+
+function fail(message: string, position: number): never {
+  throw new Error(`Invalid query: ${message} at position ${position + 1}`);
+}
+
+function tokenize(text: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+  const matchAt = (pattern: RegExp): string | undefined => {
+    pattern.lastIndex = i;
+    return pattern.exec(text)?.[0];
+  };
+
+  while (i < text.length) {
+    const c = text[i];
+    if (/\s/.test(c)) {
+      i++;
+      continue;
+    }
+    if (c === '(' || c === ')' || c === ',') {
+      tokens.push({ kind: 'punctuation', text: c, position: i++ });
+      continue;
+    }
+    if (c === '"' || c === "'") {
+      let value = '';
+      let j = i + 1;
+      for (; j < text.length && text[j] !== c; j++) {
+        // Backslash only escapes the quote and itself; glob text stays as written
+        if (text[j] === '\\' && (text[j + 1] === c || text[j + 1] === '\\')) {
+          j++;
+        }
+        value += text[j];
+      }
+      if (j >= text.length) {
+        fail('unterminated string', i);
+      }
+      tokens.push({ kind: 'string', text: value, position: i });
+      i = j + 1;
+      continue;
+    }
+    const operator = OPERATORS.find(op => text.startsWith(op, i));
+    const date = matchAt(DATE_PATTERN);
+    const number = date ? undefined : matchAt(NUMBER_PATTERN);
+    const word = matchAt(WORD_PATTERN);
+    if (date) {
+      tokens.push({ kind: 'date', text: date, position: i });
+      i += date.length;
+    } else if (number) {
+      tokens.push({ kind: 'number', text: number, position: i });
+      i += number.length;
+    } else if (operator) {
+      tokens.push({ kind: 'operator', text: operator === '==' ? '=' : operator, position: i });
+      i += operator.length;
+    } else if (word) {
+      tokens.push({ kind: 'word', text: word, position: i });
+      i += word.length;
+    } else {
+      fail(`unexpected character '${c}'`, i);
+    }
+  }
+  return tokens;
+}
+
+function parseSize(token: Token): number {
+  const match = token.text.match(/^(\d+(?:\.\d+)?)([A-Za-z]*)$/);
+  const unit = match?.[2].toLowerCase().replace(/i?b$/, '') || 'b';
+  const power = SIZE_UNITS.indexOf(unit);
+  if (token.kind !== 'number' || !match || power < 0) {
+    fail(`expected a size such as 500MB or 1.5GB, got '${token.text}'`, token.position);
+  }
+  return Math.round(Number(match[1]) * 1024 ** power);
+}
+
+function parseTime(token: Token, now: Date): number {
+  if (token.kind === 'number') {
+    const match = token.text.match(/^-?(\d+(?:\.\d+)?)([smhdw])$/);
+    if (!match) {
+      fail(`expected an age such as -7d or -24h, got '${token.text}'`, token.position);
+    }
+    return now.getTime() - Number(match[1]) * AGE_UNITS[match[2]] * 1000;
+  }
+  const time = token.kind === 'date' || token.kind === 'string' ? Date.parse(token.text) : NaN;
+  if (Number.isNaN(time)) {
+    fail(`expected a date such as 2024-07-01 or an age such as -7d, got '${token.text}'`, token.position);
+  }
+  return time;
+}
+
+function compareValues(operator: QueryOperator, actual: number, expected: number): boolean {
+  switch (operator) {
+    case '=': return actual === expected;
+    case '!=': return actual !== expected;
+    case '<': return actual < expected;
+    case '<=': return actual <= expected;
+    case '>': return actual > expected;
+    case '>=': return actual >= expected;
+    default: return false;
+  }
+}
+
+function fieldValue(entry: QueryEntry, field: QueryField): string | number {
+  switch (field) {
+    case 'name': return entry.name;
+    case 'path': return entry.path;
+    case 'size': return entry.size;
+    case 'mtime': return entry.modificationTime.getTime();
+    case 'depth': return entry.depth;
+    case 'type': return entry.isDirectory ? 'dir' : 'file';
+  }
+}
+
+class QueryParser {
+  private index = 0;
+  mentionsType = false;
+
+  constructor(private tokens: Token[], private text: string, private now: Date) {}
+
+  private peek(): Token | undefined {
+    return this.tokens[this.index];
+  }
+
+  private next(expected: string): Token {
+    const token = this.tokens[this.index++];
+    if (!token) {
+      fail(`expected ${expected}`, this.text.length);
+    }
+    return token;
+  }
+
+  private keyword(word: string): boolean {
+    const token = this.peek();
+    if (token?.kind === 'word' && token.text.toLowerCase() === word) {
+      this.index++;
+      return true;
+    }
+    return false;
+  }
+
+  private punctuation(text: string): boolean {
+    const token = this.peek();
+    if (token?.kind === 'punctuation' && token.text === text) {
+      this.index++;
+      return true;
+    }
+    return false;
+  }
+
+  private field(): QueryField {
+    const token = this.next('a field name');
+    const field = token.text.toLowerCase() as QueryField;
+    if (token.kind !== 'word' || !FIELDS.includes(field)) {
+      fail(`unknown field '${token.text}' (expected one of ${FIELDS.join(', ')})`, token.position);
+    }
+    return field;
+  }
+
+  parse(): Omit<FileQuery, 'compare' | 'includesDirectories'> {
+    const peek = this.peek();
+    const startsClause = peek?.kind === 'word' && ['sort', 'limit'].includes(peek.text.toLowerCase());
+    const where = this.peek() && !startsClause ? this.or() : undefined;
+
+    const sort: QuerySortKey[] = [];
+    if (this.keyword('sort')) {
+      if (!this.keyword('by')) {
+        fail("expected 'by' after 'sort'", this.peek()?.position ?? this.text.length);
+      }
+      do {
+        const field = this.field();
+        const descending = this.keyword('desc');
+        if (!descending) {
+          this.keyword('asc');
+        }
+        sort.push({ field, descending });
+      } while (this.punctuation(','));
+    }
+
+    let limit: number | undefined;
+    if (this.keyword('limit')) {
+      const token = this.next('a limit');
+      limit = Number(token.text);
+      if (token.kind !== 'number' || !Number.isInteger(limit) || limit < 1) {
+        fail(`limit must be a positive integer, got '${token.text}'`, token.position);
+      }
+    }
+
+    const extra = this.peek();
+    if (extra) {
+      fail(`unexpected '${extra.text}'`, extra.position);
+    }
+    return { matches: where ?? (() => true), sort, limit };
+  }
+
+  private or(): Predicate {
+    let left = this.and();
+    while (this.keyword('or')) {
+      const a = left;
+      const b = this.and();
+      left = entry => a(entry) || b(entry);
+    }
+    return left;
+  }
+
+  private and(): Predicate {
+    let left = this.not();
+    while (this.keyword('and')) {
+      const a = left;
+      const b = this.not();
+      left = entry => a(entry) && b(entry);
+    }
+    return left;
+  }
+
+  private not(): Predicate {
+    if (this.keyword('not')) {
+      const operand = this.not();
+      return entry => !operand(entry);
+    }
+    if (this.punctuation('(')) {
+      const inner = this.or();
+      if (!this.punctuation(')')) {
+        fail("expected ')'", this.peek()?.position ?? this.text.length);
+      }
+      return inner;
+    }
+    return this.comparison();
+  }
+
+  private comparison(): Predicate {
+    const field = this.field();
+    const opToken = this.next('an operator');
+    if (opToken.kind !== 'operator') {
+      fail(`expected an operator after '${field}', got '${opToken.text}'`, opToken.position);
+    }
+    const operator = opToken.text as QueryOperator;
+    const value = this.next('a value');
+    const unsupported = (): never => fail(`operator '${operator}' cannot be used with '${field}'`, opToken.position);
+
+    switch (field) {
+      case 'name':
+      case 'path': {
+        if (!['=', '!=', '~', '!~'].includes(operator)) {
+          unsupported();
+        }
+        let test: (actual: string) => boolean;
+        if (operator === '=' || operator === '!=') {
+          test = actual => actual === value.text;
+        } else {
+          const regex = field === 'name'
+            ? new RegExp(`^${globSource(value.text)}$`)
+            : new RegExp(`(?:^|/)${globSource(value.text)}(?:/|$)`);
+          test = actual => regex.test(actual);
+        }
+        const negated = operator.startsWith('!');
+        return entry => test(String(fieldValue(entry, field))) !== negated;
+      }
+      case 'type': {
+        if (operator !== '=' && operator !== '!=') {
+          unsupported();
+        }
+        const type = value.text.toLowerCase();
+        if (!['file', 'f', 'dir', 'directory', 'd'].includes(type)) {
+          fail(`type must be 'file' or 'dir', got '${value.text}'`, value.position);
+        }
+        this.mentionsType = true;
+        const isDirectory = type.startsWith('d');
+        return entry => (entry.isDirectory === isDirectory) === (operator === '=');
+      }
+      default: {
+        if (operator === '~' || operator === '!~') {
+          unsupported();
+        }
+        let expected: number;
+        if (field === 'size') {
+          expected = parseSize(value);
+        } else if (field === 'mtime') {
+          expected = parseTime(value, this.now);
+        } else {
+          expected = Number(value.text);
+          if (value.kind !== 'number' || !Number.isInteger(expected)) {
+            fail(`depth must be an integer, got '${value.text}'`, value.position);
+          }
+        }
+        return entry => compareValues(operator, fieldValue(entry, field) as number, expected);
+      }
+    }
+  }
+}
+
+/**
+ * Parse a query_files expression.  Relative times are resolved against `now`.
+ * Syntax errors throw with the (1-based) position of the offending token.
+ */
+export function parseQuery(text: string, now: Date = new Date()): FileQuery {
+  const parser = new QueryParser(tokenize(text), text, now);
+  const { matches, sort, limit } = parser.parse();
+  return {
+    matches,
+    sort,
+    limit,
+    includesDirectories: parser.mentionsType,
+    compare(a: QueryEntry, b: QueryEntry): number {
+      for (const { field, descending } of sort) {
+        const x = fieldValue(a, field);
+        const y = fieldValue(b, field);
+        const order = typeof x === 'number' && typeof y === 'number' ? x - y : String(x).localeCompare(String(y));
+        if (order !== 0) {
+          return descending ? -order : order;
+        }
+      }
+      return a.path.localeCompare(b.path);
+    },
+  };
+}
@@ -0,0 +1,234 @@
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import type { ReadResourceResult, Resource, ResourceTemplate } from '@modelcontextprotocol/sdk/types.js';
+import { XRootDClient, DirectoryEntry } from './xrootd.js';
+import { isLikelyBinary } from './content.js';
+import { DirectoryWatcher, DirectoryChanges } from './watcher.js';
+
+export const RESOURCE_SCHEME = 'xrootd';
+
+/** Files larger than this are not served as resources; use read_file instead. */
+export const MAX_RESOURCE_FILE_BYTES = 1024 * 1024;
+/** Entries included when a directory is read as a resource. */
+export const MAX_RESOURCE_DIRECTORY_ENTRIES = 1000;
+
+const DIRECTORY_MIME_TYPE = 'application/json';
+
+const MIME_TYPES: Record<string, string> = {
+  md: 'text/markdown',
+  txt: 'text/plain',
+  log: 'text/plain',
+  out: 'text/plain',
+  err: 'text/plain',
+  csv: 'text/csv',
+  json: 'application/json',
+  yaml: 'application/yaml',
+  yml: 'application/yaml',
+  xml: 'application/xml',
+  py: 'text/x-python',
+  sh: 'text/x-shellscript',
+  C: 'text/x-c++src',
+  cxx: 'text/x-c++src',
+  cpp: 'text/x-c++src',
+  h: 'text/x-c++hdr',
+  hepmc3: 'text/plain',
+  root: 'application/octet-stream',
+};
+
+export function guessMimeType(path: string): string | undefined {
+  const name = path.split('/').pop() ?? '';
+  const dot = name.lastIndexOf('.');
+  return dot > 0 ? MIME_TYPES[name.slice(dot + 1)] : undefined;
+}
+
+// Only characters that would end or corrupt the URI path are escaped, so that
+// dataset names such as "minQ2=1" stay readable in resource URIs.
+function encodeSegment(segment: string): string {
+  return segment.replace(/[%?#\s]/g, c => encodeURIComponent(c));
+}
+
+/** Build the xrootd://<server>/<absolute path> URI of a namespace path. */
+export function buildResourceUri(serverName: string, absolutePath: string): string {
+  const path = absolutePath.split('/').filter(p => p).map(encodeSegment).join('/');
+  return `${RESOURCE_SCHEME}://${encodeURIComponent(serverName)}/${path}`;
+}
+
+/** Split an xrootd:// URI into the server name and absolute namespace path. */
+export function parseResourceUri(uri: string): { server: string; path: string } {
+  const match = uri.match(/^xrootd:\/\/([^/?#]+)(\/[^?#]*)?$/);
+  if (!match) {
+    throw new McpError(ErrorCode.InvalidParams, `Invalid resource URI: ${uri} (expected ${RESOURCE_SCHEME}://<server>/<path>)`);
+  }
+  let segments: string[];
+  try {
+    segments = (match[2] ?? '/').split('/').filter(p => p).map(decodeURIComponent);
+  } catch {
+    throw new McpError(ErrorCode.InvalidParams, `Invalid resource URI: ${uri} (bad percent-encoding)`);
+  }
+  if (segments.some(s => s === '.' || s === '..')) {
+    throw new McpError(ErrorCode.InvalidParams, `Invalid resource URI: ${uri} (relative segments are not allowed)`);
+  }
+  return { server: decodeURIComponent(match[1]), path: `/${segments.join('/')}` };
+}
+
+/** Poll interval for subscribed directories when none is configured. */
+export const DEFAULT_WATCH_INTERVAL_SECONDS = 60;
+
+export interface ResourceOptions {
+  /** Poll interval per server name, in seconds. */
+  watchIntervals?: Map<string, number>;
+  /** Called when a subscribed directory changed. */
+  onUpdated?: (uri: string, changes: DirectoryChanges) => void;
+}
+
+/**
+ * Exposes each configured server's namespace as MCP resources: directories
+ * read as JSON listings and small files as text (or base64 blobs when binary).
+ * Directories can be subscribed to; they are then polled for changes.
+ */
+export class XRootDResources {
+  private clients: Map<string, XRootDClient>;
+  private watchIntervals: Map<string, number>;
+  private watcher: DirectoryWatcher;
+
+  constructor(clients: Map<string, XRootDClient>, options: ResourceOptions = {}) {
+    this.clients = clients;
+    this.watchIntervals = options.watchIntervals ?? new Map();
+    this.watcher = new DirectoryWatcher((uri, changes) => options.onUpdated?.(uri, changes));
+  }
+
+  private getClient(serverName: string): XRootDClient {
+    const client = this.clients.get(serverName);
+    if (!client) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Unknown server: "${serverName}". Available servers: ${Array.from(this.clients.keys()).join(', ')}`
+      );
+    }
+    return client;
+  }
+
+  private entryResource(serverName: string, dirPath: string, entry: DirectoryEntry): Resource {
+    const path = `${dirPath}/${entry.name}`.replace(/\/+/g, '/');
+    const resource: Resource = {
+      uri: buildResourceUri(serverName, path),
+      name: entry.name,
+      mimeType: entry.isDirectory ? DIRECTORY_MIME_TYPE : guessMimeType(path),
+    };
+    if (!entry.isDirectory && entry.size !== undefined) {
+      resource.size = entry.size;
+    }
+    return resource;
+  }
+
+  /**
+   * The base directory of every server and its immediate entries; deeper paths
+   * are reachable through the resource templates.
+   */
+  async listResources(): Promise<Resource[]> {
+    const resources: Resource[] = [];
+    for (const [serverName, client] of this.clients) {
+      const baseDir = client.getBaseDirectory();
+      resources.push({
+        uri: buildResourceUri(serverName, baseDir),
+        name: `${serverName}:${baseDir}`,
+        description: `Base directory of XRootD server "${serverName}"`,
+        mimeType: DIRECTORY_MIME_TYPE,
+      });
+      try {
+        const entries = await client.listDirectory(baseDir);
+        resources.push(...entries.map(entry => this.entryResource(serverName, baseDir, entry)));
+      } catch (error: any) {
+        console.error(`Could not list resources of server "${serverName}": ${error.message}`);
+      }
+    }
+    return resources;
+  }
+
+  listResourceTemplates(): ResourceTemplate[] {
+    return Array.from(this.clients.keys()).map(serverName => ({
+      uriTemplate: `${RESOURCE_SCHEME}://${encodeURIComponent(serverName)}/{+path}`,
+      name: `${serverName}-path`,
+      description:
+        `A file or directory on XRootD server "${serverName}", addressed by its absolute path ` +
+        `(e.g. ${buildResourceUri(serverName, `${this.clients.get(serverName)!.getBaseDirectory()}/README.md`)}). ` +
+        `Directories read as JSON listings; files up to ${MAX_RESOURCE_FILE_BYTES} bytes are returned in full.`,
+    }));
+  }
+
+  async readResource(uri: string): Promise<ReadResourceResult> {
+    const { server: serverName, path } = parseResourceUri(uri);
+    const client = this.getClient(serverName);
+    const info = await client.getFileInfo(path);
+
+    if (info.isDirectory) {
+      const entries = await client.listDirectory(path);
+      const shown = entries.slice(0, MAX_RESOURCE_DIRECTORY_ENTRIES);
+      const listing: Record<string, unknown> = {
+        path,
+        totalEntries: entries.length,
+        entries: shown.map(entry => ({
+          ...entry,
+          uri: this.entryResource(serverName, path, entry).uri,
+        })),
+      };
+      const lastChanges = this.watcher.getLastChanges(uri);
+      if (lastChanges) {
+        listing.lastChange = {
+          detectedAt: lastChanges.detectedAt,
+          added: lastChanges.added.map(e => e.name),
+          removed: lastChanges.removed.map(e => e.name),
+          changed: lastChanges.changed.map(c => c.name),
+        };
+      }
+      if (shown.length < entries.length) {
+        listing.note = `Showing the first ${shown.length} of ${entries.length} entries. Use the list_directory tool to page through the rest.`;
+      }
+      return {
+        contents: [{ uri, mimeType: DIRECTORY_MIME_TYPE, text: JSON.stringify(listing, null, 2) }],
+      };
+    }
+
+    if (info.size > MAX_RESOURCE_FILE_BYTES) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `File ${path} is ${info.size} bytes, larger than the ${MAX_RESOURCE_FILE_BYTES}-byte resource limit; use the read_file tool with maxBytes instead.`
+      );
+    }
+
+    const data = await client.readFile(path);
+    const mimeType = guessMimeType(path);
+    if (isLikelyBinary(data)) {
+      return {
+        contents: [{ uri, mimeType: mimeType ?? 'application/octet-stream', blob: data.toString('base64') }],
+      };
+    }
+    return {
+      contents: [{ uri, mimeType: mimeType ?? 'text/plain', text: data.toString('utf-8') }],
+    };
+  }
+
+  /** Start polling a directory URI; notifications are sent through onUpdated. */
+  async subscribe(uri: string): Promise<void> {
+    const { server: serverName, path } = parseResourceUri(uri);
+    const client = this.getClient(serverName);
+    const interval = this.watchIntervals.get(serverName) ?? DEFAULT_WATCH_INTERVAL_SECONDS;
+    try {
+      await this.watcher.watch(uri, client, path, interval);
+    } catch (error: any) {
+      throw new McpError(ErrorCode.InvalidParams, `Cannot subscribe to ${uri}: ${error.message}`);
+    }
+  }
+
+  unsubscribe(uri: string): void {
+    this.watcher.unwatch(uri);
+  }
+
+  /** Poll a subscribed URI immediately instead of waiting for its interval. */
+  async pollNow(uri: string): Promise<DirectoryChanges | undefined> {
+    return this.watcher.poll(uri);
+  }
+
+  close(): void {
+    this.watcher.stop();
+  }
+}
@@ -1,5 +1,5 @@
 import { openFile, treeDraw } from 'jsroot';
-import { XRootDClient } from './xrootd.js';
+import { XRootDClient, OperationOptions } from './xrootd.js';
 
 /**
  * Thrown when HTTP access to a ROOT file fails and allowCopy is false.
@@ -123,7 +123,7 @@ export class ROOTAnalyzer {
    * If HTTP access fails and allowCopy is false, throws CopyRequiredError.
    * If HTTP access fails and allowCopy is true, falls back to a full xrdcp copy.
    */
-  private async openRootFile(remotePath: string, allowCopy: boolean): Promise<any> {
+  private async openRootFile(remotePath: string, allowCopy: boolean, signal?: AbortSignal): Promise<any> {
     const httpUrl = this.xrootdClient.getHttpUrl(remotePath);
 
     try {
@@ -138,7 +138,7 @@ export class ROOTAnalyzer {
         throw new CopyRequiredError(remotePath, httpUrl, httpErrorDetail);
       }
       // Fall back to a full xrdcp copy
-      const fileData = await this.xrootdClient.readFile(remotePath);
+      const fileData = await this.xrootdClient.readFile(remotePath, undefined, undefined, signal);
       const blob = new Blob([new Uint8Array(fileData)]);
       const file = await openFile(blob);
       if (!file) {
@@ -280,8 +280,8 @@ export class ROOTAnalyzer {
     return metadata;
   }
 
-  async getEventStatistics(remotePath: string, allowCopy: boolean = false): Promise<EventStatistics> {
-    const file = await this.openRootFile(remotePath, allowCopy);
+  async getEventStatistics(remotePath: string, allowCopy: boolean = false, signal?: AbortSignal): Promise<EventStatistics> {
+    const file = await this.openRootFile(remotePath, allowCopy, signal);
 
     let totalEvents = 0;
     const collectionStats: Record<string, CollectionStatistics> = {};
@@ -323,9 +323,15 @@ export class ROOTAnalyzer {
     };
   }
 
-  async getDatasetEventStatistics(datasetPath: string, allowCopy: boolean = false): Promise<DatasetEventStatistics> {
+  async getDatasetEventStatistics(
+    datasetPath: string,
+    allowCopy: boolean = false,
+    options: OperationOptions = {}
+  ): Promise<DatasetEventStatistics> {
+    const { signal, onProgress } = options;
     // List all ROOT files in dataset
-    const files = await this.xrootdClient.searchFiles('*.root', datasetPath, true, false);
+    const files = await this.xrootdClient.searchFiles('*.root', datasetPath, true, false, { signal });
+    onProgress?.(0, files.length, `Found ${files.length} ROOT files`);
     
     const fileStats: FileEventStatistics[] = [];
     let totalEvents = 0;
@@ -334,9 +340,10 @@ export class ROOTAnalyzer {
     const collectionAggregates: Record<string, AggregatedCollectionStats> = {};
 
     // Analyze each file
-    for (const file of files) {
+    for (const [index, file] of files.entries()) {
+      signal?.throwIfAborted();
       try {
-        const eventStats = await this.getEventStatistics(file.path, allowCopy);
+        const eventStats = await this.getEventStatistics(file.path, allowCopy, signal);
         
         const fileEventStats: FileEventStatistics = {
           path: file.path,
@@ -376,11 +383,12 @@ export class ROOTAnalyzer {
       } catch (error) {
         // Rethrow CopyRequiredError so the caller gets actionable guidance
         // instead of silently returning a zeroed aggregate.
-        if (error instanceof CopyRequiredError) {
+        if (error instanceof CopyRequiredError || signal?.aborted) {
           throw error;
         }
         console.error(`Failed to analyze file ${file.path}:`, error);
       }
+      onProgress?.(index + 1, files.length, `Analyzed ${index + 1} of ${files.length} files`);
     }
 
     // Calculate average compression factors
@@ -0,0 +1,119 @@
+import { appendFileSync, mkdirSync, readFileSync } from 'fs';
+import { join, posix } from 'path';
+import { StorageNode, StorageReport } from './xrootd.js';
+
+/** The usage of every node of a storage report at one point in time. */
+export interface StorageSnapshot {
+  takenAt: Date;
+  recoPath: string;
+  /** By absolute path */
+  nodes: Map<string, { fileCount: number; totalSize: number }>;
+}
+
+interface SnapshotRecord {
+  takenAt: string;
+  recoPath: string;
+  nodes: Array<[string, number, number]>;
+}
+
+/** Capture `report` for comparison with later reports. */
+export function snapshotOf(report: StorageReport, takenAt: Date = new Date()): StorageSnapshot {
+  const nodes = new Map<string, { fileCount: number; totalSize: number }>();
+  const add = (node: StorageNode): void => {
+    nodes.set(node.path, { fileCount: node.fileCount, totalSize: node.totalSize });
+    node.children.forEach(add);
+  };
+  report.campaigns.forEach(add);
+  return { takenAt, recoPath: report.recoPath, nodes };
+}
+
+/**
+ * Fill in the previous usage and growth of the nodes of `report` from
+ * `snapshot`.  Nodes the snapshot lacks, and so all their children, are
+ * marked new and get no growth.
+ */
+export function applySnapshot(report: StorageReport, snapshot: StorageSnapshot): void {
+  const apply = (node: StorageNode): void => {
+    const previous = snapshot.nodes.get(node.path);
+    if (previous) {
+      node.previousFileCount = previous.fileCount;
+      node.previousSize = previous.totalSize;
+      node.growth = node.totalSize - previous.totalSize;
+    } else {
+      node.isNew = true;
+    }
+    node.children.forEach(apply);
+  };
+  report.campaigns.forEach(apply);
+}
+
+// "RECO", "RECO/" and "./RECO" are snapshots of the same directory
+function snapshotKey(recoPath: string): string {
+  return posix.normalize(recoPath).replace(/(.)\/+$/, '$1');
+}
+
+/**
+ * Stores the storage report snapshots of one server as JSON lines in
+ * `<dir>/<server>.storage.jsonl`, oldest first.  Only reports that asked to
+ * be kept are appended; nothing is ever rewritten.
+ */
+export class StorageSnapshotStore {
+  readonly file: string;
+
+  constructor(dir: string, serverName: string) {
+    mkdirSync(dir, { recursive: true });
+    this.file = join(dir, `${encodeURIComponent(serverName)}.storage.jsonl`);
+  }
+
+  save(snapshot: StorageSnapshot): void {
+    const record: SnapshotRecord = {
+      takenAt: snapshot.takenAt.toISOString(),
+      recoPath: snapshotKey(snapshot.recoPath),
+      nodes: Array.from(snapshot.nodes.entries(), ([path, { fileCount, totalSize }]) => [path, fileCount, totalSize]),
+    };
+    try {
+      appendFileSync(this.file, JSON.stringify(record) + '\n');
+    } catch (error: any) {
+      throw new Error(`Could not write snapshot file ${this.file}: ${error.message}`);
+    }
+  }
+
+  /** Snapshots of `recoPath`, oldest first. */
+  load(recoPath: string): StorageSnapshot[] {
+    let lines: string[];
+    try {
+      lines = readFileSync(this.file, 'utf-8').split('\n').filter(line => line.trim());
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        return [];
+      }
+      throw new Error(`Could not read snapshot file ${this.file}: ${error.message}`);
+    }
+
+    const key = snapshotKey(recoPath);
+    const snapshots: StorageSnapshot[] = [];
+    for (const line of lines) {
+      let record: SnapshotRecord;
+      try {
+        record = JSON.parse(line) as SnapshotRecord;
+      } catch {
+        // A torn line (e.g. the process was killed mid-write) loses only that snapshot
+        continue;
+      }
+      if (snapshotKey(record.recoPath) === key) {
+        snapshots.push({
+          takenAt: new Date(record.takenAt),
+          recoPath: record.recoPath,
+          nodes: new Map(record.nodes.map(([path, fileCount, totalSize]) => [path, { fileCount, totalSize }])),
+        });
+      }
+    }
+    return snapshots.sort((a, b) => a.takenAt.getTime() - b.takenAt.getTime());
+  }
+
+  /** The latest snapshot of `recoPath` taken at or before `before` (default: the latest). */
+  latest(recoPath: string, before?: Date): StorageSnapshot | undefined {
+    const snapshots = this.load(recoPath).filter(snapshot => !before || snapshot.takenAt <= before);
+    return snapshots[snapshots.length - 1];
+  }
+}
@@ -0,0 +1,584 @@
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import { createReadStream } from 'fs';
+import { readdir, stat, open } from 'fs/promises';
+import { join, posix, resolve, sep } from 'path';
+import type { DirectoryEntry, FileInfo } from './xrootd.js';
+import { DEFAULT_WALK_CONCURRENCY, forEachConcurrent } from './concurrency.js';
+import { globToRegex } from './glob.js';
+import { XRootDConnectionPool, PoolOptions } from './xrootd-protocol.js';
+import { Checksum, createChecksumHasher, parseChecksum } from './checksum.js';
+
+const execFileAsync = promisify(execFile);
+
+// Percent-encode only characters that would be misinterpreted by XRootD's URL
+// parser when embedding a path in an xrdcp URL.  Only '?', '#', '%', and spaces
+// need encoding in path segments; characters like '=', '+', '-' are safe and
+// must NOT be encoded (e.g. "minQ2=1" or "xAngle=-0.025" in directory names).
+function encodeXRootDPath(path: string): string {
+  return path.split('/').map(segment =>
+    segment
+      .replace(/%/g, '%25')
+      .replace(/\?/g, '%3F')
+      .replace(/#/g, '%23')
+      .replace(/ /g, '%20')
+  ).join('/');
+}
+
+/**
+ * Transport used by XRootDClient to reach a namespace.
+ *
+ * All paths handed to a backend are absolute and have already been resolved
+ * and access-checked against the client's base directory.  Byte ranges follow
+ * Buffer.subarray semantics: `start` is inclusive and `end` is exclusive.
+ * An aborted `signal` must make the call reject promptly, killing any child
+ * process it started.
+ */
+export interface StorageBackend {
+  /** Short identifier reported by list_servers (e.g. "xrdfs", "local"). */
+  readonly kind: string;
+  listDirectory(path: string, signal?: AbortSignal): Promise<DirectoryEntry[]>;
+  stat(path: string, signal?: AbortSignal): Promise<FileInfo>;
+  readFile(path: string, start?: number, end?: number, signal?: AbortSignal): Promise<Buffer>;
+  /** Return the absolute paths of all files below basePath whose name matches the glob. */
+  find(basePath: string, namePattern: string, signal?: AbortSignal): Promise<string[]>;
+  /** Read several byte ranges of one file; backends without vector reads omit this. */
+  readRanges?(path: string, ranges: Array<{ start: number; end: number }>, signal?: AbortSignal): Promise<Buffer[]>;
+  /**
+   * The file's checksum as computed or stored by the server, in `algorithm`
+   * (adler32, crc32c, md5) or the server's default; omitted where unavailable.
+   */
+  checksum?(path: string, algorithm?: string, signal?: AbortSignal): Promise<Checksum>;
+}
+
+/**
+ * True when a backend error means the path does not exist: xrdfs and the
+ * native client report kXR_NotFound ("[3011] No such file or directory"), the
+ * local backend ENOENT.
+ */
+export function isNotFoundError(error: unknown): boolean {
+  const message = error instanceof Error ? error.message : String(error);
+  return /\[3011\]|no such file or directory/i.test(message);
+}
+
+// XRootD selects a checksum type through the cks.type CGI parameter
+function checksumQueryPath(path: string, algorithm?: string): string {
+  return algorithm ? `${path}?cks.type=${encodeURIComponent(algorithm)}` : path;
+}
+
+function joinPath(dir: string, name: string): string {
+  return `${dir}/${name}`.replace(/\/+/g, '/');
+}
+
+// Recursive name search for backends without a server-side find
+async function findByListing(backend: StorageBackend, basePath: string, namePattern: string, signal?: AbortSignal): Promise<string[]> {
+  const regex = globToRegex(namePattern);
+  const results: string[] = [];
+  const walk = async (dir: string): Promise<void> => {
+    for (const entry of await backend.listDirectory(dir, signal)) {
+      const fullPath = joinPath(dir, entry.name);
+      if (entry.isDirectory) {
+        await walk(fullPath);
+      } else if (regex.test(entry.name)) {
+        results.push(fullPath);
+      }
+    }
+  };
+  await walk(basePath);
+  return results;
+}
+
+/**
+ * Backend that shells out to the xrdfs/xrdcp command-line tools for every call.
+ */
+export class XrdfsBackend implements StorageBackend {
+  readonly kind = 'xrdfs';
+  private serverUrl: string;
+
+  constructor(serverUrl: string) {
+    this.serverUrl = serverUrl.replace(/\/+$/, '');
+  }
+
+  async listDirectory(path: string, signal?: AbortSignal): Promise<DirectoryEntry[]> {
+    const { stdout } = await execFileAsync('xrdfs', [this.serverUrl, 'ls', '-l', path], {
+      maxBuffer: 50 * 1024 * 1024, // 50MB buffer for large directories
+      signal,
+    });
+    const entries: DirectoryEntry[] = [];
+
+    const lines = stdout.trim().split('\n').filter(line => line.trim());
+    for (const line of lines) {
+      // Format: drwxrwxr-x owner group size date time path
+      const match = line.match(/^([-d])([rwx-]{9})\s+(\S+)\s+(\S+)\s+(\d+)\s+(\d{4}-\d{2}-\d{2}\s+\d{2}:\d{2}:\d{2})\s+(.+)$/);
+      if (match) {
+        const [, type, perms, owner, group, size, dateStr, fullPath] = match;
+        const name = fullPath.trim().split('/').pop() || fullPath.trim();
+        entries.push({
+          name,
+          isDirectory: type === 'd',
+          size: parseInt(size, 10),
+          modificationTime: new Date(dateStr)
+        });
+      } else {
+        const fullPath = line.split(/\s+/).pop()?.trim();
+        if (fullPath) {
+          const name = fullPath.split('/').pop() || fullPath;
+          entries.push({
+            name,
+            isDirectory: false
+          });
+        }
+      }
+    }
+
+    return entries;
+  }
+
+  async stat(path: string, signal?: AbortSignal): Promise<FileInfo> {
+    const { stdout } = await execFileAsync('xrdfs', [this.serverUrl, 'stat', path], { signal });
+
+    // xrdfs prints "MTime:" and a flag list such as "Flags: 51 (XBitSet|IsDir|IsReadable)";
+    // the "ModTime:" / "IsDir: true" spellings are accepted as well.
+    const sizeMatch = stdout.match(/Size:\s+(\d+)/);
+    const modTimeMatch = stdout.match(/(?:MTime|ModTime):\s+(.+)/);
+    const isDirectoryMatch = stdout.match(/IsDir:\s+(true|false)/i);
+    const flagsMatch = stdout.match(/Flags:\s+\d+\s+\(([^)]*)\)/);
+
+    let isDirectory = false;
+    if (isDirectoryMatch) {
+      isDirectory = isDirectoryMatch[1].toLowerCase() === 'true';
+    } else if (flagsMatch) {
+      isDirectory = flagsMatch[1].split('|').includes('IsDir');
+    }
+
+    return {
+      path,
+      size: sizeMatch ? parseInt(sizeMatch[1], 10) : 0,
+      modificationTime: modTimeMatch ? new Date(modTimeMatch[1].trim()) : new Date(),
+      isDirectory
+    };
+  }
+
+  async readFile(path: string, start?: number, end?: number, signal?: AbortSignal): Promise<Buffer> {
+    // Ensure the separator between the host and path is always exactly '//'
+    // (e.g. root://host//path), regardless of how serverUrl was configured.
+    const fullPath = `${this.serverUrl}/${encodeXRootDPath(path)}`;
+    let args: string[];
+
+    if (start !== undefined || end !== undefined) {
+      const rangeStart = start ?? 0;
+      const rangeEnd = end ?? '';
+      args = ['--range', `${rangeStart}:${rangeEnd}`, fullPath, '-'];
+    } else {
+      args = [fullPath, '-'];
+    }
+
+    const { stdout } = await execFileAsync('xrdcp', args, {
+      encoding: 'buffer',
+      maxBuffer: 100 * 1024 * 1024, // 100MB max
+      signal,
+    });
+
+    return stdout as unknown as Buffer;
+  }
+
+  async find(basePath: string, namePattern: string, signal?: AbortSignal): Promise<string[]> {
+    const { stdout } = await execFileAsync('xrdfs', [this.serverUrl, 'find', basePath, '-name', namePattern], {
+      maxBuffer: 50 * 1024 * 1024,
+      signal,
+    });
+    return stdout.trim().split('\n').map(p => p.trim()).filter(p => p);
+  }
+
+  async checksum(path: string, algorithm?: string, signal?: AbortSignal): Promise<Checksum> {
+    const { stdout } = await execFileAsync('xrdfs', [this.serverUrl, 'query', 'checksum', checksumQueryPath(path, algorithm)], { signal });
+    return parseChecksum(stdout);
+  }
+}
+
+/**
+ * Backend serving a directory on the local filesystem, e.g. an rsync mirror of
+ * /work/eic2/EPIC.  The local directory `rootDir` stands in for the namespace
+ * path `mountPoint` (normally the server's baseDir).
+ */
+export class LocalBackend implements StorageBackend {
+  readonly kind = 'local';
+  private rootDir: string;
+  private mountPoint: string;
+
+  constructor(rootDir: string, mountPoint: string = '/') {
+    this.rootDir = rootDir;
+    this.mountPoint = mountPoint.replace(/\/+$/, '') || '/';
+  }
+
+  private toLocalPath(path: string): string {
+    // Resolve ".." in the namespace path first, so that it cannot climb above the mount point
+    const logicalPath = posix.normalize(path);
+    if (this.mountPoint !== '/' && logicalPath !== this.mountPoint && !logicalPath.startsWith(`${this.mountPoint}/`)) {
+      throw new Error(`Path ${path} is outside the local mirror mounted at ${this.mountPoint}`);
+    }
+    const localPath = join(this.rootDir, this.mountPoint === '/' ? logicalPath : logicalPath.slice(this.mountPoint.length));
+    const root = resolve(this.rootDir);
+    const resolved = resolve(localPath);
+    if (resolved !== root && !resolved.startsWith(root + sep)) {
+      throw new Error(`Permission denied: ${path} is outside the local mirror ${this.rootDir}`);
+    }
+    return localPath;
+  }
+
+  async listDirectory(path: string, signal?: AbortSignal): Promise<DirectoryEntry[]> {
+    signal?.throwIfAborted();
+    const localPath = this.toLocalPath(path);
+    const dirents = await readdir(localPath);
+    const entries: DirectoryEntry[] = [];
+
+    for (const name of dirents) {
+      signal?.throwIfAborted();
+      try {
+        // stat (not lstat) so that symlinked datasets in a mirror are followed
+        const st = await stat(join(localPath, name));
+        entries.push({
+          name,
+          isDirectory: st.isDirectory(),
+          size: st.size,
+          modificationTime: st.mtime,
+        });
+      } catch {
+        // Dangling symlink or entry removed while listing
+        entries.push({ name, isDirectory: false });
+      }
+    }
+
+    return entries;
+  }
+
+  async stat(path: string, signal?: AbortSignal): Promise<FileInfo> {
+    signal?.throwIfAborted();
+    const st = await stat(this.toLocalPath(path));
+    return {
+      path,
+      size: st.size,
+      modificationTime: st.mtime,
+      isDirectory: st.isDirectory(),
+    };
+  }
+
+  async readFile(path: string, start?: number, end?: number, signal?: AbortSignal): Promise<Buffer> {
+    signal?.throwIfAborted();
+    const localPath = this.toLocalPath(path);
+    const handle = await open(localPath, 'r');
+    try {
+      const { size } = await handle.stat();
+      const rangeStart = Math.min(start ?? 0, size);
+      const rangeEnd = Math.min(end ?? size, size);
+      const length = Math.max(0, rangeEnd - rangeStart);
+      const buffer = Buffer.alloc(length);
+      let offset = 0;
+      while (offset < length) {
+        signal?.throwIfAborted();
+        const { bytesRead } = await handle.read(buffer, offset, length - offset, rangeStart + offset);
+        if (bytesRead === 0) break;
+        offset += bytesRead;
+      }
+      return buffer.subarray(0, offset);
+    } finally {
+      await handle.close();
+    }
+  }
+
+  async find(basePath: string, namePattern: string, signal?: AbortSignal): Promise<string[]> {
+    return findByListing(this, basePath, namePattern, signal);
+  }
+
+  // Computed like the server's checksums, adler32 by default
+  async checksum(path: string, algorithm?: string, signal?: AbortSignal): Promise<Checksum> {
+    const hasher = createChecksumHasher(algorithm);
+    for await (const chunk of createReadStream(this.toLocalPath(path), { signal })) {
+      hasher.update(chunk as Buffer);
+    }
+    return hasher.digest();
+  }
+}
+
+/**
+ * Backend speaking the XRootD wire protocol directly over a pooled,
+ * persistent connection, avoiding a process spawn and handshake per call.
+ * Servers that require authentication must use the xrdfs backend.
+ */
+export class NativeBackend implements StorageBackend {
+  readonly kind = 'native';
+  private pool: XRootDConnectionPool;
+
+  constructor(serverUrl: string, options: PoolOptions = {}) {
+    this.pool = new XRootDConnectionPool(serverUrl.replace(/\/+$/, ''), options);
+  }
+
+  async listDirectory(path: string, signal?: AbortSignal): Promise<DirectoryEntry[]> {
+    const listing = await this.pool.dirList(path, signal);
+    const entries: DirectoryEntry[] = new Array(listing.length);
+    await forEachConcurrent(Array.from(listing.entries()), DEFAULT_WALK_CONCURRENCY, async ([index, { name, stat }]) => {
+      signal?.throwIfAborted();
+      // Servers ignoring kXR_dstat return bare names
+      const info = stat ?? await this.pool.stat(joinPath(path, name), signal).catch(() => undefined);
+      entries[index] = info
+        ? { name, isDirectory: info.isDirectory, size: info.size, modificationTime: info.modificationTime }
+        : { name, isDirectory: false };
+    });
+    return entries;
+  }
+
+  async stat(path: string, signal?: AbortSignal): Promise<FileInfo> {
+    const info = await this.pool.stat(path, signal);
+    return {
+      path,
+      size: info.size,
+      modificationTime: info.modificationTime,
+      isDirectory: info.isDirectory,
+    };
+  }
+
+  async readFile(path: string, start?: number, end?: number, signal?: AbortSignal): Promise<Buffer> {
+    const file = await this.pool.open(path, signal);
+    try {
+      const size = file.size ?? (await this.pool.stat(path, signal)).size;
+      const rangeStart = Math.min(start ?? 0, size);
+      const rangeEnd = Math.min(end ?? size, size);
+      if (rangeEnd <= rangeStart) {
+        return Buffer.alloc(0);
+      }
+      return await this.pool.read(file, rangeStart, rangeEnd - rangeStart, signal);
+    } finally {
+      await this.pool.close(file).catch(() => undefined);
+    }
+  }
+
+  async readRanges(path: string, ranges: Array<{ start: number; end: number }>, signal?: AbortSignal): Promise<Buffer[]> {
+    const file = await this.pool.open(path, signal);
+    try {
+      const size = file.size ?? (await this.pool.stat(path, signal)).size;
+      const segments = ranges.map(({ start, end }) => {
+        const offset = Math.min(start, size);
+        return { offset, length: Math.max(0, Math.min(end, size) - offset) };
+      });
+      return await this.pool.readv(file, segments, signal);
+    } finally {
+      await this.pool.close(file).catch(() => undefined);
+    }
+  }
+
+  async find(basePath: string, namePattern: string, signal?: AbortSignal): Promise<string[]> {
+    return findByListing(this, basePath, namePattern, signal);
+  }
+
+  async checksum(path: string, algorithm?: string, signal?: AbortSignal): Promise<Checksum> {
+    return parseChecksum(await this.pool.checksum(checksumQueryPath(path, algorithm), signal));
+  }
+
+  /** Close the pooled connections (they are also closed automatically when idle). */
+  close(): void {
+    this.pool.destroy();
+  }
+}
+
+/** One file or directory in a declarative storage fixture. */
+export interface StorageFixtureEntry {
+  path: string;
+  type?: 'file' | 'directory';
+  /** Size in bytes; defaults to the length of `content`. */
+  size?: number;
+  content?: string;
+  /** Encoding of `content` (default: utf-8). */
+  encoding?: 'utf-8' | 'base64';
+  /** ISO timestamp; defaults to the time the fixture was loaded. */
+  mtime?: string;
+}
+
+export interface StorageFixture {
+  entries: StorageFixtureEntry[];
+}
+
+interface MemoryNode {
+  isDirectory: boolean;
+  size: number;
+  modificationTime: Date;
+  content?: Buffer;
+}
+
+/**
+ * In-memory fake namespace for tests and demos.  Parent directories are
+ * created implicitly; files added with a size but no content read back as
+ * zero bytes.
+ */
+export class MemoryBackend implements StorageBackend {
+  readonly kind = 'memory';
+  private nodes = new Map<string, MemoryNode>();
+  private children = new Map<string, Set<string>>();
+
+  constructor() {
+    this.nodes.set('/', { isDirectory: true, size: 0, modificationTime: new Date() });
+    this.children.set('/', new Set());
+  }
+
+  static fromFixture(fixture: StorageFixture): MemoryBackend {
+    const backend = new MemoryBackend();
+    for (const entry of fixture.entries) {
+      const mtime = entry.mtime ? new Date(entry.mtime) : undefined;
+      if (entry.type === 'directory') {
+        backend.addDirectory(entry.path, mtime);
+      } else {
+        const content = entry.content !== undefined
+          ? Buffer.from(entry.content, entry.encoding === 'base64' ? 'base64' : 'utf-8')
+          : undefined;
+        backend.addFile(entry.path, content ?? entry.size ?? 0, mtime);
+      }
+    }
+    return backend;
+  }
+
+  private static normalize(path: string): string {
+    const normalized = '/' + path.split('/').filter(p => p && p !== '.').join('/');
+    return normalized;
+  }
+
+  private static parentOf(path: string): string {
+    const idx = path.lastIndexOf('/');
+    return idx <= 0 ? '/' : path.slice(0, idx);
+  }
+
+  private ensureParents(path: string, mtime: Date): void {
+    const parent = MemoryBackend.parentOf(path);
+    if (!this.nodes.has(parent)) {
+      this.addDirectory(parent, mtime);
+    }
+    const node = this.nodes.get(parent)!;
+    if (!node.isDirectory) {
+      throw new Error(`Cannot add ${path}: ${parent} is a file`);
+    }
+    this.children.get(parent)!.add(path.slice(parent === '/' ? 1 : parent.length + 1));
+  }
+
+  addDirectory(path: string, modificationTime: Date = new Date()): void {
+    const normalized = MemoryBackend.normalize(path);
+    if (normalized === '/') return;
+    const existing = this.nodes.get(normalized);
+    if (existing) {
+      if (!existing.isDirectory) {
+        throw new Error(`Cannot add directory ${normalized}: a file exists at that path`);
+      }
+      return;
+    }
+    this.ensureParents(normalized, modificationTime);
+    this.nodes.set(normalized, { isDirectory: true, size: 0, modificationTime });
+    this.children.set(normalized, new Set());
+  }
+
+  addFile(path: string, content: Buffer | string | number, modificationTime: Date = new Date()): void {
+    const normalized = MemoryBackend.normalize(path);
+    if (this.nodes.get(normalized)?.isDirectory) {
+      throw new Error(`Cannot add file ${normalized}: a directory exists at that path`);
+    }
+    this.ensureParents(normalized, modificationTime);
+    const data = typeof content === 'number' ? undefined : Buffer.from(content);
+    this.nodes.set(normalized, {
+      isDirectory: false,
+      size: data ? data.length : content as number,
+      modificationTime,
+      content: data,
+    });
+  }
+
+  /** Remove a file or directory (and everything below it). */
+  remove(path: string): void {
+    const normalized = MemoryBackend.normalize(path);
+    if (normalized === '/' || !this.nodes.has(normalized)) return;
+    for (const name of Array.from(this.children.get(normalized) ?? [])) {
+      this.remove(joinPath(normalized, name));
+    }
+    this.nodes.delete(normalized);
+    this.children.delete(normalized);
+    const parent = MemoryBackend.parentOf(normalized);
+    this.children.get(parent)?.delete(normalized.slice(parent === '/' ? 1 : parent.length + 1));
+  }
+
+  private getNode(path: string): MemoryNode {
+    const node = this.nodes.get(MemoryBackend.normalize(path));
+    if (!node) {
+      throw new Error(`[3011] No such file or directory: ${path}`);
+    }
+    return node;
+  }
+
+  async listDirectory(path: string, signal?: AbortSignal): Promise<DirectoryEntry[]> {
+    signal?.throwIfAborted();
+    const normalized = MemoryBackend.normalize(path);
+    const node = this.getNode(normalized);
+    if (!node.isDirectory) {
+      throw new Error(`[3016] Not a directory: ${path}`);
+    }
+    return Array.from(this.children.get(normalized)!).sort().map(name => {
+      const child = this.nodes.get(joinPath(normalized, name))!;
+      return {
+        name,
+        isDirectory: child.isDirectory,
+        size: child.size,
+        modificationTime: child.modificationTime,
+      };
+    });
+  }
+
+  async stat(path: string, signal?: AbortSignal): Promise<FileInfo> {
+    signal?.throwIfAborted();
+    const node = this.getNode(path);
+    return {
+      path,
+      size: node.size,
+      modificationTime: node.modificationTime,
+      isDirectory: node.isDirectory,
+    };
+  }
+
+  async readFile(path: string, start?: number, end?: number, signal?: AbortSignal): Promise<Buffer> {
+    signal?.throwIfAborted();
+    const node = this.getNode(path);
+    if (node.isDirectory) {
+      throw new Error(`[3016] Is a directory: ${path}`);
+    }
+    const rangeStart = Math.min(start ?? 0, node.size);
+    const rangeEnd = Math.min(end ?? node.size, node.size);
+    if (!node.content) {
+      return Buffer.alloc(Math.max(0, rangeEnd - rangeStart));
+    }
+    return node.content.subarray(rangeStart, Math.max(rangeStart, rangeEnd));
+  }
+
+  async checksum(path: string, algorithm?: string, signal?: AbortSignal): Promise<Checksum> {
+    signal?.throwIfAborted();
+    const node = this.getNode(path);
+    if (node.isDirectory) {
+      throw new Error(`[3016] Is a directory: ${path}`);
+    }
+    const hasher = createChecksumHasher(algorithm);
+    if (node.content) {
+      hasher.update(node.content);
+    } else {
+      // Files added by size read as zeros
+      const zeros = Buffer.alloc(Math.min(node.size, 1024 * 1024));
+      for (let remaining = node.size; remaining > 0; remaining -= zeros.length) {
+        hasher.update(zeros.subarray(0, Math.min(remaining, zeros.length)));
+      }
+    }
+    return hasher.digest();
+  }
+
+  async find(basePath: string, namePattern: string, signal?: AbortSignal): Promise<string[]> {
+    signal?.throwIfAborted();
+    const base = MemoryBackend.normalize(basePath);
+    this.getNode(base);
+    const regex = globToRegex(namePattern);
+    const prefix = base === '/' ? '/' : `${base}/`;
+    return Array.from(this.nodes.entries())
+      .filter(([p, node]) => !node.isDirectory && p.startsWith(prefix) && regex.test(p.split('/').pop()!))
+      .map(([p]) => p)
+      .sort();
+  }
+}
@@ -0,0 +1,132 @@
+import { XRootDClient, DirectoryEntry } from './xrootd.js';
+
+export interface DirectoryChanges {
+  detectedAt: Date;
+  added: DirectoryEntry[];
+  removed: DirectoryEntry[];
+  /** Entries whose size or modification time differ from the previous snapshot. */
+  changed: Array<{ name: string; before: DirectoryEntry; after: DirectoryEntry }>;
+}
+
+interface Watch {
+  client: XRootDClient;
+  path: string;
+  snapshot: Map<string, DirectoryEntry>;
+  timer: NodeJS.Timeout;
+  polling: boolean;
+  lastChanges?: DirectoryChanges;
+}
+
+function snapshotOf(entries: DirectoryEntry[]): Map<string, DirectoryEntry> {
+  return new Map(entries.map(e => [e.name, e]));
+}
+
+/** Compare two listings by name, size, type and modification time. */
+export function diffListings(before: Map<string, DirectoryEntry>, after: Map<string, DirectoryEntry>): Omit<DirectoryChanges, 'detectedAt'> {
+  const added: DirectoryEntry[] = [];
+  const removed: DirectoryEntry[] = [];
+  const changed: DirectoryChanges['changed'] = [];
+
+  for (const [name, entry] of after) {
+    const previous = before.get(name);
+    if (!previous) {
+      added.push(entry);
+    } else if (
+      previous.isDirectory !== entry.isDirectory ||
+      previous.size !== entry.size ||
+      previous.modificationTime?.getTime() !== entry.modificationTime?.getTime()
+    ) {
+      changed.push({ name, before: previous, after: entry });
+    }
+  }
+  for (const [name, entry] of before) {
+    if (!after.has(name)) {
+      removed.push(entry);
+    }
+  }
+  return { added, removed, changed };
+}
+
+/**
+ * Polls subscribed directories and reports listings that differ from the last
+ * snapshot.  Each poll refreshes the client's directory cache, so tools see
+ * the same state as the subscriber.
+ */
+export class DirectoryWatcher {
+  private watches = new Map<string, Watch>();
+  private onChange: (uri: string, changes: DirectoryChanges) => void;
+
+  constructor(onChange: (uri: string, changes: DirectoryChanges) => void) {
+    this.onChange = onChange;
+  }
+
+  /** Start watching `path`; subscribing to an already-watched URI is a no-op. */
+  async watch(uri: string, client: XRootDClient, path: string, intervalSeconds: number): Promise<void> {
+    if (this.watches.has(uri)) {
+      return;
+    }
+    const info = await client.getFileInfo(path);
+    if (!info.isDirectory) {
+      throw new Error(`Only directories can be watched: ${path} is a file`);
+    }
+    const snapshot = snapshotOf(await client.refreshDirectory(path));
+    // Another subscribe for the same URI may have completed while we listed
+    if (this.watches.has(uri)) {
+      return;
+    }
+
+    const timer = setInterval(() => {
+      this.poll(uri).catch(error => console.error(`Watch poll failed for ${uri}: ${error.message}`));
+    }, intervalSeconds * 1000);
+    timer.unref();
+    this.watches.set(uri, { client, path, snapshot, timer, polling: false });
+  }
+
+  unwatch(uri: string): void {
+    const watch = this.watches.get(uri);
+    if (watch) {
+      clearInterval(watch.timer);
+      this.watches.delete(uri);
+    }
+  }
+
+  isWatched(uri: string): boolean {
+    return this.watches.has(uri);
+  }
+
+  getLastChanges(uri: string): DirectoryChanges | undefined {
+    return this.watches.get(uri)?.lastChanges;
+  }
+
+  /** Poll one watched directory now; resolves with the changes, if any. */
+  async poll(uri: string): Promise<DirectoryChanges | undefined> {
+    const watch = this.watches.get(uri);
+    if (!watch || watch.polling) {
+      return undefined;
+    }
+    watch.polling = true;
+    try {
+      const current = snapshotOf(await watch.client.refreshDirectory(watch.path));
+      const diff = diffListings(watch.snapshot, current);
+      watch.snapshot = current;
+      if (diff.added.length === 0 && diff.removed.length === 0 && diff.changed.length === 0) {
+        return undefined;
+      }
+      const changes: DirectoryChanges = { detectedAt: new Date(), ...diff };
+      // The subscription may have been cancelled while the listing was in flight
+      if (this.watches.get(uri) === watch) {
+        watch.lastChanges = changes;
+        this.onChange(uri, changes);
+      }
+      return changes;
+    } finally {
+      watch.polling = false;
+    }
+  }
+
+  stop(): void {
+    for (const uri of Array.from(this.watches.keys())) {
+      this.unwatch(uri);
+    }
+  }
+}
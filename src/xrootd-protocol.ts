@@ -0,0 +1,625 @@
+import { Socket, connect } from 'net';
+import { userInfo } from 'os';
+
+// Subset of the XRootD protocol (XProtocol.hh) used by the native backend.
+// All integers on the wire are big-endian.
+
+export const kXR_PROTOCOLVERSION = 0x00000500;
+
+export const RequestId = {
+  kXR_query: 3001,
+  kXR_close: 3003,
+  kXR_dirlist: 3004,
+  kXR_protocol: 3006,
+  kXR_login: 3007,
+  kXR_open: 3010,
+  kXR_ping: 3011,
+  kXR_read: 3013,
+  kXR_stat: 3017,
+  kXR_readv: 3025,
+} as const;
+
+export const ResponseStatus = {
+  kXR_ok: 0,
+  kXR_oksofar: 4000,
+  kXR_attn: 4001,
+  kXR_authmore: 4002,
+  kXR_error: 4003,
+  kXR_redirect: 4004,
+  kXR_wait: 4005,
+  kXR_waitresp: 4006,
+  kXR_status: 4007,
+} as const;
+
+export const ErrorCode = {
+  kXR_NotAuthorized: 3010,
+  kXR_NotFound: 3011,
+  kXR_Unsupported: 3013,
+  kXR_isDirectory: 3016,
+} as const;
+
+const kXR_asynresp = 5008;
+const kXR_ExpLogin = 0x03;
+const kXR_ver005 = 0x05;
+const kXR_dstat = 0x02;
+const kXR_open_read = 0x0010;
+const kXR_retstat = 0x0400;
+const kXR_isDir = 0x02;
+const kXR_Qcksum = 3;
+
+const HANDSHAKE_RESPONSE_LENGTH = 16;
+const RESPONSE_HEADER_LENGTH = 8;
+const REQUEST_HEADER_LENGTH = 24;
+
+/** Largest single kXR_read issued; longer reads are split. */
+export const MAX_READ_CHUNK = 8 * 1024 * 1024;
+/** Limits on one kXR_readv request (XrdProto::maxRvecsz and a conservative segment size). */
+export const MAX_READV_SEGMENTS = 1024;
+export const MAX_READV_SEGMENT_SIZE = 512 * 1024;
+
+/**
+ * Error returned by the server in a kXR_error response.  The message is
+ * formatted like xrdfs output ("[3011] No such file or directory") so that
+ * callers can treat both transports alike.
+ */
+export class XRootDProtocolError extends Error {
+  constructor(public readonly code: number, serverMessage: string) {
+    super(`[${code}] ${serverMessage}`);
+    this.name = 'XRootDProtocolError';
+  }
+}
+
+/** Raised internally when the server answers with kXR_redirect. */
+class RedirectError extends Error {
+  constructor(public readonly host: string, public readonly port: number, public readonly opaque: string) {
+    super(`Redirected to ${host}:${port}`);
+    this.name = 'RedirectError';
+  }
+}
+
+export interface StatInfo {
+  id: string;
+  size: number;
+  flags: number;
+  modificationTime: Date;
+  isDirectory: boolean;
+}
+
+export interface DirListEntry {
+  name: string;
+  stat?: StatInfo;
+}
+
+export interface ReadSegment {
+  offset: number;
+  length: number;
+}
+
+/** Parse the "id size flags modtime" text returned by kXR_stat and kXR_dirlist(dstat). */
+export function parseStatInfo(text: string): StatInfo {
+  const fields = text.replace(/\0/g, '').trim().split(/\s+/);
+  if (fields.length < 4) {
+    throw new Error(`Malformed stat response: "${text}"`);
+  }
+  const flags = parseInt(fields[2], 10);
+  return {
+    id: fields[0],
+    size: Number(fields[1]),
+    flags,
+    modificationTime: new Date(Number(fields[3]) * 1000),
+    isDirectory: (flags & kXR_isDir) !== 0,
+  };
+}
+
+/**
+ * Parse a (possibly multi-chunk) kXR_dirlist response.  With kXR_dstat the
+ * server prefixes the listing with a dummy ".\n0 0 0 0" entry and follows
+ * every name with its stat line; servers that ignore kXR_dstat return names only.
+ */
+export function parseDirList(data: Buffer): DirListEntry[] {
+  const lines = data.toString('utf-8').split(/[\n\0]/).filter(l => l.length > 0);
+  const withStat = lines.length >= 2 && lines[0] === '.' && lines[1] === '0 0 0 0';
+  if (!withStat) {
+    return lines.map(name => ({ name }));
+  }
+  const entries: DirListEntry[] = [];
+  for (let i = 0; i + 1 < lines.length; i += 2) {
+    if (lines[i] === '.' && lines[i + 1] === '0 0 0 0') {
+      continue;
+    }
+    entries.push({ name: lines[i], stat: parseStatInfo(lines[i + 1]) });
+  }
+  return entries;
+}
+
+function cString(data: Buffer): string {
+  const nul = data.indexOf(0);
+  return (nul >= 0 ? data.subarray(0, nul) : data).toString('utf-8');
+}
+
+interface PendingRequest {
+  request: Buffer;
+  chunks: Buffer[];
+  resolve: (data: Buffer) => void;
+  reject: (error: Error) => void;
+  timer?: NodeJS.Timeout;
+}
+
+export interface ConnectionOptions {
+  /** Per-request timeout in milliseconds (default: 60s). */
+  requestTimeout?: number;
+  /** Close the connection after this many idle milliseconds (default: 5 min). */
+  idleTimeout?: number;
+}
+
+/**
+ * One logged-in XRootD connection.  Requests are multiplexed over the socket
+ * using the 2-byte stream id, so any number may be in flight at once.
+ */
+export class XRootDConnection {
+  readonly host: string;
+  readonly port: number;
+  private socket: Socket;
+  private buffer: Buffer = Buffer.alloc(0);
+  private pending = new Map<number, PendingRequest>();
+  private nextStreamId = 1;
+  private handshakeDone = false;
+  private handshakeWaiter?: { resolve: () => void; reject: (error: Error) => void };
+  private idleTimer?: NodeJS.Timeout;
+  private requestTimeout: number;
+  private idleTimeout: number;
+  closed = false;
+
+  private constructor(host: string, port: number, socket: Socket, options: ConnectionOptions) {
+    this.host = host;
+    this.port = port;
+    this.socket = socket;
+    this.requestTimeout = options.requestTimeout ?? 60 * 1000;
+    this.idleTimeout = options.idleTimeout ?? 5 * 60 * 1000;
+    socket.on('data', (chunk: Buffer) => this.onData(chunk));
+    socket.on('error', (error) => this.fail(error));
+    socket.on('close', () => this.fail(new Error(`Connection to ${host}:${port} closed`)));
+  }
+
+  static async open(host: string, port: number, options: ConnectionOptions = {}): Promise<XRootDConnection> {
+    const socket = await new Promise<Socket>((resolve, reject) => {
+      const s = connect({ host: host.replace(/^\[|\]$/g, ''), port });
+      s.once('connect', () => {
+        s.off('error', reject);
+        resolve(s);
+      });
+      s.once('error', reject);
+    });
+    socket.setNoDelay(true);
+    const connection = new XRootDConnection(host, port, socket, options);
+    try {
+      await connection.handshake();
+      await connection.login();
+    } catch (error) {
+      connection.close();
+      throw error;
+    }
+    connection.scheduleIdleClose();
+    return connection;
+  }
+
+  get inFlight(): number {
+    return this.pending.size;
+  }
+
+  private async handshake(): Promise<void> {
+    const hs = Buffer.alloc(20);
+    hs.writeInt32BE(4, 12);
+    hs.writeInt32BE(2012, 16);
+    await new Promise<void>((resolve, reject) => {
+      this.handshakeWaiter = { resolve, reject };
+      this.socket.write(hs);
+    });
+
+    const protocol = Buffer.alloc(16);
+    protocol.writeInt32BE(kXR_PROTOCOLVERSION, 0);
+    protocol.writeUInt8(0, 4); // flags: no TLS, no security requirements
+    protocol.writeUInt8(kXR_ExpLogin, 5);
+    await this.request(RequestId.kXR_protocol, protocol);
+  }
+
+  private async login(): Promise<void> {
+    const body = Buffer.alloc(16);
+    body.writeInt32BE(process.pid, 0);
+    let username = 'xrootd';
+    try {
+      username = userInfo().username || username;
+    } catch {
+      // No passwd entry (e.g. arbitrary uid in a container)
+    }
+    body.write(username.slice(0, 8), 4, 'ascii');
+    body.writeUInt8(0, 12); // ability2
+    body.writeUInt8(0, 13); // ability
+    body.writeUInt8(kXR_ver005, 14); // capver
+    const response = await this.request(RequestId.kXR_login, body);
+    const security = response.subarray(16).toString('utf-8');
+    if (security.includes('&P=')) {
+      throw new Error(
+        `Server ${this.host}:${this.port} requires authentication, which the native backend does not support; use the xrdfs backend instead`
+      );
+    }
+  }
+
+  /**
+   * Send a request and resolve with the complete (reassembled) response body.
+   * Aborting `signal` rejects immediately; the stream id stays reserved until
+   * the server's late answer arrives (or the request times out).
+   */
+  request(requestId: number, body: Buffer, data: Buffer = Buffer.alloc(0), signal?: AbortSignal): Promise<Buffer> {
+    if (this.closed) {
+      return Promise.reject(new Error(`Connection to ${this.host}:${this.port} is closed`));
+    }
+    if (signal?.aborted) {
+      return Promise.reject(signal.reason);
+    }
+    const streamId = this.allocateStreamId();
+    const request = Buffer.alloc(REQUEST_HEADER_LENGTH + data.length);
+    request.writeUInt16BE(streamId, 0);
+    request.writeUInt16BE(requestId, 2);
+    body.copy(request, 4, 0, 16);
+    request.writeInt32BE(data.length, 20);
+    data.copy(request, REQUEST_HEADER_LENGTH);
+
+    return new Promise<Buffer>((resolve, reject) => {
+      const onAbort = (): void => {
+        pending.resolve = () => undefined;
+        pending.reject = () => undefined;
+        reject(signal!.reason);
+      };
+      const pending: PendingRequest = {
+        request,
+        chunks: [],
+        resolve: (result) => {
+          signal?.removeEventListener('abort', onAbort);
+          resolve(result);
+        },
+        reject: (error) => {
+          signal?.removeEventListener('abort', onAbort);
+          reject(error);
+        },
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+      this.pending.set(streamId, pending);
+      this.armTimeout(streamId, pending);
+      this.activity();
+      this.socket.write(request);
+    });
+  }
+
+  close(): void {
+    if (this.closed) return;
+    this.closed = true;
+    clearTimeout(this.idleTimer);
+    this.socket.destroy();
+  }
+
+  private allocateStreamId(): number {
+    for (let attempts = 0; attempts < 0xffff; attempts++) {
+      const id = this.nextStreamId;
+      this.nextStreamId = this.nextStreamId >= 0xffff ? 1 : this.nextStreamId + 1;
+      if (!this.pending.has(id)) {
+        return id;
+      }
+    }
+    throw new Error(`Too many requests in flight on ${this.host}:${this.port}`);
+  }
+
+  private armTimeout(streamId: number, pending: PendingRequest): void {
+    clearTimeout(pending.timer);
+    pending.timer = setTimeout(() => {
+      this.pending.delete(streamId);
+      pending.reject(new Error(`Request to ${this.host}:${this.port} timed out after ${this.requestTimeout}ms`));
+      this.activity();
+    }, this.requestTimeout);
+  }
+
+  // Keep the socket referenced only while requests are outstanding so that an
+  // idle pooled connection never keeps the process alive.
+  private activity(): void {
+    if (this.pending.size > 0) {
+      clearTimeout(this.idleTimer);
+      this.socket.ref();
+    } else {
+      this.socket.unref();
+      this.scheduleIdleClose();
+    }
+  }
+
+  private scheduleIdleClose(): void {
+    clearTimeout(this.idleTimer);
+    this.idleTimer = setTimeout(() => this.close(), this.idleTimeout);
+    this.idleTimer.unref();
+  }
+
+  private fail(error: Error): void {
+    this.closed = true;
+    clearTimeout(this.idleTimer);
+    this.handshakeWaiter?.reject(error);
+    this.handshakeWaiter = undefined;
+    for (const [streamId, pending] of this.pending) {
+      clearTimeout(pending.timer);
+      pending.reject(error);
+      this.pending.delete(streamId);
+    }
+  }
+
+  private onData(chunk: Buffer): void {
+    this.buffer = this.buffer.length === 0 ? chunk : Buffer.concat([this.buffer, chunk]);
+
+    if (!this.handshakeDone) {
+      if (this.buffer.length < HANDSHAKE_RESPONSE_LENGTH) return;
+      this.buffer = this.buffer.subarray(HANDSHAKE_RESPONSE_LENGTH);
+      this.handshakeDone = true;
+      this.handshakeWaiter?.resolve();
+      this.handshakeWaiter = undefined;
+    }
+
+    while (this.buffer.length >= RESPONSE_HEADER_LENGTH) {
+      const dlen = this.buffer.readUInt32BE(4);
+      if (this.buffer.length < RESPONSE_HEADER_LENGTH + dlen) return;
+      const frame = this.buffer.subarray(0, RESPONSE_HEADER_LENGTH + dlen);
+      this.buffer = this.buffer.subarray(RESPONSE_HEADER_LENGTH + dlen);
+      this.dispatch(frame.readUInt16BE(0), frame.readUInt16BE(2), frame.subarray(RESPONSE_HEADER_LENGTH));
+    }
+  }
+
+  private dispatch(streamId: number, status: number, data: Buffer): void {
+    if (status === ResponseStatus.kXR_attn) {
+      // Unsolicited message; only asynchronous responses (after kXR_waitresp) matter
+      if (data.length >= 16 && data.readInt32BE(0) === kXR_asynresp) {
+        const embedded = data.subarray(8);
+        this.dispatch(embedded.readUInt16BE(0), embedded.readUInt16BE(2), embedded.subarray(RESPONSE_HEADER_LENGTH));
+      }
+      return;
+    }
+
+    const pending = this.pending.get(streamId);
+    if (!pending) return;
+
+    switch (status) {
+      case ResponseStatus.kXR_oksofar:
+        pending.chunks.push(Buffer.from(data));
+        this.armTimeout(streamId, pending);
+        return;
+      case ResponseStatus.kXR_waitresp:
+        // The real response arrives later as a kXR_attn/kXR_asynresp message
+        this.armTimeout(streamId, pending);
+        return;
+      case ResponseStatus.kXR_wait: {
+        const seconds = data.length >= 4 ? data.readInt32BE(0) : 1;
+        clearTimeout(pending.timer);
+        pending.timer = setTimeout(() => {
+          if (this.closed) return;
+          this.armTimeout(streamId, pending);
+          this.socket.write(pending.request);
+        }, Math.max(0, seconds) * 1000);
+        return;
+      }
+    }
+
+    this.pending.delete(streamId);
+    clearTimeout(pending.timer);
+    this.activity();
+
+    // Both carry a 4-byte error code or port; a shorter frame must not throw in the socket handler
+    if ((status === ResponseStatus.kXR_error || status === ResponseStatus.kXR_redirect) && data.length < 4) {
+      pending.reject(new Error(`Malformed response (status ${status}, ${data.length} bytes) from ${this.host}:${this.port}`));
+      return;
+    }
+
+    switch (status) {
+      case ResponseStatus.kXR_ok:
+        pending.chunks.push(Buffer.from(data));
+        pending.resolve(pending.chunks.length === 1 ? pending.chunks[0] : Buffer.concat(pending.chunks));
+        return;
+      case ResponseStatus.kXR_error:
+        pending.reject(new XRootDProtocolError(data.readInt32BE(0), cString(data.subarray(4))));
+        return;
+      case ResponseStatus.kXR_redirect: {
+        const target = cString(data.subarray(4));
+        const [host, opaque = ''] = target.split('?', 2);
+        pending.reject(new RedirectError(host, data.readInt32BE(0), opaque));
+        return;
+      }
+      default:
+        pending.reject(new Error(`Unsupported response status ${status} from ${this.host}:${this.port}`));
+    }
+  }
+}
+
+export interface PoolOptions extends ConnectionOptions {
+  /** Maximum connections kept per endpoint (default: 2). */
+  maxConnections?: number;
+  /** Maximum redirects followed for a single operation (default: 5). */
+  maxRedirects?: number;
+}
+
+/** An open file handle; reads must go to the connection that opened it. */
+export interface OpenFile {
+  connection: XRootDConnection;
+  handle: Buffer;
+  size?: number;
+}
+
+/**
+ * Persistent, lazily-connected pool of XRootD connections for one configured
+ * server.  Redirect targets get their own pooled connections.
+ */
+export class XRootDConnectionPool {
+  private host: string;
+  private port: number;
+  private options: PoolOptions;
+  private connections = new Map<string, XRootDConnection[]>();
+  private connecting = new Map<string, Promise<XRootDConnection>>();
+
+  constructor(serverUrl: string, options: PoolOptions = {}) {
+    const match = serverUrl.match(/^root:\/\/(\[[0-9a-fA-F:]+\]|[^:/]+)(?::(\d+))?\/*$/);
+    if (!match) {
+      throw new Error(`Invalid XRootD URL: ${serverUrl}`);
+    }
+    this.host = match[1];
+    this.port = match[2] ? parseInt(match[2], 10) : 1094;
+    this.options = options;
+  }
+
+  /** Number of open connections across all endpoints. */
+  get size(): number {
+    let count = 0;
+    for (const list of this.connections.values()) {
+      count += list.filter(c => !c.closed).length;
+    }
+    return count;
+  }
+
+  async acquire(host: string = this.host, port: number = this.port): Promise<XRootDConnection> {
+    const key = `${host}:${port}`;
+    const live = (this.connections.get(key) ?? []).filter(c => !c.closed);
+    this.connections.set(key, live);
+
+    const idle = live.reduce<XRootDConnection | undefined>(
+      (best, c) => (!best || c.inFlight < best.inFlight ? c : best),
+      undefined
+    );
+    if (idle && (idle.inFlight === 0 || live.length >= (this.options.maxConnections ?? 2))) {
+      return idle;
+    }
+
+    // Share one in-progress connect among concurrent callers
+    let connecting = this.connecting.get(key);
+    if (!connecting) {
+      connecting = XRootDConnection.open(host, port, this.options)
+        .then(connection => {
+          this.connections.get(key)!.push(connection);
+          return connection;
+        })
+        .finally(() => this.connecting.delete(key));
+      this.connecting.set(key, connecting);
+    }
+    return connecting;
+  }
+
+  /** Issue a path-based request, following kXR_redirect responses. */
+  async requestPath(requestId: number, body: Buffer, path: string, signal?: AbortSignal): Promise<{ data: Buffer; connection: XRootDConnection }> {
+    let host = this.host;
+    let port = this.port;
+    let target = path;
+    for (let hop = 0; ; hop++) {
+      const connection = await this.acquire(host, port);
+      try {
+        const data = await connection.request(requestId, body, Buffer.from(target, 'utf-8'), signal);
+        return { data, connection };
+      } catch (error) {
+        if (!(error instanceof RedirectError) || hop >= (this.options.maxRedirects ?? 5)) {
+          throw error;
+        }
+        host = error.host;
+        port = error.port;
+        target = error.opaque ? `${path}?${error.opaque}` : path;
+      }
+    }
+  }
+
+  async stat(path: string, signal?: AbortSignal): Promise<StatInfo> {
+    const { data } = await this.requestPath(RequestId.kXR_stat, Buffer.alloc(16), path, signal);
+    return parseStatInfo(cString(data));
+  }
+
+  async dirList(path: string, signal?: AbortSignal): Promise<DirListEntry[]> {
+    const body = Buffer.alloc(16);
+    body.writeUInt8(kXR_dstat, 15);
+    const { data } = await this.requestPath(RequestId.kXR_dirlist, body, path, signal);
+    return parseDirList(data);
+  }
+
+  /** kXR_query for the file's checksum; the server answers e.g. "adler32 0a1b2c3d". */
+  async checksum(path: string, signal?: AbortSignal): Promise<string> {
+    const body = Buffer.alloc(16);
+    body.writeUInt16BE(kXR_Qcksum, 0);
+    const { data } = await this.requestPath(RequestId.kXR_query, body, path, signal);
+    return cString(data);
+  }
+
+  async open(path: string, signal?: AbortSignal): Promise<OpenFile> {
+    const body = Buffer.alloc(16);
+    body.writeUInt16BE(0, 0); // mode
+    body.writeUInt16BE(kXR_open_read | kXR_retstat, 2);
+    const { data, connection } = await this.requestPath(RequestId.kXR_open, body, path, signal);
+    const handle = Buffer.from(data.subarray(0, 4));
+    // With kXR_retstat the stat text follows fhandle, cpsize and cptype
+    const size = data.length > 12 ? parseStatInfo(cString(data.subarray(12))).size : undefined;
+    return { connection, handle, size };
+  }
+
+  async read(file: OpenFile, offset: number, length: number, signal?: AbortSignal): Promise<Buffer> {
+    const chunks: Buffer[] = [];
+    let position = offset;
+    let remaining = length;
+    while (remaining > 0) {
+      const want = Math.min(remaining, MAX_READ_CHUNK);
+      const body = Buffer.alloc(16);
+      file.handle.copy(body, 0);
+      body.writeBigInt64BE(BigInt(position), 4);
+      body.writeInt32BE(want, 12);
+      const data = await file.connection.request(RequestId.kXR_read, body, undefined, signal);
+      chunks.push(data);
+      position += data.length;
+      remaining -= data.length;
+      if (data.length < want) break; // end of file
+    }
+    return chunks.length === 1 ? chunks[0] : Buffer.concat(chunks);
+  }
+
+  /** Read several segments with as few kXR_readv round trips as possible. */
+  async readv(file: OpenFile, segments: ReadSegment[], signal?: AbortSignal): Promise<Buffer[]> {
+    // Split long segments, remembering which original segment each piece belongs to
+    const pieces: Array<{ index: number; offset: number; length: number }> = [];
+    segments.forEach((segment, index) => {
+      for (let done = 0; done < segment.length; done += MAX_READV_SEGMENT_SIZE) {
+        pieces.push({ index, offset: segment.offset + done, length: Math.min(MAX_READV_SEGMENT_SIZE, segment.length - done) });
+      }
+    });
+
+    const parts: Buffer[][] = segments.map(() => []);
+    for (let i = 0; i < pieces.length; i += MAX_READV_SEGMENTS) {
+      const batch = pieces.slice(i, i + MAX_READV_SEGMENTS);
+      const list = Buffer.alloc(batch.length * 16);
+      batch.forEach((piece, j) => {
+        file.handle.copy(list, j * 16);
+        list.writeInt32BE(piece.length, j * 16 + 4);
+        list.writeBigInt64BE(BigInt(piece.offset), j * 16 + 8);
+      });
+      const data = await file.connection.request(RequestId.kXR_readv, Buffer.alloc(16), list, signal);
+
+      // Response: repeated {fhandle[4], rlen[4], offset[8], data[rlen]} in request order
+      let cursor = 0;
+      for (const piece of batch) {
+        if (cursor + 16 > data.length) {
+          throw new Error('Truncated kXR_readv response');
+        }
+        const rlen = data.readInt32BE(cursor + 4);
+        parts[piece.index].push(data.subarray(cursor + 16, cursor + 16 + rlen));
+        cursor += 16 + rlen;
+      }
+    }
+    return parts.map(p => (p.length === 1 ? p[0] : Buffer.concat(p)));
+  }
+
+  async close(file: OpenFile): Promise<void> {
+    const body = Buffer.alloc(16);
+    file.handle.copy(body, 0);
+    await file.connection.request(RequestId.kXR_close, body);
+  }
+
+  /** Close every pooled connection. */
+  destroy(): void {
+    for (const list of this.connections.values()) {
+      list.forEach(c => c.close());
+    }
+    this.connections.clear();
+  }
+}
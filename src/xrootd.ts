@@ -1,23 +1,15 @@
-import { exec, execFile } from 'child_process';
-import { promisify } from 'util';
-import { DirectoryCache } from './cache.js';
-
-const execAsync = promisify(exec);
-const execFileAsync = promisify(execFile);
-
-// Percent-encode only characters that would be misinterpreted by XRootD's URL
-// parser when embedding a path in an xrdcp URL.  Only '?', '#', '%', and spaces
-// need encoding in path segments; characters like '=', '+', '-' are safe and
-// must NOT be encoded (e.g. "minQ2=1" or "xAngle=-0.025" in directory names).
-function encodeXRootDPath(path: string): string {
-  return path.split('/').map(segment =>
-    segment
-      .replace(/%/g, '%25')
-      .replace(/\?/g, '%3F')
-      .replace(/#/g, '%23')
-      .replace(/ /g, '%20')
-  ).join('/');
-}
+import { posix } from 'path';
+import { Checksum, MAX_MANIFEST_BYTES, ManifestEntry, parseManifest, sampleRanges, sampledHash } from './checksum.js';
+import { CacheEntryInfo, CacheStats, DirectoryCache, DirectoryCacheOptions, StatCache, StatCacheStats } from './cache.js';
+import { splitEpicFileName } from './filename.js';
+import { compilePathGlob, globToRegex, hasExtendedGlob } from './glob.js';
+import { DEFAULT_WALK_CONCURRENCY, forEachConcurrent } from './concurrency.js';
+import { IndexRootStatus, IndexSnapshot, NamespaceIndexer } from './indexer.js';
+import { DatasetFields, EPIC_LAYOUT, PathLayout } from './layout.js';
+import { QueryEntry, parseQuery } from './query.js';
+import { StorageBackend, XrdfsBackend, isNotFoundError } from './storage.js';
+
+export { globToRegex };
 
 // Percent-encode path segments for use in an HTTP URL.  Unlike encodeXRootDPath,
 // this also encodes '=' and '+' which have special meaning in HTTP query strings
@@ -34,18 +26,51 @@ function encodeHttpPath(path: string): string {
   ).join('/');
 }
 
-// Convert a glob pattern to a RegExp.  All regex metacharacters in the input
-// are escaped so they are treated as literals; only the glob wildcards '*' and
-// '?' retain special meaning (mapping to '.*' and '.' respectively).
-export function globToRegex(glob: string): RegExp {
-  const escapeRegex = (s: string): string =>
-    s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+// Predicate for the entries passing a FileFilter
+function compileFileFilter(filter: FileFilter): (entry: DirectoryEntry) => boolean {
+  const extensions = filter.extension === undefined ? [] : [filter.extension].flat().filter(ext => ext);
+  const nameRegex = filter.namePattern ? globToRegex(filter.namePattern) : undefined;
+
+  return entry => {
+    // Extension filter
+    if (extensions.length > 0 && !extensions.some(ext => entry.name.endsWith(ext))) {
+      return false;
+    }
+
+    // Size filters
+    if (filter.minSize !== undefined && (entry.size ?? 0) < filter.minSize) {
+      return false;
+    }
+    if (filter.maxSize !== undefined && (entry.size ?? 0) > filter.maxSize) {
+      return false;
+    }
+
+    // Time filters
+    if (filter.modifiedAfter && entry.modificationTime && entry.modificationTime < filter.modifiedAfter) {
+      return false;
+    }
+    if (filter.modifiedBefore && entry.modificationTime && entry.modificationTime > filter.modifiedBefore) {
+      return false;
+    }
 
-  const escapedGlob = escapeRegex(glob)
-    .replace(/\\\*/g, '.*')  // escaped '*' becomes regex '.*'
-    .replace(/\\\?/g, '.');  // escaped '?' becomes regex '.'
+    // Name pattern filter
+    return !nameRegex || nameRegex.test(entry.name);
+  };
+}
 
-  return new RegExp(`^${escapedGlob}$`);
+// Middle value of a non-empty list, averaging the two middle values of an even-length one
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+// FileInfo of a listing entry; listings do not carry permissions
+function entryInfo(path: string, entry: DirectoryEntry): FileInfo | null {
+  if (entry.size === undefined || entry.modificationTime === undefined) {
+    return null;
+  }
+  return { path, size: entry.size, modificationTime: entry.modificationTime, isDirectory: entry.isDirectory };
 }
 
 export interface FileInfo {
@@ -63,6 +88,85 @@ export interface DirectoryEntry {
   modificationTime?: Date;
 }
 
+export interface FileChunk {
+  data: Buffer;
+  /** Byte offset of data[0] in the file. */
+  start: number;
+  /** Offset just past the last byte read (exclusive). */
+  end: number;
+  /** Total size of the file. */
+  size: number;
+  /** True when bytes remain before the requested end (or end of file). */
+  hasMore: boolean;
+}
+
+/** Reports `progress` units done out of `total` (when known). */
+export type ProgressCallback = (progress: number, total?: number, message?: string) => void;
+
+/** Options accepted by long-running (recursive) operations. */
+export interface OperationOptions {
+  /** Abort the operation, killing in-flight xrdfs/xrdcp processes. */
+  signal?: AbortSignal;
+  onProgress?: ProgressCallback;
+  /** Take listings from this namespace index snapshot instead of the server where it has them. */
+  index?: IndexSnapshot;
+}
+
+/** An entry found by walkTree, with its absolute path and depth below the walk root. */
+export interface WalkEntry extends DirectoryEntry {
+  path: string;
+  /** 1 for entries of the root directory, 2 for their children, ... */
+  depth: number;
+}
+
+/** A directory that could not be listed during a walk. */
+export interface WalkError {
+  path: string;
+  error: string;
+}
+
+export interface WalkOptions extends OperationOptions {
+  /** Maximum number of directories listed at the same time. */
+  concurrency?: number;
+  /** Deepest directory level to list; 0 lists only the root. Unlimited by default. */
+  maxDepth?: number;
+  /** Entries for which this returns false are not visited, but directories are still descended into. */
+  include?: (entry: WalkEntry) => boolean;
+  /** Entries for which this returns true are neither visited nor descended into. */
+  exclude?: (entry: WalkEntry) => boolean;
+  /** Serve listings from the directory cache (default: true). */
+  useCache?: boolean;
+  /** Reject on the first unlistable directory instead of collecting it in errors. */
+  failFast?: boolean;
+}
+
+export interface WalkResult {
+  /** Directories listed, including the root. */
+  directories: number;
+  /** Files seen in the listed directories, whether visited or not. */
+  files: number;
+  /** Directories below the root that could not be listed. */
+  errors: WalkError[];
+}
+
+/** A cache_prewarm walk; updated in place while it runs. */
+export interface PrewarmJob {
+  path: string;
+  maxDepth: number;
+  startedAt: Date;
+  finishedAt?: Date;
+  directories: number;
+  files: number;
+  errors: WalkError[];
+  /** Set when the walk itself failed (e.g. the root could not be listed). */
+  error?: string;
+  /** Settles when the walk finishes; never rejects. */
+  done: Promise<void>;
+}
+
+// Finished prewarm jobs kept for cache_inspect
+const MAX_PREWARM_HISTORY = 10;
+
 export interface SearchResult {
   path: string;
   size: number;
@@ -78,10 +182,149 @@ export interface DirectoryStatistics {
   oldestFile?: { path: string; mtime: Date };
   newestFile?: { path: string; mtime: Date };
   largestFile?: { path: string; size: number };
+  /** Subdirectories that could not be listed and are missing from the totals. */
+  errors?: WalkError[];
+}
+
+export interface RecentChangesSummary {
+  totalFilesAdded: number;
+  totalSizeAdded: number;
+  filesByExtension: Record<string, number>;
+  sizeByExtension: Record<string, number>;
+  filesByDirectory: Record<string, number>;
+  recentFiles: SearchResult[];
+  /** Subdirectories that could not be listed and are missing from the summary. */
+  errors?: WalkError[];
+}
+
+export interface QueryOptions extends OperationOptions {
+  /** Deepest directory level to list below the base path (default: unlimited) */
+  maxDepth?: number;
+  /** Maximum number of matches to return when the query has no `limit` */
+  limit?: number;
+}
+
+export interface QueryResult {
+  matches: SearchResult[];
+  /** Number of matches before the limit was applied */
+  totalMatches: number;
+  truncated: boolean;
+  /** Subdirectories that could not be listed and were not searched. */
+  errors: WalkError[];
+}
+
+export type DuplicateMethod = 'checksum' | 'sampled';
+
+export interface DuplicateOptions extends OperationOptions {
+  /** Files smaller than this many bytes are ignored (default: 1, skipping empty files) */
+  minSize?: number;
+  /**
+   * How files of equal size are confirmed as duplicates: 'checksum' asks the
+   * server, 'sampled' hashes the start, middle and end of each file.  'auto'
+   * (the default) uses checksums where the backend provides them.
+   */
+  method?: 'auto' | DuplicateMethod;
+}
+
+export interface DuplicateGroup {
+  size: number;
+  /** `<algorithm>:<value>` of the server checksum, or `sampled-sha256:<hex>` */
+  fingerprint: string;
+  method: DuplicateMethod;
+  paths: string[];
+  /** Bytes freed by keeping only one copy */
+  wastedBytes: number;
+}
+
+export interface DuplicateReport {
+  /** Largest waste first */
+  groups: DuplicateGroup[];
+  filesScanned: number;
+  /** Files sharing their size with another file, and therefore fingerprinted */
+  candidates: number;
+  totalWastedBytes: number;
+  /** Directories that could not be listed and files that could not be fingerprinted */
+  errors: WalkError[];
+}
+
+export interface VerifyChecksumsOptions extends OperationOptions {
+  /** Directory the manifest's relative paths are resolved against (default: the manifest's directory) */
+  datasetPath?: string;
+  /** Algorithm of manifest checksums that do not name one (default: adler32) */
+  algorithm?: string;
+}
+
+export interface ChecksumMismatch {
+  path: string;
+  algorithm: string;
+  expected: string;
+  actual: string;
+}
+
+export interface ChecksumVerification {
+  manifest: string;
+  datasetPath: string;
+  /** Files listed in the manifest */
+  listed: number;
+  verified: number;
+  mismatches: ChecksumMismatch[];
+  /** Listed files that do not exist on the server */
+  missing: string[];
+  /** Listed files whose checksum could not be obtained */
+  errors: WalkError[];
+}
+
+export interface CompletenessOptions extends OperationOptions {
+  /** Index the sequences start at (default: 0, as in "_1.0000") */
+  firstIndex?: number;
+  /** Files each sequence should have (default: up to the highest index found) */
+  expectedFiles?: number;
+  /** Files smaller than this fraction of the median size of their format are reported (default: 0.5) */
+  smallFileRatio?: number;
+}
+
+/** Files sharing a name stem and suffix, numbered by their file index. */
+export interface FileSequence {
+  /** Name up to the file index, e.g. "pythia8NCDIS_10x100_..._hiDiv_1" */
+  stem: string;
+  /** e.g. ".eicrecon.tree.edm4eic.root" */
+  suffix: string;
+  fileCount: number;
+  firstIndex: number;
+  lastIndex: number;
+  /** Indices between firstIndex and lastIndex without a file */
+  missing: number[];
+}
+
+export interface SmallFile {
+  path: string;
+  size: number;
+  /** Median size of the files with the same suffix */
+  medianSize: number;
+}
+
+/** A file index present in more than one sequence of the same stem, e.g. in two formats. */
+export interface DuplicateIndex {
+  stem: string;
+  index: number;
+  paths: string[];
+}
+
+export interface CompletenessReport {
+  path: string;
+  fileCount: number;
+  totalSize: number;
+  sequences: FileSequence[];
+  emptyFiles: string[];
+  smallFiles: SmallFile[];
+  duplicateIndices: DuplicateIndex[];
+  /** Files without a file index, such as logs */
+  unindexedFiles: string[];
 }
 
 export interface FileFilter {
-  extension?: string;
+  /** One extension or several alternatives, e.g. ['.root', '.hepmc3'] */
+  extension?: string | string[];
   minSize?: number;
   maxSize?: number;
   modifiedAfter?: Date;
@@ -89,6 +332,18 @@ export interface FileFilter {
   namePattern?: string;
 }
 
+export type FilteredSortKey = 'name' | 'size' | 'mtime';
+
+export interface FilteredListOptions extends OperationOptions {
+  /** Descend into subdirectories (default: false) */
+  recursive?: boolean;
+  /** With recursive, the deepest directory level to descend into */
+  maxDepth?: number;
+  /** Unsorted listings keep the server's order, recursive ones are sorted by path */
+  sortBy?: FilteredSortKey;
+  sortOrder?: 'asc' | 'desc';
+}
+
 export interface Campaign {
   name: string;
   path: string;
@@ -96,37 +351,136 @@ export interface Campaign {
 }
 
 export interface Dataset {
+  /** Relative to the campaign */
   name: string;
   path: string;
+  /** Parsed from the path by the server's layout, e.g. detector, beamEnergy, q2Min */
+  fields?: DatasetFields;
   fileCount?: number;
   totalSize?: number;
 }
 
+export interface CampaignCompareOptions extends OperationOptions {
+  /** Directory holding the campaigns (default: RECO) */
+  recoPath?: string;
+  /** Counts the events of a dataset; event deltas are only reported when given */
+  countEvents?: (datasetPath: string, signal?: AbortSignal) => Promise<number>;
+}
+
+/** One campaign's side of a dataset comparison. */
+export interface DatasetSummary {
+  path: string;
+  fileCount: number;
+  totalSize: number;
+  events?: number;
+}
+
+export interface DatasetComparison {
+  /** Relative to the campaign */
+  name: string;
+  fields?: DatasetFields;
+  status: 'added' | 'removed' | 'changed' | 'unchanged';
+  base?: DatasetSummary;
+  target?: DatasetSummary;
+  /** target minus base; a missing side counts as empty */
+  fileCountDelta: number;
+  totalSizeDelta: number;
+  eventsDelta?: number;
+}
+
+export interface CampaignComparison {
+  base: string;
+  target: string;
+  /** Every dataset of either campaign, by name */
+  datasets: DatasetComparison[];
+  /** Directories that could not be listed; their datasets may be incomplete */
+  errors: WalkError[];
+}
+
+/** Levels of a storage report, outermost first. */
+export const STORAGE_LEVELS = ['campaign', 'detector', 'process', 'dataset'] as const;
+
+export type StorageLevel = typeof STORAGE_LEVELS[number];
+
+/** Usage of one directory in a storage report, with the levels below it. */
+export interface StorageNode {
+  /** Relative to the parent node, e.g. "DIS/NC" for a process */
+  name: string;
+  path: string;
+  level: StorageLevel;
+  fileCount: number;
+  totalSize: number;
+  /** Fraction of the parent's totalSize; campaigns are a fraction of the report's total */
+  share: number;
+  /** From the snapshot the report was compared with (see applySnapshot) */
+  previousFileCount?: number;
+  previousSize?: number;
+  growth?: number;
+  /** Absent from the snapshot the report was compared with */
+  isNew?: boolean;
+  /** Largest first */
+  children: StorageNode[];
+}
+
+export interface StorageReport {
+  recoPath: string;
+  campaigns: StorageNode[];
+  fileCount: number;
+  totalSize: number;
+  /** Directories that could not be listed; their usage is missing */
+  errors: WalkError[];
+}
+
 export class XRootDClient {
   private serverUrl: string;
   private baseDirectory: string;
   private cache: DirectoryCache;
+  private statCache: StatCache;
   private enableCache: boolean;
+  private backend: StorageBackend;
+  private prewarmJobs: PrewarmJob[] = [];
+  private revalidating = new Set<string>();
+  private indexer?: NamespaceIndexer;
+  private layout = new PathLayout(EPIC_LAYOUT);
 
-  constructor(serverUrl: string, baseDirectory: string = '/', enableCache: boolean = true, cacheTTLMinutes: number = 60, cacheMaxSize: number = 1000) {
+  constructor(
+    serverUrl: string,
+    baseDirectory: string = '/',
+    enableCache: boolean = true,
+    cacheTTLMinutes: number = 60,
+    cacheMaxSize: number = 1000,
+    backend?: StorageBackend,
+    cacheOptions: DirectoryCacheOptions = {}
+  ) {
     this.serverUrl = serverUrl.replace(/\/$/, '');
     this.baseDirectory = baseDirectory.replace(/\/$/, '') || '/';
     this.enableCache = enableCache;
-    this.cache = new DirectoryCache(cacheTTLMinutes, cacheMaxSize);
+    this.backend = backend ?? new XrdfsBackend(this.serverUrl);
+    this.cache = new DirectoryCache(
+      cacheTTLMinutes,
+      cacheMaxSize,
+      enableCache ? cacheOptions : { ...cacheOptions, store: undefined }
+    );
+    this.statCache = new StatCache(cacheTTLMinutes, cacheMaxSize);
     
     if (enableCache) {
-      // Run cleanup every 15 minutes
-      setInterval(() => this.cache.cleanup(), 15 * 60 * 1000);
+      // Run cleanup every 15 minutes; unref so an idle client never keeps the process alive
+      setInterval(() => {
+        this.cache.cleanup();
+        this.statCache.cleanup();
+      }, 15 * 60 * 1000).unref();
     }
   }
 
   private resolvePath(path: string): string {
     // If path is absolute, ensure it's within base directory
     if (path.startsWith('/')) {
-      if (!path.startsWith(this.baseDirectory)) {
+      // Normalized first, so that ".." cannot lead back out of it
+      const normalizedPath = posix.normalize(path);
+      if (!normalizedPath.startsWith(this.baseDirectory)) {
         throw new Error(`Access denied: Path ${path} is outside base directory ${this.baseDirectory}`);
       }
-      return path;
+      return normalizedPath;
     }
     
     // Relative path - resolve relative to base directory
@@ -152,16 +506,6 @@ export class XRootDClient {
     return normalizedPath;
   }
 
-  private getFullPath(path: string): string {
-    const resolvedPath = this.resolvePath(path);
-    // Ensure serverUrl has no trailing slashes so that the separator between
-    // the host and path is always exactly '//' (e.g. root://host//path),
-    // regardless of how serverUrl was configured.
-    const normalizedServerUrl = this.serverUrl.replace(/\/+$/, '');
-    const encodedPath = encodeXRootDPath(resolvedPath);
-    return `${normalizedServerUrl}/${encodedPath}`;
-  }
-
   /**
    * Construct an HTTPS URL for a file, suitable for jsroot's HTTP-based access.
    * Converts root://host[:port] to https://host[:port] and appends the resolved,
@@ -179,7 +523,8 @@ export class XRootDClient {
     return `${httpBase}${encodedPath}`;
   }
 
-  async listDirectory(path: string, useCache: boolean = true, limit?: number): Promise<DirectoryEntry[]> {
+  async listDirectory(path: string, useCache: boolean = true, limit?: number, signal?: AbortSignal): Promise<DirectoryEntry[]> {
+    signal?.throwIfAborted();
     if (limit !== undefined && (!Number.isFinite(limit) || !Number.isInteger(limit) || limit < 1)) {
       throw new Error('Invalid "limit" parameter: must be a positive integer.');
     }
@@ -189,103 +534,281 @@ export class XRootDClient {
     
     // Check cache first
     if (shouldUseCache) {
-      const cached = this.cache.get(resolvedPath);
+      const missing = this.cache.getMissing(resolvedPath);
+      if (missing) {
+        throw new Error(`Failed to list directory ${path}: ${missing}`);
+      }
+      const cached = this.cache.lookup(resolvedPath);
       if (cached) {
-        return limit !== undefined ? cached.slice(0, limit) : cached;
+        if (cached.stale) {
+          this.revalidate(resolvedPath);
+        }
+        return limit !== undefined ? cached.entries.slice(0, limit) : cached.entries;
       }
     }
     
     // Cache miss - fetch from server
     try {
-      const { stdout } = await execFileAsync('xrdfs', [this.serverUrl, 'ls', '-l', resolvedPath], {
-        maxBuffer: 50 * 1024 * 1024 // 50MB buffer for large directories
-      });
-      const entries: DirectoryEntry[] = [];
-      
-      const lines = stdout.trim().split('\n').filter(line => line.trim());
-      for (const line of lines) {
-        // Format: drwxrwxr-x owner group size date time path
-        const match = line.match(/^([-d])([rwx-]{9})\s+(\S+)\s+(\S+)\s+(\d+)\s+(\d{4}-\d{2}-\d{2}\s+\d{2}:\d{2}:\d{2})\s+(.+)$/);
-        if (match) {
-          const [, type, perms, owner, group, size, dateStr, fullPath] = match;
-          const name = fullPath.trim().split('/').pop() || fullPath.trim();
-          entries.push({
-            name,
-            isDirectory: type === 'd',
-            size: parseInt(size, 10),
-            modificationTime: new Date(dateStr)
-          });
-        } else {
-          const fullPath = line.split(/\s+/).pop()?.trim();
-          if (fullPath) {
-            const name = fullPath.split('/').pop() || fullPath;
-            entries.push({
-              name,
-              isDirectory: false
-            });
-          }
-        }
-      }
+      const entries = await this.backend.listDirectory(resolvedPath, signal);
       
       // Store in cache
       if (shouldUseCache) {
-        this.cache.set(resolvedPath, entries);
+        this.storeListing(resolvedPath, entries);
       }
       
       return limit !== undefined ? entries.slice(0, limit) : entries;
     } catch (error: any) {
+      if (this.enableCache && isNotFoundError(error)) {
+        this.cache.setMissing(resolvedPath, error.message);
+      }
       throw new Error(`Failed to list directory ${path}: ${error.message}`);
     }
   }
+
+  // Refresh a stale listing in the background; the caller already has the stale copy
+  private revalidate(resolvedPath: string): void {
+    if (this.revalidating.has(resolvedPath)) {
+      return;
+    }
+    this.revalidating.add(resolvedPath);
+    this.backend.listDirectory(resolvedPath)
+      .then(entries => this.storeListing(resolvedPath, entries))
+      .catch((error: any) => {
+        if (isNotFoundError(error)) {
+          this.cache.setMissing(resolvedPath, error.message);
+        } else {
+          console.error(`Background refresh of ${resolvedPath} failed: ${error.message}`);
+        }
+      })
+      .finally(() => this.revalidating.delete(resolvedPath));
+  }
   
-  getCacheStats(): { size: number; hitRate?: number } {
-    return this.cache.getStats();
+  // A new listing supersedes stat results cached for its entries
+  private storeListing(resolvedPath: string, entries: DirectoryEntry[]): void {
+    this.cache.set(resolvedPath, entries);
+    this.statCache.invalidate(resolvedPath);
+  }
+
+  /** Re-read a directory from the server, replacing any cached listing. */
+  async refreshDirectory(path: string): Promise<DirectoryEntry[]> {
+    const resolvedPath = this.resolvePath(path);
+    this.cache.invalidate(resolvedPath);
+    this.statCache.invalidate(resolvedPath);
+    return this.listDirectory(path);
+  }
+
+  getBaseDirectory(): string {
+    return this.baseDirectory;
+  }
+
+  getBackendKind(): string {
+    return this.backend.kind;
+  }
+
+  getCacheStats(): CacheStats & { enabled: boolean; stat: StatCacheStats } {
+    return { enabled: this.enableCache, ...this.cache.getStats(), stat: this.statCache.getStats() };
   }
   
   clearCache(): void {
     this.cache.clear();
+    this.statCache.clear();
+  }
+
+  /** Cached listings at or below `path` (everything when omitted). */
+  inspectCache(path?: string): CacheEntryInfo[] {
+    return this.cache.inspect(path === undefined ? undefined : this.resolvePath(path));
+  }
+
+  /** Drop the cached listing of `path`, and with `recursive` every listing below it. */
+  invalidateCache(path: string, recursive: boolean = false): number {
+    const resolvedPath = this.resolvePath(path);
+    this.statCache.invalidate(resolvedPath, recursive);
+    if (recursive) {
+      return this.cache.invalidateTree(resolvedPath);
+    }
+    const cached = this.cache.inspect(resolvedPath).some(info => info.path === resolvedPath);
+    this.cache.invalidate(resolvedPath);
+    return cached ? 1 : 0;
+  }
+
+  /**
+   * Walk `path` down to `maxDepth` in the background so that its listings are
+   * cached.  Directories already cached are left as they are; invalidate them
+   * first to force fresh listings.  A walk already running for the same path
+   * is returned instead of starting another one, so the walk belongs to no
+   * single caller and cannot be cancelled; use untilAborted to stop waiting.
+   */
+  prewarmCache(path: string, maxDepth: number): PrewarmJob {
+    if (!this.enableCache) {
+      throw new Error('The directory cache is disabled for this server');
+    }
+    if (!Number.isInteger(maxDepth) || maxDepth < 0) {
+      throw new Error('Invalid "maxDepth" parameter: must be a non-negative integer.');
+    }
+    const resolvedPath = this.resolvePath(path);
+    const running = this.prewarmJobs.find(job => job.path === resolvedPath && !job.finishedAt);
+    if (running) {
+      return running;
+    }
+
+    const job: PrewarmJob = {
+      path: resolvedPath,
+      maxDepth,
+      startedAt: new Date(),
+      directories: 0,
+      files: 0,
+      errors: [],
+      done: Promise.resolve(),
+    };
+    job.done = this.walkTree(resolvedPath, () => undefined, {
+      maxDepth,
+      exclude: entry => !entry.isDirectory,
+      onProgress: progress => {
+        job.directories = progress;
+      },
+    }).then(result => {
+      job.directories = result.directories;
+      job.files = result.files;
+      job.errors = result.errors;
+    }, error => {
+      job.error = error.message;
+    }).finally(() => {
+      job.finishedAt = new Date();
+    });
+
+    this.prewarmJobs.push(job);
+    const finished = this.prewarmJobs.filter(j => j.finishedAt);
+    if (finished.length > MAX_PREWARM_HISTORY) {
+      this.prewarmJobs.splice(this.prewarmJobs.indexOf(finished[0]), 1);
+    }
+    return job;
+  }
+
+  /** Running and recently finished prewarm walks, oldest first. */
+  getPrewarmJobs(): PrewarmJob[] {
+    return [...this.prewarmJobs];
+  }
+
+  /**
+   * Crawl `roots` into a namespace index now and every `intervalMinutes`.
+   * Recursive operations use it when given `getIndexSnapshot(path)` as their
+   * `index` option.
+   */
+  startIndexing(roots: string[], intervalMinutes?: number): void {
+    if (this.indexer) {
+      throw new Error('Indexing has already been started for this server');
+    }
+    this.indexer = new NamespaceIndexer(roots.map(root => this.resolvePath(root)), async (root, visit) => {
+      return await this.walkTree(root, entry => {
+        const { path, depth, ...listed } = entry;
+        visit(path.slice(0, path.lastIndexOf('/')) || '/', listed);
+      }, { useCache: false });
+    }, intervalMinutes);
+    this.indexer.start();
+  }
+
+  /** Wait for the running (or a new) crawl of every indexed root. */
+  async refreshIndex(): Promise<void> {
+    await this.indexer?.refresh();
+  }
+
+  /** The index snapshot holding the listing of `path`, if it is indexed. */
+  getIndexSnapshot(path: string): IndexSnapshot | undefined {
+    return this.indexer?.snapshotFor(this.resolvePath(path));
+  }
+
+  getIndexStatus(): IndexRootStatus[] | undefined {
+    return this.indexer?.getStatus();
   }
 
-  async getFileInfo(path: string): Promise<FileInfo> {
+  async getFileInfo(path: string, signal?: AbortSignal): Promise<FileInfo> {
     const resolvedPath = this.resolvePath(path);
+    if (this.enableCache) {
+      const missing = this.cache.getMissing(resolvedPath);
+      if (missing) {
+        throw new Error(`Failed to get file info for ${path}: ${missing}`);
+      }
+      const cached = this.statCache.get(resolvedPath) ?? this.infoFromParentListing(resolvedPath);
+      if (cached) {
+        return cached;
+      }
+    }
+
     try {
-      const { stdout } = await execFileAsync('xrdfs', [this.serverUrl, 'stat', resolvedPath]);
-      
-      const sizeMatch = stdout.match(/Size:\s+(\d+)/);
-      const modTimeMatch = stdout.match(/ModTime:\s+(.+)/);
-      const isDirectoryMatch = stdout.match(/IsDir:\s+(true|false)/i);
-      
-      return {
-        path: resolvedPath,
-        size: sizeMatch ? parseInt(sizeMatch[1], 10) : 0,
-        modificationTime: modTimeMatch ? new Date(modTimeMatch[1]) : new Date(),
-        isDirectory: isDirectoryMatch ? isDirectoryMatch[1].toLowerCase() === 'true' : false
-      };
+      const info = await this.backend.stat(resolvedPath, signal);
+      if (this.enableCache) {
+        this.statCache.set(resolvedPath, info);
+      }
+      return info;
     } catch (error: any) {
+      if (this.enableCache && isNotFoundError(error)) {
+        this.cache.setMissing(resolvedPath, error.message);
+      }
       throw new Error(`Failed to get file info for ${path}: ${error.message}`);
     }
   }
 
-  async readFile(path: string, start?: number, end?: number): Promise<Buffer> {
-    const fullPath = this.getFullPath(path);
+  // A fresh cached listing of the parent already carries size and mtime
+  private infoFromParentListing(resolvedPath: string): FileInfo | null {
+    const slash = resolvedPath.lastIndexOf('/');
+    const entries = this.cache.peek(resolvedPath.slice(0, slash) || '/');
+    const entry = entries?.find(e => e.name === resolvedPath.slice(slash + 1));
+    return entry ? entryInfo(resolvedPath, entry) : null;
+  }
+
+  async readFile(path: string, start?: number, end?: number, signal?: AbortSignal): Promise<Buffer> {
+    const resolvedPath = this.resolvePath(path);
     
     try {
-      let args: string[];
+      return await this.backend.readFile(resolvedPath, start, end, signal);
+    } catch (error: any) {
+      throw new Error(`Failed to read file ${path}: ${error.message}`);
+    }
+  }
 
-      if (start !== undefined || end !== undefined) {
-        const rangeStart = start ?? 0;
-        const rangeEnd = end ?? '';
-        args = ['xrdcp', '--range', `${rangeStart}:${rangeEnd}`, fullPath, '-'];
-      } else {
-        args = ['xrdcp', fullPath, '-'];
-      }
+  /**
+   * Read at most maxBytes of the range [start, end), stopping at end of file.
+   * Only the bytes returned are transferred, so large files can be paged
+   * through with successive calls starting at the returned `end`.
+   */
+  async readFileChunk(path: string, start: number = 0, end: number | undefined, maxBytes: number): Promise<FileChunk> {
+    const info = await this.getFileInfo(path);
+    if (info.isDirectory) {
+      throw new Error(`Failed to read file ${path}: is a directory`);
+    }
 
-      const { stdout } = await execFileAsync(args[0], args.slice(1), {
-        encoding: 'buffer',
-        maxBuffer: 100 * 1024 * 1024 // 100MB max
-      });
-      
-      return stdout as unknown as Buffer;
+    const limit = Math.min(end ?? info.size, info.size);
+    const chunkStart = Math.min(Math.max(0, start), limit);
+    const chunkEnd = Math.min(limit, chunkStart + maxBytes);
+    const data = chunkEnd > chunkStart
+      ? await this.readFile(path, chunkStart, chunkEnd)
+      : Buffer.alloc(0);
+
+    return {
+      data,
+      start: chunkStart,
+      end: chunkStart + data.length,
+      size: info.size,
+      hasMore: chunkStart + data.length < limit,
+    };
+  }
+
+  /**
+   * Read several byte ranges (end exclusive) of one file, using a single
+   * vector read when the backend supports it.
+   */
+  async readFileRanges(path: string, ranges: Array<{ start: number; end: number }>, signal?: AbortSignal): Promise<Buffer[]> {
+    const resolvedPath = this.resolvePath(path);
+
+    try {
+      if (this.backend.readRanges) {
+        return await this.backend.readRanges(resolvedPath, ranges, signal);
+      }
+      const buffers: Buffer[] = [];
+      for (const { start, end } of ranges) {
+        buffers.push(await this.backend.readFile(resolvedPath, start, end, signal));
+      }
+      return buffers;
     } catch (error: any) {
       throw new Error(`Failed to read file ${path}: ${error.message}`);
     }
@@ -300,68 +823,170 @@ export class XRootDClient {
     }
   }
 
-  async getDirectorySize(path: string): Promise<number> {
+  async getDirectorySize(path: string, options: OperationOptions = {}): Promise<number> {
+    let totalSize = 0;
     try {
-      const entries = await this.listDirectory(path);
-      let totalSize = 0;
-      
-      for (const entry of entries) {
-        const fullPath = `${path}/${entry.name}`.replace(/\/+/g, '/');
-        if (entry.isDirectory) {
-          totalSize += await this.getDirectorySize(fullPath);
-        } else {
+      // Fail fast: a size missing a subdirectory would be silently wrong
+      await this.walkTree(path, entry => {
+        if (!entry.isDirectory) {
           totalSize += entry.size ?? 0;
         }
-      }
-      
+      }, { ...options, failFast: true });
       return totalSize;
     } catch (error: any) {
       throw new Error(`Failed to calculate directory size for ${path}: ${error.message}`);
     }
   }
 
+  /**
+   * Walk the tree below `path`, listing up to `concurrency` directories in
+   * parallel and calling `visit` for every entry found.  Entries of one
+   * directory are visited in listing order, but directories are visited in
+   * completion order.  A root that cannot be listed rejects the walk; deeper
+   * directories that cannot be listed are collected in `errors` (unless
+   * `failFast` is set).  Progress is reported once per listed directory.
+   */
+  async walkTree(path: string, visit: (entry: WalkEntry) => void, options: WalkOptions = {}): Promise<WalkResult> {
+    const { signal, onProgress, maxDepth, include, exclude, useCache = true, failFast = false, index } = options;
+    const concurrency = options.concurrency ?? DEFAULT_WALK_CONCURRENCY;
+    if (!Number.isInteger(concurrency) || concurrency < 1) {
+      throw new Error('Invalid "concurrency" option: must be a positive integer.');
+    }
+
+    const result: WalkResult = { directories: 0, files: 0, errors: [] };
+    const pending: Array<{ path: string; depth: number }> = [{ path: this.resolvePath(path), depth: 0 }];
+    const running = new Set<Promise<void>>();
+    let failure: unknown;
+
+    const listOne = async (dir: { path: string; depth: number }): Promise<void> => {
+      let entries: DirectoryEntry[];
+      try {
+        entries = index?.list(dir.path) ?? await this.listDirectory(dir.path, useCache, undefined, signal);
+        // Listings that finish after a cancellation are discarded
+        signal?.throwIfAborted();
+      } catch (error: any) {
+        if (dir.depth === 0 || failFast || signal?.aborted) {
+          throw error;
+        }
+        result.errors.push({ path: dir.path, error: error.message });
+        return;
+      }
+
+      result.directories++;
+      result.files += entries.filter(e => !e.isDirectory).length;
+      onProgress?.(result.directories, undefined, `Scanned ${result.directories} directories (${result.files} files)`);
+
+      for (const entry of entries) {
+        const walkEntry: WalkEntry = {
+          ...entry,
+          path: `${dir.path}/${entry.name}`.replace(/\/+/g, '/'),
+          depth: dir.depth + 1,
+        };
+        if (exclude?.(walkEntry)) {
+          continue;
+        }
+        if (!include || include(walkEntry)) {
+          visit(walkEntry);
+        }
+        if (entry.isDirectory && (maxDepth === undefined || walkEntry.depth <= maxDepth)) {
+          pending.push({ path: walkEntry.path, depth: walkEntry.depth });
+        }
+      }
+    };
+
+    while (failure === undefined && (pending.length > 0 || running.size > 0)) {
+      while (pending.length > 0 && running.size < concurrency) {
+        const task: Promise<void> = listOne(pending.shift()!)
+          .catch(error => { failure ??= error; })
+          .finally(() => running.delete(task));
+        running.add(task);
+      }
+      await Promise.race(running);
+    }
+    // Let in-flight listings settle so none outlives a rejected walk
+    await Promise.allSettled(running);
+    if (failure !== undefined) {
+      throw failure;
+    }
+
+    return result;
+  }
+
+  // Unreadable subdirectories do not fail walks whose results are plain lists; log them instead
+  private logWalkErrors(operation: string, errors: WalkError[]): void {
+    for (const { path, error } of errors) {
+      console.error(`${operation}: skipped ${path}: ${error}`);
+    }
+  }
+
   // Search for files by pattern (glob or regex)
-  async searchFiles(pattern: string, basePath: string = '.', recursive: boolean = true, useRegex: boolean = false): Promise<SearchResult[]> {
+  async searchFiles(
+    pattern: string,
+    basePath: string = '.',
+    recursive: boolean = true,
+    useRegex: boolean = false,
+    options: OperationOptions = {}
+  ): Promise<SearchResult[]> {
+    const { signal } = options;
     const resolvedPath = this.resolvePath(basePath);
     const results: SearchResult[] = [];
 
     try {
-      if (!useRegex) {
-        // Use xrdfs find with glob pattern
-        const args = recursive
-          ? [this.serverUrl, 'find', resolvedPath, '-name', pattern]
-          : [this.serverUrl, 'ls', resolvedPath];
-
-        const { stdout } = await execFileAsync('xrdfs', args);
-        const paths = stdout.trim().split('\n').filter(p => p.trim());
-        
-        // Get info for each file
-        for (const path of paths) {
-          if (!path.trim()) continue;
-          
-          // For non-recursive, filter by pattern
-          if (!recursive && pattern !== '*') {
-            const fileName = path.split('/').pop() || '';
-            const globRegex = globToRegex(pattern);
-            if (!globRegex.test(fileName)) continue;
-          }
-          
-          try {
-            const info = await this.getFileInfo(path);
-            results.push({
-              path,
-              size: info.size,
-              modificationTime: info.modificationTime,
-              isDirectory: info.isDirectory,
-            });
-          } catch {
-            // Skip files we can't stat
-          }
+      if (!useRegex && !options.index && !pattern.includes('/') && !(recursive && hasExtendedGlob(pattern))) {
+        // Use the backend's find (xrdfs find -name) for recursive glob searches
+        const listings = new Map<string, DirectoryEntry[]>();
+        let paths: string[];
+        if (recursive) {
+          paths = (await this.backend.find(resolvedPath, pattern, signal)).filter(path => path.trim());
+        } else {
+          const entries = await this.backend.listDirectory(resolvedPath, signal);
+          listings.set(resolvedPath, entries);
+          const globRegex = globToRegex(pattern);
+          paths = entries
+            .filter(e => pattern === '*' || globRegex.test(e.name))
+            .map(e => `${resolvedPath}/${e.name}`.replace(/\/+/g, '/'));
         }
+        results.push(...await this.describePaths(paths, listings, signal));
       } else {
-        // Regex search - need to list and filter
-        const regex = new RegExp(pattern);
-        await this.searchFilesRecursive(resolvedPath, regex, results, recursive);
+        // Regex searches and the globs find cannot evaluate list and filter
+        let include: (entry: WalkEntry) => boolean;
+        let exclude: ((entry: WalkEntry) => boolean) | undefined;
+        let maxDepth = recursive ? undefined : 0;
+        if (useRegex) {
+          const regex = new RegExp(pattern);
+          include = entry => regex.test(entry.name);
+        } else if (pattern.includes('/')) {
+          // Path globs match the path relative to basePath and set their own depth;
+          // directories that cannot lead to a match are not listed
+          const glob = compilePathGlob(pattern);
+          const relative = (entry: WalkEntry): string =>
+            entry.path.slice(resolvedPath === '/' ? 1 : resolvedPath.length + 1);
+          include = entry => !entry.isDirectory && glob.regex.test(relative(entry));
+          exclude = entry => entry.isDirectory && !glob.canDescend(relative(entry).split('/'));
+          maxDepth = glob.maxDepth;
+        } else {
+          // xrdfs find -name only understands '*' and '?'
+          const regex = globToRegex(pattern);
+          include = entry => !entry.isDirectory && regex.test(entry.name);
+        }
+
+        const walk = await this.walkTree(resolvedPath, entry => {
+          results.push({
+            path: entry.path,
+            size: entry.size ?? 0,
+            modificationTime: entry.modificationTime ?? new Date(),
+            isDirectory: entry.isDirectory,
+          });
+        }, {
+          signal,
+          index: options.index,
+          useCache: false, // Don't use cache for searches
+          maxDepth,
+          include,
+          exclude,
+        });
+        this.logWalkErrors('search_files', walk.errors);
+        results.sort((a, b) => a.path.localeCompare(b.path));
       }
 
       return results;
@@ -370,29 +995,115 @@ export class XRootDClient {
     }
   }
 
-  private async searchFilesRecursive(path: string, regex: RegExp, results: SearchResult[], recursive: boolean): Promise<void> {
-    const entries = await this.listDirectory(path, false); // Don't use cache for searches
-    
-    for (const entry of entries) {
-      const fullPath = `${path}/${entry.name}`.replace(/\/+/g, '/');
-      
-      if (regex.test(entry.name)) {
-        results.push({
-          path: fullPath,
-          size: entry.size ?? 0,
-          modificationTime: entry.modificationTime ?? new Date(),
-          isDirectory: entry.isDirectory,
-        });
+  /**
+   * Size and mtime of each path, taken from the listing of its parent
+   * directory: one listing per directory instead of one stat per file.
+   * `listings` may already hold some parents; others come from the cache or
+   * are listed (and cached).  Paths missing from their parent's listing are
+   * stat'ed; paths that cannot be stat'ed are skipped.  Order is preserved.
+   */
+  private async describePaths(
+    paths: string[],
+    listings: Map<string, DirectoryEntry[]>,
+    signal?: AbortSignal
+  ): Promise<SearchResult[]> {
+    const byParent = new Map<string, string[]>();
+    for (const path of paths) {
+      const parent = path.slice(0, path.lastIndexOf('/')) || '/';
+      byParent.set(parent, [...(byParent.get(parent) ?? []), path]);
+    }
+
+    const infos = new Map<string, FileInfo>();
+    await forEachConcurrent(Array.from(byParent.entries()), DEFAULT_WALK_CONCURRENCY, async ([parent, children]) => {
+      let entries = listings.get(parent) ?? (this.enableCache ? this.cache.peek(parent) : null);
+      if (!entries) {
+        try {
+          entries = await this.listDirectory(parent, true, undefined, signal);
+        } catch {
+          signal?.throwIfAborted();
+          entries = [];
+        }
       }
-      
-      if (recursive && entry.isDirectory) {
-        await this.searchFilesRecursive(fullPath, regex, results, recursive);
+      const byName = new Map(entries.map(e => [e.name, e]));
+      for (const path of children) {
+        const entry = byName.get(path.slice(path.lastIndexOf('/') + 1));
+        let info = entry ? entryInfo(path, entry) : null;
+        if (!info) {
+          signal?.throwIfAborted();
+          try {
+            info = await this.getFileInfo(path, signal);
+          } catch {
+            // Skip files we can't stat
+            continue;
+          }
+        }
+        infos.set(path, info);
       }
+    });
+
+    return paths.filter(path => infos.has(path)).map(path => {
+      const info = infos.get(path)!;
+      return {
+        path,
+        size: info.size,
+        modificationTime: info.modificationTime,
+        isDirectory: info.isDirectory,
+      };
+    });
+  }
+
+  /**
+   * Evaluate a query_files expression (see query.ts) over a recursive walk of
+   * basePath.  Matches are sorted by the query's `sort by` keys (path by
+   * default); the query's `limit` takes precedence over `options.limit`.
+   */
+  async queryFiles(query: string, basePath: string = '.', options: QueryOptions = {}): Promise<QueryResult> {
+    const parsed = parseQuery(query);
+    const resolvedPath = this.resolvePath(basePath);
+    const candidates: Array<QueryEntry & { fullPath: string }> = [];
+
+    try {
+      const walk = await this.walkTree(resolvedPath, entry => {
+        const candidate = {
+          name: entry.name,
+          path: entry.path.slice(resolvedPath === '/' ? 1 : resolvedPath.length + 1),
+          size: entry.size ?? 0,
+          modificationTime: entry.modificationTime ?? new Date(0),
+          isDirectory: entry.isDirectory,
+          depth: entry.depth,
+          fullPath: entry.path,
+        };
+        if ((parsed.includesDirectories || !entry.isDirectory) && parsed.matches(candidate)) {
+          candidates.push(candidate);
+        }
+      }, {
+        signal: options.signal,
+        onProgress: options.onProgress,
+        useCache: false, // Don't use cache for searches
+        maxDepth: options.maxDepth,
+      });
+
+      candidates.sort((a, b) => parsed.compare(a, b));
+      const limit = parsed.limit ?? options.limit;
+      const matches = candidates.slice(0, limit).map(c => ({
+        path: c.fullPath,
+        size: c.size,
+        modificationTime: c.modificationTime,
+        isDirectory: c.isDirectory,
+      }));
+      return {
+        matches,
+        totalMatches: candidates.length,
+        truncated: matches.length < candidates.length,
+        errors: walk.errors,
+      };
+    } catch (error: any) {
+      throw new Error(`Failed to query files in ${basePath}: ${error.message}`);
     }
   }
 
   // Get directory statistics
-  async getStatistics(path: string, recursive: boolean = true): Promise<DirectoryStatistics> {
+  async getStatistics(path: string, recursive: boolean = true, options: OperationOptions = {}): Promise<DirectoryStatistics> {
     const resolvedPath = this.resolvePath(path);
     
     const stats: DirectoryStatistics = {
@@ -402,119 +1113,125 @@ export class XRootDClient {
       sizeByExtension: {},
     };
 
-    await this.collectStatistics(resolvedPath, stats, recursive);
-    return stats;
-  }
-
-  private async collectStatistics(path: string, stats: DirectoryStatistics, recursive: boolean): Promise<void> {
-    const entries = await this.listDirectory(path, false);
-    
-    for (const entry of entries) {
-      const fullPath = `${path}/${entry.name}`.replace(/\/+/g, '/');
-      
+    const walk = await this.walkTree(resolvedPath, entry => {
       if (entry.isDirectory) {
         stats.totalDirectories++;
-        if (recursive) {
-          await this.collectStatistics(fullPath, stats, recursive);
-        }
-      } else {
-        stats.totalFiles++;
-        const size = entry.size ?? 0;
-        stats.totalSize += size;
-        
-        // Track by extension
-        const ext = entry.name.includes('.') ? entry.name.split('.').pop()! : 'no-extension';
-        if (!stats.sizeByExtension[ext]) {
-          stats.sizeByExtension[ext] = { count: 0, size: 0 };
-        }
-        stats.sizeByExtension[ext].count++;
-        stats.sizeByExtension[ext].size += size;
-        
-        // Track oldest/newest/largest
-        const mtime = entry.modificationTime ?? new Date(0);
-        if (!stats.oldestFile || mtime < stats.oldestFile.mtime) {
-          stats.oldestFile = { path: fullPath, mtime };
-        }
-        if (!stats.newestFile || mtime > stats.newestFile.mtime) {
-          stats.newestFile = { path: fullPath, mtime };
-        }
-        if (!stats.largestFile || size > stats.largestFile.size) {
-          stats.largestFile = { path: fullPath, size };
-        }
+        return;
       }
-    }
-  }
 
-  // List directory with filters
-  async listDirectoryFiltered(path: string, filter: FileFilter): Promise<DirectoryEntry[]> {
-    const entries = await this.listDirectory(path);
-    
-    return entries.filter(entry => {
-      // Extension filter
-      if (filter.extension && !entry.name.endsWith(filter.extension)) {
-        return false;
-      }
-      
-      // Size filters
-      if (filter.minSize !== undefined && (entry.size ?? 0) < filter.minSize) {
-        return false;
+      stats.totalFiles++;
+      const size = entry.size ?? 0;
+      stats.totalSize += size;
+
+      // Track by extension
+      const ext = entry.name.includes('.') ? entry.name.split('.').pop()! : 'no-extension';
+      if (!stats.sizeByExtension[ext]) {
+        stats.sizeByExtension[ext] = { count: 0, size: 0 };
       }
-      if (filter.maxSize !== undefined && (entry.size ?? 0) > filter.maxSize) {
-        return false;
+      stats.sizeByExtension[ext].count++;
+      stats.sizeByExtension[ext].size += size;
+
+      // Track oldest/newest/largest
+      const mtime = entry.modificationTime ?? new Date(0);
+      if (!stats.oldestFile || mtime < stats.oldestFile.mtime) {
+        stats.oldestFile = { path: entry.path, mtime };
       }
-      
-      // Time filters
-      if (filter.modifiedAfter && entry.modificationTime && entry.modificationTime < filter.modifiedAfter) {
-        return false;
+      if (!stats.newestFile || mtime > stats.newestFile.mtime) {
+        stats.newestFile = { path: entry.path, mtime };
       }
-      if (filter.modifiedBefore && entry.modificationTime && entry.modificationTime > filter.modifiedBefore) {
-        return false;
+      if (!stats.largestFile || size > stats.largestFile.size) {
+        stats.largestFile = { path: entry.path, size };
       }
-      
-      // Name pattern filter
-      if (filter.namePattern) {
-        const regex = globToRegex(filter.namePattern);
-        if (!regex.test(entry.name)) {
-          return false;
+    }, { ...options, useCache: false, maxDepth: recursive ? undefined : 0 });
+
+    if (walk.errors.length > 0) {
+      stats.errors = walk.errors;
+    }
+    return stats;
+  }
+
+  /**
+   * List a directory's entries that pass `filter`, optionally through the
+   * whole subtree (down to `maxDepth`) and sorted by name, size or mtime.
+   * Subdirectories that cannot be listed are logged and skipped.
+   */
+  async listDirectoryFiltered(path: string, filter: FileFilter, options: FilteredListOptions = {}): Promise<WalkEntry[]> {
+    const { recursive = false, sortBy, sortOrder = 'asc' } = options;
+    if (options.maxDepth !== undefined && (!Number.isInteger(options.maxDepth) || options.maxDepth < 0)) {
+      throw new Error('Invalid "maxDepth" option: must be a non-negative integer.');
+    }
+    const matches = compileFileFilter(filter);
+    const resolvedPath = this.resolvePath(path);
+    const entries: WalkEntry[] = [];
+
+    if (recursive) {
+      const walk = await this.walkTree(resolvedPath, entry => entries.push(entry), {
+        signal: options.signal,
+        onProgress: options.onProgress,
+        maxDepth: options.maxDepth,
+        include: matches,
+      });
+      this.logWalkErrors('list_directory_filtered', walk.errors);
+    } else {
+      for (const entry of await this.listDirectory(path, true, undefined, options.signal)) {
+        const walkEntry = { ...entry, path: `${resolvedPath}/${entry.name}`.replace(/\/+/g, '/'), depth: 1 };
+        if (matches(walkEntry)) {
+          entries.push(walkEntry);
         }
       }
-      
-      return true;
-    });
+    }
+
+    if (sortBy || recursive) {
+      const direction = sortOrder === 'desc' ? -1 : 1;
+      const key = (entry: WalkEntry): number | string => {
+        switch (sortBy) {
+          case 'size': return entry.size ?? 0;
+          case 'mtime': return entry.modificationTime?.getTime() ?? 0;
+          case 'name': return entry.name;
+          default: return entry.path;
+        }
+      };
+      entries.sort((a, b) => {
+        const x = key(a);
+        const y = key(b);
+        const order = typeof x === 'number' && typeof y === 'number' ? x - y : String(x).localeCompare(String(y));
+        return direction * order || a.path.localeCompare(b.path);
+      });
+    }
+    return entries;
   }
 
   // Find files modified in time period
-  async findRecentFiles(path: string, hours: number = 24, recursive: boolean = true): Promise<SearchResult[]> {
+  async findRecentFiles(path: string, hours: number = 24, recursive: boolean = true, options: OperationOptions = {}): Promise<SearchResult[]> {
+    const { files, errors } = await this.collectRecentFiles(path, hours, recursive, options);
+    this.logWalkErrors('find_recent_files', errors);
+    return files;
+  }
+
+  private async collectRecentFiles(
+    path: string,
+    hours: number,
+    recursive: boolean,
+    options: OperationOptions
+  ): Promise<{ files: SearchResult[]; errors: WalkError[] }> {
     const resolvedPath = this.resolvePath(path);
     const cutoffTime = new Date(Date.now() - hours * 60 * 60 * 1000);
-    const results: SearchResult[] = [];
+    const files: SearchResult[] = [];
 
-    await this.findRecentFilesRecursive(resolvedPath, cutoffTime, results, recursive);
-    return results;
-  }
-
-  private async findRecentFilesRecursive(path: string, cutoffTime: Date, results: SearchResult[], recursive: boolean): Promise<void> {
-    const entries = await this.listDirectory(path, false);
-    
-    for (const entry of entries) {
-      const fullPath = `${path}/${entry.name}`.replace(/\/+/g, '/');
-      
-      if (entry.isDirectory) {
-        if (recursive) {
-          await this.findRecentFilesRecursive(fullPath, cutoffTime, results, recursive);
-        }
-      } else {
-        const mtime = entry.modificationTime ?? new Date(0);
-        if (mtime >= cutoffTime) {
-          results.push({
-            path: fullPath,
-            size: entry.size ?? 0,
-            modificationTime: mtime,
-            isDirectory: false,
-          });
-        }
+    const walk = await this.walkTree(resolvedPath, entry => {
+      const mtime = entry.modificationTime ?? new Date(0);
+      if (mtime >= cutoffTime) {
+        files.push({
+          path: entry.path,
+          size: entry.size ?? 0,
+          modificationTime: mtime,
+          isDirectory: false,
+        });
       }
-    }
+    }, { ...options, useCache: false, maxDepth: recursive ? undefined : 0, include: entry => !entry.isDirectory });
+
+    files.sort((a, b) => a.path.localeCompare(b.path));
+    return { files, errors: walk.errors };
   }
 
   // Campaign/Dataset discovery for EIC structure
@@ -532,59 +1249,532 @@ export class XRootDClient {
       .sort((a, b) => a.name.localeCompare(b.name));
   }
 
-  async listDatasets(campaign: string, recoPath: string = 'RECO'): Promise<Dataset[]> {
+  /** Use `layout` to discover the datasets of campaigns (default: EPIC_LAYOUT). */
+  setLayout(layout: PathLayout): void {
+    this.layout = layout;
+  }
+
+  getLayout(): PathLayout {
+    return this.layout;
+  }
+
+  /**
+   * Walk a campaign along the layout.  Datasets are the directories that fit
+   * the layout at least `minDepth` levels down and have no subdirectory
+   * fitting the next level.  Without `visitFile` only the layout's levels are
+   * listed; with it the whole campaign is walked and every file is passed
+   * with the dataset it belongs to, if any.
+   */
+  private async walkLayout(
+    campaignPath: string,
+    options: OperationOptions & { visitFile?: (entry: WalkEntry, dataset?: Dataset) => void } = {}
+  ): Promise<{ datasets: Dataset[]; errors: WalkError[] }> {
+    const { visitFile, ...walkOptions } = options;
+    const layout = this.layout;
+    const fitting = new Set<string>();
+    const withFittingChild = new Set<string>();
+    const files: WalkEntry[] = [];
+    const parentOf = (path: string) => path.slice(0, path.lastIndexOf('/'));
+
+    const walk = await this.walkTree(campaignPath, entry => {
+      if (!entry.isDirectory) {
+        files.push(entry);
+        return;
+      }
+      const parent = parentOf(entry.path);
+      if ((entry.depth === 1 || fitting.has(parent)) && layout.matches(entry.depth, entry.name)) {
+        fitting.add(entry.path);
+        withFittingChild.add(parent);
+      }
+    }, {
+      ...walkOptions,
+      maxDepth: visitFile ? undefined : layout.depth - 1,
+      // Only the directories of the layout are needed to find datasets
+      exclude: visitFile ? undefined : entry => !entry.isDirectory || !layout.matches(entry.depth, entry.name),
+    });
+
+    const datasets = new Map<string, Dataset>();
+    for (const path of fitting) {
+      const segments = path.slice(campaignPath.length + 1).split('/');
+      if (segments.length >= layout.minDepth && !withFittingChild.has(path)) {
+        datasets.set(path, { name: segments.join('/'), path, fields: layout.parse(segments) });
+      }
+    }
+    if (visitFile) {
+      for (const file of files) {
+        let dir = parentOf(file.path);
+        while (dir.length > campaignPath.length && !datasets.has(dir)) {
+          dir = parentOf(dir);
+        }
+        visitFile(file, datasets.get(dir));
+      }
+    }
+    return {
+      datasets: Array.from(datasets.values()).sort((a, b) => a.name.localeCompare(b.name)),
+      errors: walk.errors,
+    };
+  }
+
+  async listDatasets(campaign: string, recoPath: string = 'RECO', options: OperationOptions = {}): Promise<Dataset[]> {
     const campaignPath = this.resolvePath(`${recoPath}/${campaign}`);
-    const datasets: Dataset[] = [];
+    try {
+      const { datasets, errors } = await this.walkLayout(campaignPath, options);
+      this.logWalkErrors('list_datasets', errors);
+      return datasets;
+    } catch (error: any) {
+      throw new Error(`Failed to list datasets of campaign ${campaign}: ${error.message}`);
+    }
+  }
+
+  /**
+   * Align the datasets (see walkLayout) of two campaigns below `recoPath` and
+   * compare their file counts, total sizes and, when `countEvents` is given,
+   * event counts.
+   */
+  async compareCampaigns(base: string, target: string, options: CampaignCompareOptions = {}): Promise<CampaignComparison> {
+    const { signal, onProgress, recoPath = 'RECO', countEvents } = options;
+    const summaries = new Map<string, { fields?: DatasetFields; base?: DatasetSummary; target?: DatasetSummary }>();
+    const errors: WalkError[] = [];
+    let progress = 0;
 
-    // Navigate campaign structure: campaign/detector/process_type/process
     try {
-      const detectors = await this.listDirectory(campaignPath);
-      
-      for (const detector of detectors.filter(e => e.isDirectory)) {
-        const detectorPath = `${campaignPath}/${detector.name}`;
-        const processTypes = await this.listDirectory(detectorPath);
-        
-        for (const processType of processTypes.filter(e => e.isDirectory)) {
-          const processTypePath = `${detectorPath}/${processType.name}`;
-          const processes = await this.listDirectory(processTypePath);
-          
-          for (const process of processes.filter(e => e.isDirectory)) {
-            const processPath = `${processTypePath}/${process.name}`;
-            const datasetName = `${detector.name}/${processType.name}/${process.name}`;
-            
-            datasets.push({
-              name: datasetName,
-              path: processPath,
-            });
+      for (const [side, campaign] of [['base', base], ['target', target]] as const) {
+        const campaignPath = this.resolvePath(`${recoPath}/${campaign}`);
+        const offset = progress;
+        const sizes = new Map<string, { fileCount: number; totalSize: number }>();
+        const walk = await this.walkLayout(campaignPath, {
+          signal,
+          onProgress: (directories, _total, message) => {
+            progress = offset + directories;
+            onProgress?.(progress, undefined, message);
+          },
+          visitFile: (entry, dataset) => {
+            if (dataset) {
+              const size = sizes.get(dataset.name) ?? { fileCount: 0, totalSize: 0 };
+              size.fileCount++;
+              size.totalSize += entry.size ?? 0;
+              sizes.set(dataset.name, size);
+            }
+          },
+        });
+        for (const dataset of walk.datasets) {
+          const datasets = summaries.get(dataset.name) ?? { fields: dataset.fields };
+          datasets[side] = { path: dataset.path, fileCount: 0, totalSize: 0, ...sizes.get(dataset.name) };
+          summaries.set(dataset.name, datasets);
+        }
+        errors.push(...walk.errors);
+      }
+
+      if (countEvents) {
+        const sides = Array.from(summaries.values()).flatMap(s => [s.base, s.target]).filter(s => s !== undefined);
+        const offset = progress;
+        for (const [index, summary] of sides.entries()) {
+          signal?.throwIfAborted();
+          summary.events = await countEvents(summary.path, signal);
+          onProgress?.(offset + index + 1, offset + sides.length, `Counted events in ${index + 1} of ${sides.length} datasets`);
+        }
+      }
+    } catch (error: any) {
+      throw new Error(`Failed to compare campaigns ${base} and ${target}: ${error.message}`);
+    }
+
+    const datasets = Array.from(summaries.entries(), ([name, { fields, base: from, target: to }]): DatasetComparison => {
+      const fileCountDelta = (to?.fileCount ?? 0) - (from?.fileCount ?? 0);
+      const totalSizeDelta = (to?.totalSize ?? 0) - (from?.totalSize ?? 0);
+      const eventsDelta = countEvents ? (to?.events ?? 0) - (from?.events ?? 0) : undefined;
+      const status = !from ? 'added'
+        : !to ? 'removed'
+        : fileCountDelta !== 0 || totalSizeDelta !== 0 || (eventsDelta ?? 0) !== 0 ? 'changed'
+        : 'unchanged';
+      return { name, fields, status, base: from, target: to, fileCountDelta, totalSizeDelta, eventsDelta };
+    });
+
+    return {
+      base,
+      target,
+      datasets: datasets.sort((a, b) => a.name.localeCompare(b.name)),
+      errors,
+    };
+  }
+
+  /**
+   * Break the usage of campaigns below `recoPath` down by detector, process
+   * (the remaining required levels of the layout, e.g. "DIS/NC") and dataset
+   * (its optional levels, e.g. "18x275/q2_1_10").  Files outside datasets
+   * count towards the deepest of those levels their directory reaches.
+   */
+  async getStorageReport(campaigns: string[], options: OperationOptions & { recoPath?: string } = {}): Promise<StorageReport> {
+    const { signal, onProgress, recoPath = 'RECO' } = options;
+    if (campaigns.length === 0) {
+      throw new Error('At least one campaign is required');
+    }
+    // Segments below the campaign at which the detector and process levels end
+    const boundaries = Array.from(new Set([1, this.layout.minDepth]));
+    const report: StorageReport = { recoPath, campaigns: [], fileCount: 0, totalSize: 0, errors: [] };
+    let progress = 0;
+
+    for (const campaign of campaigns) {
+      const campaignPath = this.resolvePath(`${recoPath}/${campaign}`);
+      const root: StorageNode = { name: campaign, path: campaignPath, level: 'campaign', fileCount: 0, totalSize: 0, share: 0, children: [] };
+      const nodes = new Map<string, StorageNode>([[campaignPath, root]]);
+      // The nodes from the campaign down to `segments`, created as needed
+      const branch = (segments: string[], withDataset: boolean): StorageNode[] => {
+        const ends = boundaries.filter(end => end <= segments.length);
+        if (withDataset && segments.length > ends[ends.length - 1]) {
+          ends.push(segments.length);
+        }
+        const branchNodes = [root];
+        let start = 0;
+        for (const [i, end] of ends.entries()) {
+          const path = `${campaignPath}/${segments.slice(0, end).join('/')}`;
+          let node = nodes.get(path);
+          if (!node) {
+            const level: StorageLevel = i === 0 ? 'detector' : end === boundaries[i] ? 'process' : 'dataset';
+            node = { name: segments.slice(start, end).join('/'), path, level, fileCount: 0, totalSize: 0, share: 0, children: [] };
+            branchNodes[branchNodes.length - 1].children.push(node);
+            nodes.set(path, node);
           }
+          branchNodes.push(node);
+          start = end;
         }
+        return branchNodes;
+      };
+
+      const offset = progress;
+      let walk: { datasets: Dataset[]; errors: WalkError[] };
+      try {
+        walk = await this.walkLayout(campaignPath, {
+          signal,
+          onProgress: (directories, _total, message) => {
+            progress = offset + directories;
+            onProgress?.(progress, undefined, message);
+          },
+          visitFile: (entry, dataset) => {
+            const segments = dataset
+              ? dataset.name.split('/')
+              : entry.path.slice(campaignPath.length + 1).split('/').slice(0, -1);
+            for (const node of branch(segments, dataset !== undefined)) {
+              node.fileCount++;
+              node.totalSize += entry.size ?? 0;
+            }
+          },
+        });
+      } catch (error: any) {
+        throw new Error(`Failed to report storage of campaign ${campaign}: ${error.message}`);
+      }
+      // Datasets without files are still listed
+      for (const dataset of walk.datasets) {
+        branch(dataset.name.split('/'), true);
+      }
+      report.campaigns.push(root);
+      report.fileCount += root.fileCount;
+      report.totalSize += root.totalSize;
+      report.errors.push(...walk.errors);
+    }
+
+    const finish = (node: StorageNode, parentSize: number): void => {
+      node.share = parentSize > 0 ? node.totalSize / parentSize : 0;
+      node.children.sort((a, b) => b.totalSize - a.totalSize || a.name.localeCompare(b.name));
+      node.children.forEach(child => finish(child, node.totalSize));
+    };
+    report.campaigns.forEach(campaign => finish(campaign, report.totalSize));
+    return report;
+  }
+
+  /**
+   * Find files stored more than once under `paths`: files are grouped by size,
+   * then every file sharing its size is fingerprinted (see DuplicateOptions).
+   */
+  async findDuplicates(paths: string[], options: DuplicateOptions = {}): Promise<DuplicateReport> {
+    const { signal, onProgress, minSize = 1 } = options;
+    if (paths.length === 0) {
+      throw new Error('At least one path is required');
+    }
+    if (options.method === 'checksum' && !this.backend.checksum) {
+      throw new Error(`The ${this.backend.kind} backend cannot report checksums; use method "sampled"`);
+    }
+    const method: DuplicateMethod = options.method === 'sampled' || !this.backend.checksum ? 'sampled' : 'checksum';
+
+    const bySize = new Map<number, string[]>();
+    const seen = new Set<string>();
+    const errors: WalkError[] = [];
+    // Progress keeps counting across the walks and the fingerprinting
+    let progress = 0;
+
+    try {
+      for (const path of paths) {
+        const offset = progress;
+        const walk = await this.walkTree(path, entry => {
+          // Overlapping paths must not make a file its own duplicate
+          if (seen.has(entry.path)) {
+            return;
+          }
+          seen.add(entry.path);
+          const size = entry.size ?? 0;
+          if (size >= minSize) {
+            const files = bySize.get(size) ?? [];
+            files.push(entry.path);
+            bySize.set(size, files);
+          }
+        }, {
+          signal,
+          onProgress: (directories, _total, message) => {
+            progress = offset + directories;
+            onProgress?.(progress, undefined, message);
+          },
+          useCache: false,
+          include: entry => !entry.isDirectory,
+        });
+        errors.push(...walk.errors);
       }
+
+      const candidates = Array.from(bySize.entries())
+        .filter(([, files]) => files.length > 1)
+        .flatMap(([size, files]) => files.map(path => ({ size, path })));
+      const byFingerprint = new Map<string, { size: number; fingerprint: string; paths: string[] }>();
+      const offset = progress;
+      let done = 0;
+      await forEachConcurrent(candidates, DEFAULT_WALK_CONCURRENCY, async ({ size, path }) => {
+        try {
+          const fingerprint = await this.fingerprint(path, size, method, signal);
+          const key = `${size}:${fingerprint}`;
+          const group = byFingerprint.get(key) ?? { size, fingerprint, paths: [] };
+          group.paths.push(path);
+          byFingerprint.set(key, group);
+        } catch (error: any) {
+          if (signal?.aborted) {
+            throw error;
+          }
+          errors.push({ path, error: error.message });
+        }
+        done++;
+        onProgress?.(offset + done, offset + candidates.length, `Fingerprinted ${done} of ${candidates.length} candidate files`);
+      });
+
+      const groups: DuplicateGroup[] = Array.from(byFingerprint.values())
+        .filter(group => group.paths.length > 1)
+        .map(group => ({
+          ...group,
+          method,
+          paths: group.paths.sort(),
+          wastedBytes: group.size * (group.paths.length - 1),
+        }))
+        .sort((a, b) => b.wastedBytes - a.wastedBytes || a.paths[0].localeCompare(b.paths[0]));
+
+      return {
+        groups,
+        filesScanned: seen.size,
+        candidates: candidates.length,
+        totalWastedBytes: groups.reduce((sum, group) => sum + group.wastedBytes, 0),
+        errors,
+      };
     } catch (error: any) {
-      // If structure doesn't match expected, just return top-level directories
-      const entries = await this.listDirectory(campaignPath);
-      return entries
-        .filter(e => e.isDirectory)
-        .map(e => ({
-          name: e.name,
-          path: `${campaignPath}/${e.name}`,
-        }));
+      throw new Error(`Failed to find duplicates: ${error.message}`);
     }
+  }
 
-    return datasets;
+  private async fingerprint(path: string, size: number, method: DuplicateMethod, signal?: AbortSignal): Promise<string> {
+    if (method === 'checksum') {
+      const { algorithm, value } = await this.backend.checksum!(path, undefined, signal);
+      return `${algorithm}:${value}`;
+    }
+    const ranges = sampleRanges(size);
+    let samples: Buffer[];
+    if (this.backend.readRanges && ranges.length > 1) {
+      samples = await this.backend.readRanges(path, ranges, signal);
+    } else {
+      samples = [];
+      for (const { start, end } of ranges) {
+        samples.push(await this.backend.readFile(path, start, end, signal));
+      }
+    }
+    return `sampled-sha256:${sampledHash(size, samples)}`;
+  }
+
+  async getChecksum(path: string, algorithm?: string, signal?: AbortSignal): Promise<Checksum> {
+    const resolvedPath = this.resolvePath(path);
+    if (!this.backend.checksum) {
+      throw new Error(`Failed to get checksum for ${path}: the ${this.backend.kind} backend cannot report checksums`);
+    }
+
+    try {
+      return await this.backend.checksum(resolvedPath, algorithm, signal);
+    } catch (error: any) {
+      throw new Error(`Failed to get checksum for ${path}: ${error.message}`);
+    }
+  }
+
+  /**
+   * Compare the server checksums of the files listed in the manifest at
+   * `manifestPath` (see parseManifest for the accepted formats) with the
+   * checksums the manifest records.
+   */
+  async verifyChecksums(manifestPath: string, options: VerifyChecksumsOptions = {}): Promise<ChecksumVerification> {
+    const { signal, onProgress } = options;
+    const manifest = this.resolvePath(manifestPath);
+    const datasetPath = this.resolvePath(options.datasetPath ?? (manifest.slice(0, manifest.lastIndexOf('/')) || '/'));
+    if (!this.backend.checksum) {
+      throw new Error(`Failed to verify checksums: the ${this.backend.kind} backend cannot report checksums`);
+    }
+
+    let entries: ManifestEntry[];
+    try {
+      const info = await this.backend.stat(manifest);
+      if (info.size > MAX_MANIFEST_BYTES) {
+        throw new Error(`it is ${info.size} bytes, larger than the ${MAX_MANIFEST_BYTES}-byte manifest limit`);
+      }
+      entries = parseManifest((await this.backend.readFile(manifest, undefined, undefined, signal)).toString('utf-8'), options.algorithm);
+    } catch (error: any) {
+      throw new Error(`Failed to read checksum manifest ${manifestPath}: ${error.message}`);
+    }
+
+    const result: ChecksumVerification = {
+      manifest,
+      datasetPath,
+      listed: entries.length,
+      verified: 0,
+      mismatches: [],
+      missing: [],
+      errors: [],
+    };
+    let done = 0;
+    await forEachConcurrent(entries, DEFAULT_WALK_CONCURRENCY, async entry => {
+      // Relative to the dataset, and never outside the base directory
+      const path = this.resolvePath(entry.path.startsWith('/')
+        ? entry.path
+        : `${datasetPath.slice(this.baseDirectory.length)}/${entry.path}`.replace(/^\/+/, ''));
+      try {
+        const actual = await this.backend.checksum!(path, entry.algorithm, signal);
+        // A server without the requested algorithm may answer in its default one
+        if (actual.algorithm !== entry.algorithm) {
+          result.errors.push({ path, error: `checksum algorithm ${entry.algorithm} unavailable: the server answered with ${actual.algorithm}` });
+        } else if (actual.value.toLowerCase() === entry.value.toLowerCase()) {
+          result.verified++;
+        } else {
+          result.mismatches.push({ path, algorithm: actual.algorithm, expected: entry.value, actual: actual.value });
+        }
+      } catch (error: any) {
+        if (signal?.aborted) {
+          throw error;
+        }
+        if (isNotFoundError(error)) {
+          result.missing.push(path);
+        } else {
+          result.errors.push({ path, error: error.message });
+        }
+      }
+      done++;
+      onProgress?.(done, entries.length, `Verified ${done} of ${entries.length} files`);
+    });
+
+    result.mismatches.sort((a, b) => a.path.localeCompare(b.path));
+    result.missing.sort();
+    result.errors.sort((a, b) => a.path.localeCompare(b.path));
+    return result;
+  }
+
+  /**
+   * Check a dataset directory for failed jobs: infer the numbered sequences
+   * its files form (pythia8NCDIS_..._1.0000.eicrecon.tree.edm4eic.root,
+   * _1.0001..., see splitEpicFileName) and report missing indices, empty or
+   * unusually small files and indices produced more than once.
+   */
+  async checkDatasetCompleteness(path: string, options: CompletenessOptions = {}): Promise<CompletenessReport> {
+    const { signal, firstIndex = 0, expectedFiles, smallFileRatio = 0.5 } = options;
+    if (!Number.isInteger(firstIndex) || firstIndex < 0) {
+      throw new Error('Invalid "firstIndex" parameter: must be a non-negative integer.');
+    }
+    if (expectedFiles !== undefined && (!Number.isInteger(expectedFiles) || expectedFiles < 1)) {
+      throw new Error('Invalid "expectedFiles" parameter: must be a positive integer.');
+    }
+    if (!Number.isFinite(smallFileRatio) || smallFileRatio < 0 || smallFileRatio > 1) {
+      throw new Error('Invalid "smallFileRatio" parameter: must be between 0 and 1.');
+    }
+    const resolvedPath = this.resolvePath(path);
+    const entries = await this.listDirectory(path, false, undefined, signal);
+    const files = entries.filter(entry => !entry.isDirectory);
+
+    const report: CompletenessReport = {
+      path: resolvedPath,
+      fileCount: files.length,
+      totalSize: 0,
+      sequences: [],
+      emptyFiles: [],
+      smallFiles: [],
+      duplicateIndices: [],
+      unindexedFiles: [],
+    };
+    const sequences = new Map<string, { stem: string; suffix: string; indices: Set<number> }>();
+    const byStemIndex = new Map<string, DuplicateIndex>();
+    const sizesBySuffix = new Map<string, number[]>();
+    const nonEmpty: Array<{ path: string; size: number; suffix: string }> = [];
+
+    for (const file of files) {
+      const filePath = `${resolvedPath}/${file.name}`.replace(/\/+/g, '/');
+      const size = file.size ?? 0;
+      report.totalSize += size;
+      const parts = splitEpicFileName(file.name);
+      if (parts?.index === undefined) {
+        report.unindexedFiles.push(filePath);
+        continue;
+      }
+      const index = Number(parts.index);
+      const key = `${parts.stem}\0${parts.suffix}`;
+      const sequence = sequences.get(key) ?? { stem: parts.stem, suffix: parts.suffix, indices: new Set<number>() };
+      sequence.indices.add(index);
+      sequences.set(key, sequence);
+
+      const stemIndex = `${parts.stem}\0${index}`;
+      const duplicate = byStemIndex.get(stemIndex) ?? { stem: parts.stem, index, paths: [] };
+      duplicate.paths.push(filePath);
+      byStemIndex.set(stemIndex, duplicate);
+
+      if (size === 0) {
+        report.emptyFiles.push(filePath);
+      } else {
+        const sizes = sizesBySuffix.get(parts.suffix) ?? [];
+        sizes.push(size);
+        sizesBySuffix.set(parts.suffix, sizes);
+        nonEmpty.push({ path: filePath, size, suffix: parts.suffix });
+      }
+    }
+
+    // Compared with the non-empty files of the same format only
+    const medians = new Map(Array.from(sizesBySuffix.entries(), ([suffix, sizes]) => [suffix, median(sizes)]));
+    for (const { path: filePath, size, suffix } of nonEmpty) {
+      const medianSize = medians.get(suffix)!;
+      if (size < medianSize * smallFileRatio) {
+        report.smallFiles.push({ path: filePath, size, medianSize });
+      }
+    }
+
+    for (const { stem, suffix, indices } of sequences.values()) {
+      const lastIndex = expectedFiles !== undefined ? firstIndex + expectedFiles - 1 : Math.max(...indices);
+      const missing: number[] = [];
+      for (let index = firstIndex; index <= lastIndex; index++) {
+        if (!indices.has(index)) {
+          missing.push(index);
+        }
+      }
+      report.sequences.push({ stem, suffix, fileCount: indices.size, firstIndex, lastIndex, missing });
+    }
+
+    report.sequences.sort((a, b) => a.stem.localeCompare(b.stem) || a.suffix.localeCompare(b.suffix));
+    report.emptyFiles.sort();
+    report.smallFiles.sort((a, b) => a.path.localeCompare(b.path));
+    report.duplicateIndices = Array.from(byStemIndex.values())
+      .filter(duplicate => duplicate.paths.length > 1)
+      .map(duplicate => ({ ...duplicate, paths: duplicate.paths.sort() }))
+      .sort((a, b) => a.stem.localeCompare(b.stem) || a.index - b.index);
+    report.unindexedFiles.sort();
+    return report;
   }
 
   // Summarize files added in time period
-  async summarizeRecentChanges(path: string, hours: number = 24): Promise<{
-    totalFilesAdded: number;
-    totalSizeAdded: number;
-    filesByExtension: Record<string, number>;
-    sizeByExtension: Record<string, number>;
-    filesByDirectory: Record<string, number>;
-    recentFiles: SearchResult[];
-  }> {
-    const recentFiles = await this.findRecentFiles(path, hours, true);
+  async summarizeRecentChanges(path: string, hours: number = 24, options: OperationOptions = {}): Promise<RecentChangesSummary> {
+    const { files: recentFiles, errors } = await this.collectRecentFiles(path, hours, true, options);
     
-    const summary = {
+    const summary: RecentChangesSummary = {
       totalFilesAdded: recentFiles.length,
       totalSizeAdded: 0,
       filesByExtension: {} as Record<string, number>,
@@ -608,6 +1798,9 @@ export class XRootDClient {
       summary.filesByDirectory[dir] = (summary.filesByDirectory[dir] || 0) + 1;
     }
 
+    if (errors.length > 0) {
+      summary.errors = errors;
+    }
     return summary;
   }
 }
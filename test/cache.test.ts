@@ -1,5 +1,13 @@
-import { describe, it } from 'node:test';
+import { describe, it, beforeEach, afterEach } from 'node:test';
 import assert from 'node:assert';
+import { mkdtemp, readFile, appendFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { DirectoryCache, JsonlCacheStore, StatCache, estimateListingBytes } from '../src/cache.js';
+import { untilAborted } from '../src/concurrency.js';
+import { MemoryBackend } from '../src/storage.js';
+import { XRootDClient } from '../src/xrootd.js';
+import type { DirectoryEntry, FileInfo } from '../src/xrootd.js';
 
 // Mock cache implementation for testing
 class LRUCache<K, V> {
@@ -214,3 +222,443 @@ describe('Cache Performance Tests', () => {
     assert.ok(duration < 100, `Cache overflow handling took ${duration}ms, expected < 100ms`);
   });
 });
+
+describe('DirectoryCache', () => {
+  const listing = (n: number): DirectoryEntry[] =>
+    Array.from({ length: n }, (_, i) => ({ name: `file${i}.root`, isDirectory: false, size: i }));
+
+  it('evicts the least recently used listing', () => {
+    const cache = new DirectoryCache(60, 3);
+    cache.set('/a', listing(1));
+    cache.set('/b', listing(1));
+    cache.set('/c', listing(1));
+    cache.get('/a'); // /b is now the least recently used
+    cache.set('/d', listing(1));
+
+    assert.ok(cache.get('/a'));
+    assert.equal(cache.get('/b'), null);
+    assert.ok(cache.get('/c'));
+    assert.ok(cache.get('/d'));
+    assert.equal(cache.getStats().evictions, 1);
+  });
+
+  it('counts hits, misses and expirations', async () => {
+    const cache = new DirectoryCache(0.001, 10); // 60ms TTL
+    assert.equal(cache.getStats().hitRate, undefined);
+    cache.set('/a', listing(2));
+    cache.get('/a');
+    cache.get('/a');
+    cache.get('/missing');
+    let stats = cache.getStats();
+    assert.deepEqual([stats.hits, stats.misses, stats.hitRate], [2, 1, 2 / 3]);
+
+    await new Promise(resolve => setTimeout(resolve, 100));
+    assert.equal(cache.get('/a'), null);
+    stats = cache.getStats();
+    assert.equal(stats.expirations, 1);
+    assert.equal(stats.misses, 2);
+    assert.equal(stats.size, 0);
+    assert.equal(stats.bytes, 0);
+  });
+
+  it('keeps the estimated memory within the byte budget', () => {
+    const perListing = estimateListingBytes('/a', listing(10));
+    const cache = new DirectoryCache(60, 1000, { maxBytes: perListing * 2 });
+    cache.set('/a', listing(10));
+    cache.set('/b', listing(10));
+    assert.equal(cache.getStats().bytes, perListing * 2);
+
+    cache.set('/c', listing(10));
+    const stats = cache.getStats();
+    assert.equal(stats.size, 2);
+    assert.equal(stats.evictions, 1);
+    assert.equal(cache.get('/a'), null);
+
+    // A listing larger than the whole budget is not cached at all
+    cache.set('/huge', listing(100));
+    assert.equal(cache.get('/huge'), null);
+    assert.equal(cache.getStats().size, 2);
+  });
+
+  it('replaces listings without double counting their size', () => {
+    const cache = new DirectoryCache(60, 10);
+    cache.set('/a', listing(5));
+    cache.set('/a', listing(1));
+    assert.equal(cache.getStats().bytes, estimateListingBytes('/a', listing(1)));
+    cache.invalidate('/a');
+    assert.equal(cache.getStats().bytes, 0);
+  });
+});
+
+describe('Stale-while-revalidate and negative caching', () => {
+  const BASE = '/work/eic2/EPIC';
+  const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+  // Counts listings so that tests can tell cache hits from server round trips
+  class CountingBackend extends MemoryBackend {
+    listings = 0;
+    async listDirectory(path: string, signal?: AbortSignal): Promise<DirectoryEntry[]> {
+      this.listings++;
+      return super.listDirectory(path, signal);
+    }
+  }
+
+  it('serves expired listings as stale within the stale TTL', async () => {
+    const cache = new DirectoryCache(0.0005, 10, { staleTTLMinutes: 60 }); // 30ms TTL
+    cache.set('/a', [{ name: 'x', isDirectory: false }]);
+    assert.deepEqual(cache.lookup('/a')?.stale, false);
+    await wait(60);
+    assert.deepEqual(cache.lookup('/a')?.stale, true);
+    assert.equal(cache.get('/a'), null, 'get only returns fresh listings');
+    assert.equal(cache.getStats().staleHits, 2);
+  });
+
+  it('returns the stale listing at once and refreshes it in the background', async () => {
+    const backend = new CountingBackend();
+    backend.addFile(`${BASE}/RECO/a.root`, 1);
+    const client = new XRootDClient('root://localhost', BASE, true, 0.0005, 1000, backend, { staleTTLMinutes: 60 });
+    await client.listDirectory('RECO');
+    backend.addFile(`${BASE}/RECO/b.root`, 1);
+    await wait(60);
+
+    const stale = await client.listDirectory('RECO');
+    assert.deepEqual(stale.map(e => e.name), ['a.root']);
+    await wait(10);
+    assert.equal(backend.listings, 2, 'refreshed exactly once');
+    assert.deepEqual((await client.listDirectory('RECO')).map(e => e.name), ['a.root', 'b.root']);
+    assert.equal(backend.listings, 2);
+  });
+
+  it('remembers missing paths for the negative TTL', async () => {
+    const backend = new CountingBackend();
+    const client = new XRootDClient('root://localhost', BASE, true, 60, 1000, backend, { negativeTTLSeconds: 0.05 });
+    await assert.rejects(client.listDirectory('RECO/typo'), /No such file/);
+    await assert.rejects(client.listDirectory('RECO/typo'), /No such file/);
+    assert.equal(backend.listings, 1);
+    assert.equal(client.getCacheStats().negativeHits, 1);
+
+    // Creating the directory is noticed once the negative entry expires
+    backend.addFile(`${BASE}/RECO/typo/a.root`, 1);
+    await wait(80);
+    assert.equal((await client.listDirectory('RECO/typo')).length, 1);
+
+    // Invalidation forgets missing paths too
+    await assert.rejects(client.listDirectory('RECO/other'));
+    backend.addFile(`${BASE}/RECO/other/a.root`, 1);
+    client.invalidateCache('RECO', true);
+    assert.equal((await client.listDirectory('RECO/other')).length, 1);
+  });
+
+  it('forgets missing paths that a fresh listing of their parent contains', async () => {
+    const backend = new CountingBackend();
+    const client = new XRootDClient('root://localhost', BASE, true, 60, 1000, backend, { negativeTTLSeconds: 60 });
+    await assert.rejects(client.getFileInfo('RECO/new.root'), /No such file/);
+    await assert.rejects(client.listDirectory('RECO/sub'), /No such file/);
+    assert.equal(client.getCacheStats().negativeEntries, 2);
+
+    backend.addFile(`${BASE}/RECO/new.root`, 5);
+    backend.addFile(`${BASE}/RECO/sub/a.root`, 1);
+    assert.deepEqual((await client.refreshDirectory('RECO')).map(e => e.name), ['new.root', 'sub']);
+    assert.equal(client.getCacheStats().negativeEntries, 0);
+    assert.equal((await client.getFileInfo('RECO/new.root')).size, 5);
+    assert.equal((await client.listDirectory('RECO/sub')).length, 1);
+  });
+
+  it('does not remember missing paths with a zero negative TTL', async () => {
+    const backend = new CountingBackend();
+    const client = new XRootDClient('root://localhost', BASE, true, 60, 1000, backend, { negativeTTLSeconds: 0 });
+    await assert.rejects(client.listDirectory('missing'));
+    await assert.rejects(client.listDirectory('missing'));
+    assert.equal(backend.listings, 2);
+    assert.equal(client.getCacheStats().negativeEntries, 0);
+  });
+});
+
+describe('Stat caching and listing reuse', () => {
+  const BASE = '/work/eic2/EPIC';
+  const DATASET = `${BASE}/RECO/24.07.0/DIS/18x275`;
+
+  // Counts server round trips by kind
+  class CountingBackend extends MemoryBackend {
+    listings = 0;
+    stats = 0;
+    async listDirectory(path: string, signal?: AbortSignal): Promise<DirectoryEntry[]> {
+      this.listings++;
+      return super.listDirectory(path, signal);
+    }
+    async stat(path: string, signal?: AbortSignal): Promise<FileInfo> {
+      this.stats++;
+      return super.stat(path, signal);
+    }
+  }
+
+  function setup(enableCache = true): { backend: CountingBackend; client: XRootDClient } {
+    const backend = new CountingBackend();
+    for (let i = 0; i < 5; i++) {
+      backend.addFile(`${DATASET}/f${i}.root`, 100 + i);
+      backend.addFile(`${BASE}/RECO/24.07.0/DIS/10x100/f${i}.root`, 200 + i);
+    }
+    return { backend, client: new XRootDClient('root://localhost', BASE, enableCache, 60, 1000, backend) };
+  }
+
+  it('caches stat results', async () => {
+    const { backend, client } = setup();
+    await client.getFileInfo(`${DATASET}/f1.root`);
+    const info = await client.getFileInfo(`${DATASET}/f1.root`);
+    assert.equal(info.size, 101);
+    assert.equal(backend.stats, 1);
+    assert.deepEqual(client.getCacheStats().stat, { size: 1, hits: 1, misses: 1 });
+  });
+
+  it('answers stat lookups from a cached parent listing', async () => {
+    const { backend, client } = setup();
+    await client.listDirectory(DATASET);
+    const info = await client.getFileInfo(`${DATASET}/f3.root`);
+    assert.equal(info.size, 103);
+    assert.equal(info.isDirectory, false);
+    assert.equal(backend.stats, 0);
+  });
+
+  it('lists each parent once instead of stat-ing every search result', async () => {
+    const { backend, client } = setup();
+    const results = await client.searchFiles('*.root', 'RECO');
+    assert.equal(results.length, 10);
+    assert.equal(results.find(r => r.path === `${DATASET}/f4.root`)?.size, 104);
+    assert.equal(backend.stats, 0);
+
+    // The parent listings are now cached for later stat lookups
+    await client.getFileInfo(`${BASE}/RECO/24.07.0/DIS/10x100/f2.root`);
+    assert.equal(backend.stats, 0);
+  });
+
+  it('refreshing a listing drops stale stat results of its entries', async () => {
+    const { backend, client } = setup();
+    await client.getFileInfo(`${DATASET}/f0.root`);
+    backend.addFile(`${DATASET}/f0.root`, 999);
+    await client.refreshDirectory(DATASET);
+    assert.equal((await client.getFileInfo(`${DATASET}/f0.root`)).size, 999);
+  });
+
+  it('remembers files that do not exist', async () => {
+    const { backend, client } = setup();
+    assert.equal(await client.fileExists('nope.root'), false);
+    assert.equal(await client.fileExists('nope.root'), false);
+    assert.equal(backend.stats, 1);
+  });
+
+  it('invalidates a directory and its direct or all entries', () => {
+    const cache = new StatCache(60, 100);
+    const info = (path: string): FileInfo => ({ path, size: 1, modificationTime: new Date(), isDirectory: false });
+    for (const path of ['/a', '/a/x', '/a/b/y', '/ab']) {
+      cache.set(path, info(path));
+    }
+    cache.invalidate('/a');
+    assert.equal(cache.get('/a/x'), null);
+    assert.ok(cache.get('/a/b/y'));
+    assert.ok(cache.get('/ab'));
+    cache.invalidate('/a', true);
+    assert.equal(cache.get('/a/b/y'), null);
+    assert.ok(cache.get('/ab'));
+  });
+});
+
+describe('Cache management', () => {
+  function setup(): { backend: MemoryBackend; client: XRootDClient } {
+    const backend = new MemoryBackend();
+    for (const campaign of ['24.07.0', '24.08.1']) {
+      for (const energy of ['10x100', '18x275']) {
+        backend.addFile(`/work/eic2/EPIC/RECO/${campaign}/DIS/${energy}/a.root`, 100);
+      }
+    }
+    backend.addFile('/work/eic2/EPIC/EVGEN/b.hepmc3', 10);
+    return { backend, client: new XRootDClient('root://localhost', '/work/eic2/EPIC', true, 60, 1000, backend) };
+  }
+
+  it('inspects and invalidates whole subtrees', async () => {
+    const { client } = setup();
+    for (const path of ['RECO', 'RECO/24.07.0', 'RECO/24.07.0/DIS', 'RECO/24.08.1', 'EVGEN']) {
+      await client.listDirectory(path);
+    }
+    const listings = client.inspectCache('RECO/24.07.0');
+    assert.deepEqual(listings.map(l => l.path), ['/work/eic2/EPIC/RECO/24.07.0/DIS', '/work/eic2/EPIC/RECO/24.07.0']);
+    assert.equal(listings[0].entryCount, 2);
+    assert.ok(listings[0].expiresInSeconds > 3500);
+
+    // "RECO/24.07" must not match the sibling "RECO/24.07.0"
+    assert.equal(client.invalidateCache('RECO/24.07', true), 0);
+    assert.equal(client.invalidateCache('RECO', false), 1);
+    assert.equal(client.invalidateCache('RECO/24.07.0', true), 2);
+    assert.deepEqual(client.inspectCache().map(l => l.path).sort(), ['/work/eic2/EPIC/EVGEN', '/work/eic2/EPIC/RECO/24.08.1']);
+  });
+
+  it('prewarms listings down to the requested depth', async () => {
+    const { backend, client } = setup();
+    const job = client.prewarmCache('RECO', 1);
+    assert.strictEqual(client.prewarmCache('RECO', 1), job, 'a running walk is reused');
+    const controller = new AbortController();
+    const waiting = untilAborted(job.done, controller.signal);
+    controller.abort();
+    await assert.rejects(waiting);
+    await job.done;
+    assert.ok(job.finishedAt);
+    assert.equal(job.error, undefined, 'cancelling a waiter does not cancel the shared walk');
+    assert.equal(job.directories, 3);
+    assert.deepEqual(client.inspectCache().map(l => l.path).sort(), [
+      '/work/eic2/EPIC/RECO',
+      '/work/eic2/EPIC/RECO/24.07.0',
+      '/work/eic2/EPIC/RECO/24.08.1',
+    ]);
+
+    // Served from the cache now, so new files stay invisible until invalidated
+    backend.addFile('/work/eic2/EPIC/RECO/24.09.0/DIS/x.root', 1);
+    assert.equal((await client.listDirectory('RECO')).length, 2);
+    assert.deepEqual(client.getPrewarmJobs(), [job]);
+  });
+
+  it('records prewarm failures and refuses when caching is disabled', async () => {
+    const { client } = setup();
+    const job = client.prewarmCache('MISSING', 2);
+    await job.done;
+    assert.match(job.error ?? '', /No such file/);
+
+    const uncached = new XRootDClient('root://localhost', '/work/eic2/EPIC', false, 60, 1000, new MemoryBackend());
+    assert.throws(() => uncached.prewarmCache('.', 1), /cache is disabled/);
+  });
+});
+
+describe('Persistent directory cache', () => {
+  const SOURCE = 'root://dtn-eic.jlab.org';
+  const MTIME = new Date('2026-03-01T12:34:56.789Z');
+  const ENTRIES: DirectoryEntry[] = [
+    { name: 'a.root', isDirectory: false, size: 100, modificationTime: MTIME },
+    { name: 'sub', isDirectory: true },
+  ];
+  let cacheDir: string;
+
+  beforeEach(async () => {
+    cacheDir = await mkdtemp(join(tmpdir(), 'xrootd-cache-'));
+    stores = [];
+  });
+
+  afterEach(async () => {
+    await flushed();
+    await rm(cacheDir, { recursive: true, force: true });
+  });
+
+  let stores: JsonlCacheStore[];
+
+  function openStore(source = SOURCE, compactBytes?: number): JsonlCacheStore {
+    const store = new JsonlCacheStore(cacheDir, 'jlab', source, compactBytes);
+    stores.push(store);
+    return store;
+  }
+
+  function openCache(ttlMinutes = 60, maxSize = 1000, source = SOURCE): DirectoryCache {
+    return new DirectoryCache(ttlMinutes, maxSize, { store: openStore(source) });
+  }
+
+  /** Wait until every cache opened so far has written to disk. */
+  async function flushed(): Promise<void> {
+    await Promise.all(stores.map(store => store.flush()));
+  }
+
+  it('restores listings, including modification times, after a restart', async () => {
+    openCache().set('/work/eic2/EPIC/RECO', ENTRIES);
+    await flushed();
+
+    const entries = openCache().get('/work/eic2/EPIC/RECO');
+    assert.ok(entries);
+    assert.ok(entries[0].modificationTime instanceof Date);
+    assert.equal(entries[0].modificationTime.toISOString(), MTIME.toISOString());
+    assert.deepEqual(entries, ENTRIES);
+  });
+
+  it('writes buffered records only in the background', async () => {
+    const cache = openCache();
+    await flushed();
+    const before = await readFile(stores[0].file, 'utf-8');
+    cache.set('/a', ENTRIES);
+    assert.equal(await readFile(stores[0].file, 'utf-8'), before);
+
+    await flushed();
+    assert.ok((await readFile(stores[0].file, 'utf-8')).length > before.length);
+  });
+
+  it('forgets invalidated and cleared listings', async () => {
+    const cache = openCache();
+    cache.set('/a', ENTRIES);
+    cache.set('/b', ENTRIES);
+    cache.invalidate('/a');
+    await flushed();
+    assert.equal(openCache().get('/a'), null);
+    assert.deepEqual(openCache().get('/b'), ENTRIES);
+    await flushed();
+
+    openCache().clear();
+    await flushed();
+    assert.equal(openCache().get('/b'), null);
+  });
+
+  it('applies the TTL and max size to restored listings', async () => {
+    const cache = openCache();
+    for (const path of ['/a', '/b', '/c']) {
+      cache.set(path, ENTRIES);
+    }
+    await flushed();
+    const restored = openCache(60, 2);
+    assert.equal(restored.getStats().size, 2);
+    assert.equal(restored.get('/a'), null, 'the oldest listing is dropped');
+    await flushed();
+
+    await new Promise(resolve => setTimeout(resolve, 20));
+    assert.equal(openCache(0.0001).getStats().size, 0);
+  });
+
+  it('keeps separate files per server and discards them when the server changes', async () => {
+    openCache().set('/a', ENTRIES);
+    await flushed();
+    const other = new DirectoryCache(60, 1000, { store: new JsonlCacheStore(cacheDir, 'bnl', SOURCE) });
+    assert.equal(other.get('/a'), null);
+    assert.equal(openCache(60, 1000, 'root://other.example.org').get('/a'), null);
+  });
+
+  it('compacts the file on startup and survives a torn last line', async () => {
+    const cache = openCache();
+    for (let i = 0; i < 5; i++) {
+      cache.set('/a', ENTRIES);
+    }
+    await flushed();
+    const store = new JsonlCacheStore(cacheDir, 'jlab', SOURCE);
+    await appendFile(store.file, '{"op":"set","path":"/b","cachedAt');
+
+    assert.deepEqual(openCache().get('/a'), ENTRIES);
+    await flushed();
+    const lines = (await readFile(store.file, 'utf-8')).trim().split('\n');
+    assert.equal(lines.length, 2, 'header plus one listing');
+  });
+
+  it('compacts the file once enough has been appended to it', async () => {
+    const cache = new DirectoryCache(60, 1000, { store: openStore(SOURCE, 1000) });
+    for (let i = 0; i < 50; i++) {
+      cache.set('/a', ENTRIES);
+    }
+    await flushed();
+
+    const lines = (await readFile(stores[0].file, 'utf-8')).trim().split('\n');
+    assert.ok(lines.length < 10, `expected a compacted file, got ${lines.length} lines`);
+    assert.deepEqual(openCache().get('/a'), ENTRIES);
+  });
+
+  it('serves an XRootDClient listing from the previous run without hitting the backend', async () => {
+    const backend = new MemoryBackend();
+    backend.addFile('/work/eic2/EPIC/RECO/a.root', 100, MTIME);
+    const client = () => new XRootDClient(SOURCE, '/work/eic2/EPIC', true, 60, 1000, backend, { store: openStore() });
+    await client().listDirectory('RECO');
+    await flushed();
+
+    backend.addFile('/work/eic2/EPIC/RECO/b.root', 200);
+    const entries = await client().listDirectory('RECO');
+    assert.deepEqual(entries.map(e => e.name), ['a.root']);
+    assert.equal(entries[0].modificationTime?.toISOString(), MTIME.toISOString());
+  });
+});
@@ -0,0 +1,65 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import { MemoryBackend } from '../src/storage.js';
+import { XRootDClient } from '../src/xrootd.js';
+
+const BASE = '/work/eic2/EPIC';
+
+function setup(): XRootDClient {
+  const backend = new MemoryBackend();
+  const add = (campaign: string, dataset: string, file: string, size: number): void => {
+    backend.addFile(`${BASE}/RECO/${campaign}/${dataset}/${file}`, size);
+  };
+  for (const campaign of ['24.06.0', '24.07.0']) {
+    add(campaign, 'epic_craterlake/DIS/NC', '10x100/minQ2=1/a.root', 1000);
+    add(campaign, 'epic_craterlake/DIS/CC', '18x275/minQ2=1/a.root', 2000);
+  }
+  add('24.07.0', 'epic_craterlake/DIS/CC', '18x275/minQ2=1/b.root', 500);
+  add('24.06.0', 'epic_craterlake/SIDIS/pythia6', 'ep_10x100/c.root', 300);
+  add('24.07.0', 'epic_brycecanyon/DIS/NC', '18x275/d.root', 700);
+  backend.addDirectory(`${BASE}/RECO/24.07.0/epic_craterlake/EXCLUSIVE/DVCS`);
+  backend.addFile(`${BASE}/RECO/24.07.0/epic_craterlake/README.txt`, 'Campaign 24.07.0\n');
+  return new XRootDClient('root://localhost', BASE, false, 60, 1000, backend);
+}
+
+describe('XRootDClient.compareCampaigns', () => {
+  it('aligns datasets and reports added, removed and changed ones', async () => {
+    const comparison = await setup().compareCampaigns('24.06.0', '24.07.0');
+    assert.deepEqual(
+      comparison.datasets.map(d => [d.name, d.status, d.fileCountDelta, d.totalSizeDelta]),
+      [
+        ['epic_brycecanyon/DIS/NC/18x275', 'added', 1, 700],
+        ['epic_craterlake/DIS/CC/18x275/minQ2=1', 'changed', 1, 500],
+        ['epic_craterlake/DIS/NC/10x100/minQ2=1', 'unchanged', 0, 0],
+        ['epic_craterlake/EXCLUSIVE/DVCS', 'added', 0, 0],
+        ['epic_craterlake/SIDIS/pythia6/ep_10x100', 'removed', -1, -300],
+      ]
+    );
+    const changed = comparison.datasets[1];
+    assert.deepEqual(changed.base, { path: `${BASE}/RECO/24.06.0/epic_craterlake/DIS/CC/18x275/minQ2=1`, fileCount: 1, totalSize: 2000 });
+    assert.equal(changed.fields?.hadronEnergy, '275');
+    assert.equal(changed.fields?.minQ2, '1');
+    assert.equal(changed.target!.fileCount, 2);
+    assert.equal(changed.eventsDelta, undefined);
+    assert.deepEqual(comparison.errors, []);
+  });
+
+  it('reports event deltas when given an event counter', async () => {
+    const counted: string[] = [];
+    const comparison = await setup().compareCampaigns('24.06.0', '24.07.0', {
+      countEvents: async path => {
+        counted.push(path);
+        return path === `${BASE}/RECO/24.07.0/epic_craterlake/DIS/NC/10x100/minQ2=1` ? 90 : 100;
+      },
+    });
+    assert.equal(counted.length, 7);
+    const nc = comparison.datasets.find(d => d.name === 'epic_craterlake/DIS/NC/10x100/minQ2=1')!;
+    assert.equal(nc.status, 'changed');
+    assert.equal(nc.eventsDelta, -10);
+    assert.equal(comparison.datasets.find(d => d.status === 'removed')!.eventsDelta, -100);
+  });
+
+  it('fails for a missing campaign', async () => {
+    await assert.rejects(setup().compareCampaigns('24.06.0', '25.01.0'), /Failed to compare campaigns 24.06.0 and 25.01.0/);
+  });
+});
@@ -0,0 +1,177 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import {
+  adler32,
+  Checksum,
+  crc32c,
+  createChecksumHasher,
+  formatHex32,
+  MAX_MANIFEST_BYTES,
+  parseChecksum,
+  parseManifest,
+  sampleRanges,
+  SAMPLE_BYTES,
+} from '../src/checksum.js';
+import { MemoryBackend } from '../src/storage.js';
+import { XRootDClient } from '../src/xrootd.js';
+
+const BASE = '/work/eic2/EPIC';
+const DATASET = `${BASE}/RECO/24.07.0/DIS/10x100`;
+
+function checksumOf(algorithm: string, text: string): string {
+  const hasher = createChecksumHasher(algorithm);
+  hasher.update(Buffer.from(text));
+  return hasher.digest().value;
+}
+
+describe('checksums', () => {
+  it('computes adler32 in one pass or in chunks', () => {
+    const data = Buffer.from('Wikipedia');
+    assert.equal(formatHex32(adler32(data)), '11e60398');
+    assert.equal(adler32(data.subarray(4), adler32(data.subarray(0, 4))), adler32(data));
+  });
+
+  it('computes crc32c and md5', () => {
+    const data = Buffer.from('123456789');
+    assert.equal(crc32c(data), 0xe3069283);
+    assert.equal(crc32c(data.subarray(5), crc32c(data.subarray(0, 5))), crc32c(data));
+    assert.equal(checksumOf('crc32c', '123456789'), 'e3069283');
+    assert.equal(checksumOf('md5', ''), 'd41d8cd98f00b204e9800998ecf8427e');
+    assert.throws(() => createChecksumHasher('sha1'), /Unsupported checksum algorithm: sha1/);
+  });
+
+  it('parses xrdfs and kXR_Qcksum responses', () => {
+    assert.deepEqual(parseChecksum('adler32 0A1B2C3D\0'), { algorithm: 'adler32', value: '0a1b2c3d' });
+    assert.throws(() => parseChecksum('not supported'), /Unexpected checksum response/);
+  });
+
+  it('samples the start, middle and end of large files', () => {
+    assert.deepEqual(sampleRanges(10), [{ start: 0, end: 10 }]);
+    assert.deepEqual(sampleRanges(4 * SAMPLE_BYTES).map(r => r.end - r.start), [SAMPLE_BYTES, SAMPLE_BYTES, SAMPLE_BYTES]);
+  });
+});
+
+describe('parseManifest', () => {
+  const expected = [
+    { path: 'a.root', algorithm: 'adler32', value: '0a1b2c3d' },
+    { path: 'sub/b.root', algorithm: 'adler32', value: '00001234' },
+  ];
+
+  it('reads JSON arrays, file lists and path maps', () => {
+    assert.deepEqual(parseManifest('[{"path": "a.root", "adler32": "0A1B2C3D"}, {"file": "sub/b.root", "checksum": "1234"}]'), expected);
+    assert.deepEqual(parseManifest('{"files": [{"name": "a.root", "checksum": "0a1b2c3d"}, {"path": "sub/b.root", "adler32": "0x1234"}]}'), expected);
+    assert.deepEqual(parseManifest('{"a.root": "0a1b2c3d", "sub/b.root": {"adler32": "1234"}}'), expected);
+    assert.deepEqual(
+      parseManifest('[{"path": "a.root", "checksum": "ABC", "algorithm": "MD5"}]'),
+      [{ path: 'a.root', algorithm: 'md5', value: 'abc' }]
+    );
+  });
+
+  it('reads CSV, TSV and md5sum-style text', () => {
+    assert.deepEqual(parseManifest('# produced by the campaign\npath,adler32\na.root,0a1b2c3d\n"sub/b.root",1234\n'), expected);
+    assert.deepEqual(parseManifest('a.root\t0a1b2c3d\r\nsub/b.root\t1234\r\n'), expected);
+    assert.deepEqual(
+      parseManifest('d41d8cd98f00b204e9800998ecf8427e  a.root\n', 'md5'),
+      [{ path: 'a.root', algorithm: 'md5', value: 'd41d8cd98f00b204e9800998ecf8427e' }]
+    );
+    assert.deepEqual(parseManifest('file,crc32c,adler32\na.root,e3069283,0a1b2c3d\n', 'adler32')[0].algorithm, 'adler32');
+  });
+
+  it('reports malformed entries', () => {
+    assert.throws(() => parseManifest('a.root\n'), /Invalid manifest: line 1 needs a path and a checksum/);
+    assert.throws(() => parseManifest('path,adler32\na.root,xyz\n'), /line 2 has no hexadecimal checksum/);
+    assert.throws(() => parseManifest('[{"adler32": "1234"}]'), /entry 1 has no path/);
+    assert.throws(() => parseManifest('[1, 2'), /Invalid manifest/);
+  });
+});
+
+describe('XRootDClient checksums', () => {
+  function setup(manifest: string): XRootDClient {
+    const backend = new MemoryBackend();
+    backend.addFile(`${DATASET}/a.edm4eic.root`, 'events a');
+    backend.addFile(`${DATASET}/b.edm4eic.root`, 'events b');
+    backend.addFile(`${DATASET}/c.edm4eic.root`, 'events c');
+    backend.addFile(`${DATASET}/manifest.csv`, manifest);
+    return new XRootDClient('root://localhost', BASE, false, 60, 1000, backend);
+  }
+
+  it('returns server checksums in the requested algorithm', async () => {
+    const client = setup('');
+    const path = 'RECO/24.07.0/DIS/10x100/a.edm4eic.root';
+    assert.deepEqual(await client.getChecksum(path), { algorithm: 'adler32', value: checksumOf('adler32', 'events a') });
+    assert.deepEqual(await client.getChecksum(path, 'md5'), { algorithm: 'md5', value: checksumOf('md5', 'events a') });
+    await assert.rejects(client.getChecksum('RECO/missing.root'), /Failed to get checksum for RECO\/missing.root: .*No such file/);
+  });
+
+  it('reports mismatched and missing files of a manifest', async () => {
+    const client = setup([
+      'path,adler32',
+      `a.edm4eic.root,${checksumOf('adler32', 'events a')}`,
+      `b.edm4eic.root,${checksumOf('adler32', 'corrupted')}`,
+      `${DATASET}/c.edm4eic.root,${checksumOf('adler32', 'events c')}`,
+      `d.edm4eic.root,${checksumOf('adler32', 'events d')}`,
+    ].join('\n'));
+
+    const result = await client.verifyChecksums('RECO/24.07.0/DIS/10x100/manifest.csv');
+    assert.equal(result.datasetPath, DATASET);
+    assert.equal(result.listed, 4);
+    assert.equal(result.verified, 2);
+    assert.deepEqual(result.mismatches, [{
+      path: `${DATASET}/b.edm4eic.root`,
+      algorithm: 'adler32',
+      expected: checksumOf('adler32', 'corrupted'),
+      actual: checksumOf('adler32', 'events b'),
+    }]);
+    assert.deepEqual(result.missing, [`${DATASET}/d.edm4eic.root`]);
+    assert.deepEqual(result.errors, []);
+  });
+
+  it('resolves manifest paths against datasetPath within the base directory', async () => {
+    const client = setup(`DIS/10x100/a.edm4eic.root,${checksumOf('crc32c', 'events a')}\n`);
+    const result = await client.verifyChecksums('RECO/24.07.0/DIS/10x100/manifest.csv', {
+      datasetPath: 'RECO/24.07.0',
+      algorithm: 'crc32c',
+    });
+    assert.equal(result.verified, 1);
+
+    const escaping = setup(`../../../../../../etc/passwd,00000001\n`);
+    await assert.rejects(escaping.verifyChecksums('RECO/24.07.0/DIS/10x100/manifest.csv'), /Access denied/);
+    await assert.rejects(escaping.verifyChecksums('RECO/none.csv'), /Failed to read checksum manifest RECO\/none.csv/);
+  });
+
+  it('refuses manifests larger than the manifest limit', async () => {
+    const backend = new MemoryBackend();
+    backend.addFile(`${DATASET}/a.edm4eic.root`, MAX_MANIFEST_BYTES + 1);
+    const client = new XRootDClient('root://localhost', BASE, false, 60, 1000, backend);
+    await assert.rejects(
+      client.verifyChecksums('RECO/24.07.0/DIS/10x100/a.edm4eic.root'),
+      /Failed to read checksum manifest .*larger than the 1048576-byte manifest limit/
+    );
+  });
+
+  it('reports checksums the server cannot compute in the requested algorithm', async () => {
+    // Answers in upper-case adler32 whatever it is asked for
+    class Adler32OnlyBackend extends MemoryBackend {
+      async checksum(path: string, _algorithm?: string, signal?: AbortSignal): Promise<Checksum> {
+        const { algorithm, value } = await super.checksum(path, 'adler32', signal);
+        return { algorithm, value: value.toUpperCase() };
+      }
+    }
+    const backend = new Adler32OnlyBackend();
+    backend.addFile(`${DATASET}/a.edm4eic.root`, 'events a');
+    backend.addFile(`${DATASET}/b.edm4eic.root`, 'events b');
+    backend.addFile(`${DATASET}/manifest.json`, JSON.stringify([
+      { path: 'a.edm4eic.root', adler32: checksumOf('adler32', 'events a') },
+      { path: 'b.edm4eic.root', md5: checksumOf('md5', 'events b') },
+    ]));
+    const client = new XRootDClient('root://localhost', BASE, false, 60, 1000, backend);
+
+    const result = await client.verifyChecksums('RECO/24.07.0/DIS/10x100/manifest.json');
+    assert.equal(result.verified, 1);
+    assert.deepEqual(result.mismatches, []);
+    assert.deepEqual(result.errors, [{
+      path: `${DATASET}/b.edm4eic.root`,
+      error: 'checksum algorithm md5 unavailable: the server answered with adler32',
+    }]);
+  });
+});
@@ -0,0 +1,67 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import { MemoryBackend } from '../src/storage.js';
+import { XRootDClient } from '../src/xrootd.js';
+
+const BASE = '/work/eic2/EPIC';
+const DATASET = 'RECO/24.07.0/epic_craterlake/DIS/NC/18x275/minQ2=10';
+const STEM = 'pythia8NCDIS_18x275_minQ2=10_beamEffects_xAngle=-0.025_hiDiv';
+
+function setup(): XRootDClient {
+  const backend = new MemoryBackend();
+  const add = (run: number, index: number, size: number, suffix = '.eicrecon.tree.edm4eic.root'): void => {
+    backend.addFile(`${BASE}/${DATASET}/${STEM}_${run}.${String(index).padStart(4, '0')}${suffix}`, size);
+  };
+  // Run 1: index 2 never arrived, index 4 is empty and index 5 truncated
+  for (const index of [0, 1, 3, 6]) {
+    add(1, index, 1000 + index);
+  }
+  add(1, 4, 0);
+  add(1, 5, 300);
+  // Run 2 is complete, but index 1 was also written in another format
+  for (const index of [0, 1, 2]) {
+    add(2, index, 1000);
+  }
+  add(2, 1, 50, '.podio.root');
+  backend.addFile(`${BASE}/${DATASET}/job.log`, 'done\n');
+  backend.addDirectory(`${BASE}/${DATASET}/logs`);
+  return new XRootDClient('root://localhost', BASE, false, 60, 1000, backend);
+}
+
+describe('XRootDClient.checkDatasetCompleteness', () => {
+  it('reports missing indices, empty and small files and duplicated indices', async () => {
+    const report = await setup().checkDatasetCompleteness(DATASET);
+    const path = (run: number, index: number, suffix = '.eicrecon.tree.edm4eic.root') =>
+      `${BASE}/${DATASET}/${STEM}_${run}.${String(index).padStart(4, '0')}${suffix}`;
+
+    assert.equal(report.fileCount, 11);
+    assert.deepEqual(
+      report.sequences.map(s => [s.stem, s.suffix, s.fileCount, s.firstIndex, s.lastIndex, s.missing]),
+      [
+        [`${STEM}_1`, '.eicrecon.tree.edm4eic.root', 6, 0, 6, [2]],
+        [`${STEM}_2`, '.eicrecon.tree.edm4eic.root', 3, 0, 2, []],
+        [`${STEM}_2`, '.podio.root', 1, 0, 1, [0]],
+      ]
+    );
+    assert.deepEqual(report.emptyFiles, [path(1, 4)]);
+    // The median of the eicrecon files is 1000, the podio file only has itself to compare with
+    assert.deepEqual(report.smallFiles, [{ path: path(1, 5), size: 300, medianSize: 1000 }]);
+    assert.deepEqual(report.duplicateIndices, [
+      { stem: `${STEM}_2`, index: 1, paths: [path(2, 1), path(2, 1, '.podio.root')] },
+    ]);
+    assert.deepEqual(report.unindexedFiles, [`${BASE}/${DATASET}/job.log`]);
+  });
+
+  it('finds files missing at the end of a sequence only when told how many to expect', async () => {
+    const report = await setup().checkDatasetCompleteness(DATASET, { expectedFiles: 5, smallFileRatio: 0 });
+    assert.deepEqual(report.sequences.map(s => s.missing), [[2], [3, 4], [0, 2, 3, 4]]);
+    assert.deepEqual(report.smallFiles, []);
+  });
+
+  it('rejects invalid options and missing directories', async () => {
+    const client = setup();
+    await assert.rejects(client.checkDatasetCompleteness(DATASET, { expectedFiles: 0 }), /Invalid "expectedFiles" parameter/);
+    await assert.rejects(client.checkDatasetCompleteness(DATASET, { smallFileRatio: 2 }), /Invalid "smallFileRatio" parameter/);
+    await assert.rejects(client.checkDatasetCompleteness('RECO/25.01.0'), /Failed to list directory RECO\/25.01.0/);
+  });
+});
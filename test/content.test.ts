@@ -0,0 +1,81 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import { encodeContent, hexDump, isLikelyBinary, trimToCharBoundary } from '../src/content.js';
+import { MemoryBackend } from '../src/storage.js';
+import { XRootDClient } from '../src/xrootd.js';
+
+describe('isLikelyBinary', () => {
+  it('accepts text, including UTF-8 and ANSI escapes', () => {
+    assert.equal(isLikelyBinary(Buffer.from('# EPIC\nminQ2=1\tok\r\n')), false);
+    assert.equal(isLikelyBinary(Buffer.from('Überprüfung – θ = 0.025 rad\n')), false);
+    assert.equal(isLikelyBinary(Buffer.from('\x1b[32mINFO\x1b[0m done\n')), false);
+    assert.equal(isLikelyBinary(Buffer.alloc(0)), false);
+  });
+
+  it('flags NUL bytes, invalid UTF-8 and control characters', () => {
+    assert.equal(isLikelyBinary(Buffer.from('root\0file')), true);
+    assert.equal(isLikelyBinary(Buffer.from([0x72, 0x6f, 0xff, 0xfe, 0x74])), true);
+    assert.equal(isLikelyBinary(Buffer.from([0x01, 0x02, 0x03, 0x41, 0x42, 0x43])), true);
+  });
+
+  it('tolerates a character split at the end of the sample', () => {
+    const text = Buffer.from('angle θ');
+    assert.equal(isLikelyBinary(text.subarray(0, text.length - 1)), false);
+  });
+});
+
+describe('trimToCharBoundary', () => {
+  it('drops an incomplete trailing sequence only', () => {
+    const text = Buffer.from('a€'); // € is 3 bytes
+    assert.equal(trimToCharBoundary(text).toString(), 'a€');
+    assert.equal(trimToCharBoundary(text.subarray(0, 3)).toString(), 'a');
+    assert.equal(trimToCharBoundary(text.subarray(0, 2)).toString(), 'a');
+    assert.equal(trimToCharBoundary(Buffer.from('abc')).toString(), 'abc');
+  });
+});
+
+describe('encodeContent', () => {
+  it('formats hex dumps with absolute offsets', () => {
+    const dump = hexDump(Buffer.from('0123456789abcdefXY'), 0x100);
+    assert.equal(
+      dump,
+      '00000100  30 31 32 33 34 35 36 37  38 39 61 62 63 64 65 66  |0123456789abcdef|\n' +
+      '00000110  58 59                                             |XY|'
+    );
+  });
+
+  it('supports base64 and utf-8', () => {
+    const data = Buffer.from([0x00, 0xff, 0x41]);
+    assert.equal(encodeContent(data, 'base64'), 'AP9B');
+    assert.equal(encodeContent(Buffer.from('EPIC'), 'utf-8'), 'EPIC');
+  });
+});
+
+describe('XRootDClient.readFileChunk', () => {
+  const backend = new MemoryBackend();
+  backend.addFile('/data/run.log', 'abcdefghij');
+  const client = new XRootDClient('root://localhost', '/data', false, 60, 1000, backend);
+
+  it('caps the read and reports the remaining range', async () => {
+    const chunk = await client.readFileChunk('run.log', 2, undefined, 4);
+    assert.equal(chunk.data.toString(), 'cdef');
+    assert.deepEqual([chunk.start, chunk.end, chunk.size, chunk.hasMore], [2, 6, 10, true]);
+  });
+
+  it('stops at the requested end and at end of file', async () => {
+    const bounded = await client.readFileChunk('run.log', 2, 5, 100);
+    assert.equal(bounded.data.toString(), 'cde');
+    assert.equal(bounded.hasMore, false);
+
+    const tail = await client.readFileChunk('run.log', 8, undefined, 100);
+    assert.equal(tail.data.toString(), 'ij');
+    assert.equal(tail.hasMore, false);
+
+    const past = await client.readFileChunk('run.log', 50, undefined, 100);
+    assert.equal(past.data.length, 0);
+  });
+
+  it('refuses directories', async () => {
+    await assert.rejects(client.readFileChunk('/data', 0, undefined, 10), /is a directory/);
+  });
+});
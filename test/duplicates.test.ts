@@ -0,0 +1,73 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import { SAMPLE_BYTES } from '../src/checksum.js';
+import { MemoryBackend } from '../src/storage.js';
+import { XRootDClient } from '../src/xrootd.js';
+
+const BASE = '/work/eic2/EPIC';
+const LARGE = 4 * SAMPLE_BYTES;
+
+function setup(): { backend: MemoryBackend; client: XRootDClient } {
+  const backend = new MemoryBackend();
+  // The same output copied into two campaigns
+  for (const campaign of ['24.07.0', '24.08.1']) {
+    backend.addFile(`${BASE}/RECO/${campaign}/DIS/10x100/a.edm4eic.root`, 'same reconstructed events');
+  }
+  backend.addFile(`${BASE}/RECO/24.08.1/DIS/18x275/b.edm4eic.root`, 'other reconstructed event');
+  // Large files that differ only outside the sampled ranges
+  const large = Buffer.alloc(LARGE, 1);
+  const changed = Buffer.from(large);
+  changed[SAMPLE_BYTES + 10] = 2;
+  backend.addFile(`${BASE}/RECO/24.07.0/DIS/10x100/big.edm4eic.root`, large);
+  backend.addFile(`${BASE}/RECO/24.08.1/DIS/10x100/big.edm4eic.root`, changed);
+  backend.addFile(`${BASE}/RECO/24.07.0/DIS/10x100/empty.log`, '');
+  backend.addFile(`${BASE}/RECO/24.08.1/DIS/10x100/empty.log`, '');
+  return { backend, client: new XRootDClient('root://localhost', BASE, false, 60, 1000, backend) };
+}
+
+describe('findDuplicates', () => {
+  it('groups identical files across campaigns by checksum', async () => {
+    const { client } = setup();
+    const report = await client.findDuplicates(['RECO/24.07.0', 'RECO/24.08.1']);
+
+    assert.equal(report.filesScanned, 7);
+    // Empty files are skipped; both 25-byte and both large files are compared
+    assert.equal(report.candidates, 5);
+    assert.equal(report.groups.length, 1);
+    const [group] = report.groups;
+    assert.equal(group.method, 'checksum');
+    assert.match(group.fingerprint, /^adler32:[0-9a-f]{8}$/);
+    assert.deepEqual(group.paths, [
+      `${BASE}/RECO/24.07.0/DIS/10x100/a.edm4eic.root`,
+      `${BASE}/RECO/24.08.1/DIS/10x100/a.edm4eic.root`,
+    ]);
+    assert.equal(group.wastedBytes, group.size);
+    assert.equal(report.totalWastedBytes, group.size);
+  });
+
+  it('falls back to sampled hashes, which only compare part of large files', async () => {
+    const { backend, client } = setup();
+    const report = await client.findDuplicates(['RECO'], { method: 'sampled' });
+    assert.deepEqual(report.groups.map(g => [g.size, g.paths.length]), [[LARGE, 2], [25, 2]]);
+    assert.ok(report.groups.every(g => g.method === 'sampled'));
+
+    Object.assign(backend, { checksum: undefined });
+    const auto = await client.findDuplicates(['RECO']);
+    assert.equal(auto.groups[0].method, 'sampled');
+    await assert.rejects(client.findDuplicates(['RECO'], { method: 'checksum' }), /cannot report checksums/);
+  });
+
+  it('does not count files twice when paths overlap', async () => {
+    const { client } = setup();
+    const report = await client.findDuplicates(['RECO', 'RECO/24.07.0'], { minSize: 0 });
+    assert.equal(report.filesScanned, 7);
+    assert.deepEqual(report.groups.map(g => g.paths.length), [2, 2]);
+    assert.equal(report.groups[1].wastedBytes, 0);
+  });
+
+  it('reports missing paths', async () => {
+    const { client } = setup();
+    await assert.rejects(client.findDuplicates(['RECO/25.01.0']), /Failed to find duplicates/);
+    await assert.rejects(client.findDuplicates([]), /At least one path/);
+  });
+});
@@ -0,0 +1,67 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import { groupByFileField, matchesFileFields, parseEpicFileName } from '../src/filename.js';
+
+describe('parseEpicFileName', () => {
+  it('parses reconstructed DIS file names', () => {
+    assert.deepEqual(
+      parseEpicFileName('pythia8NCDIS_18x275_minQ2=0.001_beamEffects_xAngle=-0.025_hiDiv_1.0000.eicrecon.tree.edm4eic.root'),
+      {
+        generator: 'pythia8',
+        process: 'NCDIS',
+        beamEnergy: '18x275',
+        electronEnergy: 18,
+        hadronEnergy: 275,
+        minQ2: 0.001,
+        beamEffects: true,
+        crossingAngle: -0.025,
+        divergence: 'hiDiv',
+        run: 1,
+        fileIndex: 0,
+        format: 'edm4eic',
+        producer: 'eicrecon',
+      }
+    );
+  });
+
+  it('parses Q2 ranges, run numbers and generator output', () => {
+    const sidis = parseEpicFileName('pythia_ep_noradcor_18x275_q2_0.000000001_1.0_run39_10runs.0012.eicrecon.tree.edm4eic.root')!;
+    assert.equal(sidis.generator, 'pythia');
+    assert.equal(sidis.process, undefined);
+    assert.deepEqual([sidis.q2Min, sidis.q2Max, sidis.run, sidis.fileIndex], [1e-9, 1, 39, 12]);
+    assert.deepEqual(sidis.tags, ['ep', 'noradcor', '10runs']);
+
+    const evgen = parseEpicFileName('pythia8NCDIS_10x100_minQ2=1_beamEffects_xAngle=-0.025_hiDiv_2.hepmc3.tree.root')!;
+    assert.deepEqual([evgen.run, evgen.fileIndex, evgen.format, evgen.producer], [2, undefined, 'hepmc3', undefined]);
+  });
+
+  it('ignores names without EPIC metadata', () => {
+    assert.equal(parseEpicFileName('job.log'), undefined);
+    assert.equal(parseEpicFileName('README.md'), undefined);
+    assert.equal(parseEpicFileName('no_extension'), undefined);
+  });
+});
+
+describe('file name fields', () => {
+  const files = [
+    { size: 10, fields: parseEpicFileName('pythia8NCDIS_18x275_minQ2=1_beamEffects_xAngle=-0.025_hiDiv_1.0000.eicrecon.tree.edm4eic.root') },
+    { size: 20, fields: parseEpicFileName('pythia8NCDIS_18x275_minQ2=10_beamEffects_xAngle=-0.025_hiDiv_1.0000.eicrecon.tree.edm4eic.root') },
+    { size: 30, fields: parseEpicFileName('pythia8NCDIS_10x100_minQ2=1_beamEffects_xAngle=-0.025_hiDiv_1.0000.eicrecon.tree.edm4eic.root') },
+    { size: 5, fields: parseEpicFileName('job.log') },
+  ];
+
+  it('filters by values and alternatives, comparing numbers numerically', () => {
+    assert.equal(files.filter(f => matchesFileFields(f.fields, { hadronEnergy: '275' })).length, 2);
+    assert.equal(files.filter(f => matchesFileFields(f.fields, { minQ2: [1, 10], electronEnergy: 18 })).length, 2);
+    assert.equal(files.filter(f => matchesFileFields(f.fields, { beamEnergy: '10x100', divergence: 'hiDiv' })).length, 1);
+    assert.equal(files.filter(f => matchesFileFields(f.fields, { q2Max: 1 })).length, 0);
+  });
+
+  it('groups files and bytes by a field', () => {
+    assert.deepEqual(groupByFileField(files, 'beamEnergy'), [
+      { value: '18x275', count: 2, totalSize: 30 },
+      { value: '10x100', count: 1, totalSize: 30 },
+      { value: null, count: 1, totalSize: 5 },
+    ]);
+  });
+});
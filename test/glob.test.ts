@@ -1,6 +1,7 @@
 import { describe, it } from 'node:test';
 import assert from 'node:assert';
 import { globToRegex } from '../src/xrootd.js';
+import { compilePathGlob, expandBraces, MAX_BRACE_EXPANSIONS } from '../src/glob.js';
 
 describe('globToRegex', () => {
   describe('glob wildcards', () => {
@@ -70,19 +71,16 @@ describe('globToRegex', () => {
       assert.ok(!re.test('start'));
     });
 
-    it('{ and } are treated as literals', () => {
-      const re = globToRegex('{a,b}');
-      assert.ok(re.test('{a,b}'));
+    it('{ and } without a comma are treated as literals', () => {
+      const re = globToRegex('{a}');
+      assert.ok(re.test('{a}'));
       assert.ok(!re.test('a'));
-      assert.ok(!re.test('b'));
     });
 
-    it('[ and ] are treated as literals, not a character class', () => {
-      const re = globToRegex('[abc]');
-      assert.ok(re.test('[abc]'));
-      assert.ok(!re.test('a'));
-      assert.ok(!re.test('b'));
-      assert.ok(!re.test('c'));
+    it('unterminated [ and { are treated as literals', () => {
+      assert.ok(globToRegex('[abc').test('[abc'));
+      assert.ok(globToRegex('{a,b').test('{a,b'));
+      assert.ok(!globToRegex('{a,b').test('a'));
     });
 
     it('\\ is treated as a literal backslash', () => {
@@ -92,6 +90,95 @@ describe('globToRegex', () => {
     });
   });
 
+  describe('character classes', () => {
+    it('[abc] matches one of the listed characters', () => {
+      const re = globToRegex('[abc]');
+      assert.ok(re.test('a'));
+      assert.ok(re.test('c'));
+      assert.ok(!re.test('d'));
+      assert.ok(!re.test('[abc]'));
+    });
+
+    it('[a-z] matches a range and [!a-z] its complement', () => {
+      assert.ok(globToRegex('run[0-9].root').test('run7.root'));
+      assert.ok(!globToRegex('run[0-9].root').test('runX.root'));
+      const re = globToRegex('[!a-z]*');
+      assert.ok(re.test('Xfile'));
+      assert.ok(re.test('1file'));
+      assert.ok(!re.test('file'));
+    });
+
+    it('regex metacharacters inside a class are literal', () => {
+      const re = globToRegex('a[+^\\]b');
+      assert.ok(re.test('a+b'));
+      assert.ok(re.test('a^b'));
+      assert.ok(re.test('a\\b'));
+      assert.ok(!re.test('axb'));
+      assert.ok(globToRegex('[]]').test(']'));
+    });
+  });
+
+  describe('brace alternation', () => {
+    it('{a,b} matches either alternative', () => {
+      const re = globToRegex('*_{18x275,10x100}_*.root');
+      assert.ok(re.test('pythia8NCDIS_18x275_minQ2=1.root'));
+      assert.ok(re.test('pythia8NCDIS_10x100_minQ2=1.root'));
+      assert.ok(!re.test('pythia8NCDIS_5x41_minQ2=1.root'));
+      assert.ok(!re.test('{18x275,10x100}'));
+    });
+
+    it('alternations nest and may be empty', () => {
+      assert.deepEqual(expandBraces('q2_{1{,0},100}.root'), ['q2_1.root', 'q2_10.root', 'q2_100.root']);
+      const re = globToRegex('file{,.gz}');
+      assert.ok(re.test('file'));
+      assert.ok(re.test('file.gz'));
+    });
+
+    it('commas inside a class do not split an alternation', () => {
+      assert.deepEqual(expandBraces('{[,x],y}'), ['[,x]', 'y']);
+    });
+
+    it('rejects patterns expanding into too many globs', () => {
+      assert.equal(expandBraces('{a,b}'.repeat(10)).length, MAX_BRACE_EXPANSIONS);
+      assert.throws(() => expandBraces('{a,b}'.repeat(25)), /Invalid pattern: brace expansion too large/);
+      // Duplicates count too, so they cannot hide the blow-up
+      assert.throws(() => globToRegex('{a,a}'.repeat(25)), /brace expansion too large/);
+    });
+  });
+
+  describe('path globs', () => {
+    it('* and ? do not cross a slash', () => {
+      assert.ok(!globToRegex('*.root').test('DIS/a.root'));
+      assert.ok(!globToRegex('a?b').test('a/b'));
+    });
+
+    it('** spans any number of directories', () => {
+      const re = globToRegex('RECO/24.*/epic_craterlake/DIS/**/q2_1_*/*.edm4eic.root');
+      assert.ok(re.test('RECO/24.07.0/epic_craterlake/DIS/NC/10x100/q2_1_10/a.edm4eic.root'));
+      assert.ok(re.test('RECO/24.07.0/epic_craterlake/DIS/q2_1_10/a.edm4eic.root'));
+      assert.ok(!re.test('RECO/24.07.0/epic_craterlake/SIDIS/q2_1_10/a.edm4eic.root'));
+      assert.ok(!re.test('RECO/24.07.0/epic_craterlake/DIS/q2_1_10/sub/a.edm4eic.root'));
+      assert.ok(globToRegex('RECO/**').test('RECO/a/b/c.root'));
+    });
+
+    it('compilePathGlob prunes directories that cannot contain a match', () => {
+      const glob = compilePathGlob('RECO/{24.07.0,24.08.1}/*/DIS/*.root');
+      assert.equal(glob.maxDepth, 4);
+      assert.ok(glob.canDescend(['RECO']));
+      assert.ok(glob.canDescend(['RECO', '24.08.1', 'epic_craterlake']));
+      assert.ok(!glob.canDescend(['EVGEN']));
+      assert.ok(!glob.canDescend(['RECO', '24.09.0']));
+      assert.ok(glob.canDescend(['RECO', '24.07.0', 'epic_craterlake', 'DIS']));
+      assert.ok(!glob.canDescend(['RECO', '24.07.0', 'epic_craterlake', 'DIS', 'sub.root']));
+
+      const deep = compilePathGlob('./RECO/**/*.root');
+      assert.equal(deep.maxDepth, undefined);
+      assert.ok(deep.canDescend(['RECO', 'a', 'b', 'c']));
+      assert.ok(!deep.canDescend(['EVGEN']));
+      assert.ok(deep.regex.test('RECO/a/b.root'));
+    });
+  });
+
   describe('EIC-style filename patterns', () => {
     it('matches files with = in names using *', () => {
       const re = globToRegex('run=*.root');
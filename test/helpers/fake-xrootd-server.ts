@@ -0,0 +1,235 @@
+import { createServer, Server, Socket } from 'net';
+import { AddressInfo } from 'net';
+import type { StorageBackend } from '../../src/storage.js';
+import { RequestId, ResponseStatus } from '../../src/xrootd-protocol.js';
+
+export interface FakeXRootDServerOptions {
+  /** Entries per kXR_oksofar chunk of a dirlist response (default: 3). */
+  dirlistChunkEntries?: number;
+  /** Bytes per kXR_oksofar chunk of a read response (default: 4). */
+  readChunkSize?: number;
+  /** Answer the first kXR_stat with kXR_wait before serving it. */
+  waitOnFirstStat?: boolean;
+  /** Ask for authentication during login. */
+  requireAuth?: boolean;
+  /** Redirect every path-based request to this endpoint. */
+  redirectTo?: { host: string; port: number };
+  /** Answer kXR_stat with a kXR_error frame too short to hold an error code. */
+  truncatedStatError?: boolean;
+}
+
+export interface FakeXRootDServer {
+  url: string;
+  port: number;
+  /** Number of TCP connections accepted so far. */
+  connections: number;
+  /** Request ids received, in order. */
+  requests: number[];
+  close(): Promise<void>;
+}
+
+function frame(streamId: Buffer, status: number, data: Buffer = Buffer.alloc(0)): Buffer {
+  const header = Buffer.alloc(8);
+  streamId.copy(header, 0);
+  header.writeUInt16BE(status, 2);
+  header.writeUInt32BE(data.length, 4);
+  return Buffer.concat([header, data]);
+}
+
+function errorBody(error: any): Buffer {
+  const match = String(error.message).match(/^\[(\d+)\]\s*(.*)$/);
+  const code = match ? parseInt(match[1], 10) : 3012;
+  const body = Buffer.alloc(4);
+  body.writeInt32BE(code, 0);
+  return Buffer.concat([body, Buffer.from(`${match ? match[2] : error.message}\0`)]);
+}
+
+/**
+ * Minimal in-process XRootD server speaking enough of the wire protocol to
+ * exercise the native backend.  Responses are deliberately split into
+ * kXR_oksofar chunks so that reassembly is covered.
+ */
+export async function startFakeXRootDServer(
+  backend: StorageBackend,
+  options: FakeXRootDServerOptions = {}
+): Promise<FakeXRootDServer> {
+  const sockets = new Set<Socket>();
+  const handles = new Map<number, string>();
+  let nextHandle = 1;
+  let statWaited = false;
+
+  const state: FakeXRootDServer = {
+    url: '',
+    port: 0,
+    connections: 0,
+    requests: [],
+    close: async () => {
+      sockets.forEach(s => s.destroy());
+      await new Promise<void>(resolve => server.close(() => resolve()));
+    },
+  };
+
+  const statText = async (path: string): Promise<string> => {
+    const info = await backend.stat(path);
+    const flags = (info.isDirectory ? 2 : 0) | 16;
+    return `1 ${info.size} ${flags} ${Math.floor(info.modificationTime.getTime() / 1000)}`;
+  };
+
+  const handle = async (socket: Socket, header: Buffer, data: Buffer): Promise<void> => {
+    const streamId = header.subarray(0, 2);
+    const requestId = header.readUInt16BE(2);
+    const body = header.subarray(4, 20);
+    const path = data.toString('utf-8').split('?')[0];
+    const send = (status: number, payload?: Buffer) => socket.write(frame(streamId, status, payload));
+    state.requests.push(requestId);
+
+    if (options.redirectTo && ([RequestId.kXR_stat, RequestId.kXR_dirlist, RequestId.kXR_open] as number[]).includes(requestId)) {
+      const target = Buffer.alloc(4);
+      target.writeInt32BE(options.redirectTo.port, 0);
+      send(ResponseStatus.kXR_redirect, Buffer.concat([target, Buffer.from(`${options.redirectTo.host}?tried=fake`)]));
+      return;
+    }
+
+    switch (requestId) {
+      case RequestId.kXR_protocol: {
+        const response = Buffer.alloc(8);
+        response.writeInt32BE(0x500, 0);
+        response.writeInt32BE(1, 4);
+        send(ResponseStatus.kXR_ok, response);
+        return;
+      }
+      case RequestId.kXR_login: {
+        const sessid = Buffer.alloc(16, 7);
+        send(ResponseStatus.kXR_ok, options.requireAuth ? Buffer.concat([sessid, Buffer.from('&P=gsi,v:10000\0')]) : sessid);
+        return;
+      }
+      case RequestId.kXR_stat: {
+        if (options.truncatedStatError) {
+          send(ResponseStatus.kXR_error, Buffer.alloc(2));
+          return;
+        }
+        if (options.waitOnFirstStat && !statWaited) {
+          statWaited = true;
+          send(ResponseStatus.kXR_wait, Buffer.alloc(4));
+          return;
+        }
+        send(ResponseStatus.kXR_ok, Buffer.from(`${await statText(path)}\0`));
+        return;
+      }
+      case RequestId.kXR_dirlist: {
+        const entries = await backend.listDirectory(path);
+        const withStat = (body.readUInt8(15) & 2) !== 0;
+        const lines: string[] = withStat ? ['.\n0 0 0 0\n'] : [];
+        for (const entry of entries) {
+          const childPath = `${path}/${entry.name}`.replace(/\/+/g, '/');
+          lines.push(withStat ? `${entry.name}\n${await statText(childPath)}\n` : `${entry.name}\n`);
+        }
+        const perChunk = options.dirlistChunkEntries ?? 3;
+        for (let i = 0; i < lines.length; i += perChunk) {
+          const last = i + perChunk >= lines.length;
+          send(last ? ResponseStatus.kXR_ok : ResponseStatus.kXR_oksofar, Buffer.from(lines.slice(i, i + perChunk).join('')));
+        }
+        if (lines.length === 0) {
+          send(ResponseStatus.kXR_ok);
+        }
+        return;
+      }
+      case RequestId.kXR_open: {
+        const info = await backend.stat(path);
+        if (info.isDirectory) {
+          throw new Error(`[3016] ${path} is a directory`);
+        }
+        const fh = nextHandle++;
+        handles.set(fh, path);
+        const response = Buffer.alloc(12);
+        response.writeUInt32BE(fh, 0);
+        const retstat = (body.readUInt16BE(2) & 0x0400) !== 0;
+        send(ResponseStatus.kXR_ok, retstat ? Buffer.concat([response, Buffer.from(`${await statText(path)}\0`)]) : response);
+        return;
+      }
+      case RequestId.kXR_read: {
+        const file = handles.get(body.readUInt32BE(0));
+        if (!file) throw new Error('[3004] File not open');
+        const offset = Number(body.readBigInt64BE(4));
+        const content = await backend.readFile(file, offset, offset + body.readInt32BE(12));
+        const chunkSize = options.readChunkSize ?? 4;
+        for (let i = 0; i < content.length; i += chunkSize) {
+          const last = i + chunkSize >= content.length;
+          send(last ? ResponseStatus.kXR_ok : ResponseStatus.kXR_oksofar, content.subarray(i, i + chunkSize));
+        }
+        if (content.length === 0) {
+          send(ResponseStatus.kXR_ok);
+        }
+        return;
+      }
+      case RequestId.kXR_readv: {
+        const parts: Buffer[] = [];
+        for (let i = 0; i + 16 <= data.length; i += 16) {
+          const file = handles.get(data.readUInt32BE(i));
+          if (!file) throw new Error('[3004] File not open');
+          const offset = Number(data.readBigInt64BE(i + 8));
+          const content = await backend.readFile(file, offset, offset + data.readInt32BE(i + 4));
+          const element = Buffer.from(data.subarray(i, i + 16));
+          element.writeInt32BE(content.length, 4);
+          parts.push(element, content);
+        }
+        send(ResponseStatus.kXR_ok, Buffer.concat(parts));
+        return;
+      }
+      case RequestId.kXR_query: {
+        // Only kXR_Qcksum (3) is served
+        if (body.readUInt16BE(0) !== 3 || !backend.checksum) {
+          throw new Error(`[3013] Unsupported query ${body.readUInt16BE(0)}`);
+        }
+        const [file, type] = path.split('?cks.type=');
+        const { algorithm, value } = await backend.checksum(file, type && decodeURIComponent(type));
+        send(ResponseStatus.kXR_ok, Buffer.from(`${algorithm} ${value}\0`));
+        return;
+      }
+      case RequestId.kXR_close:
+        handles.delete(body.readUInt32BE(0));
+        send(ResponseStatus.kXR_ok);
+        return;
+      default:
+        throw new Error(`[3013] Unsupported request ${requestId}`);
+    }
+  };
+
+  const server: Server = createServer(socket => {
+    state.connections++;
+    sockets.add(socket);
+    socket.on('close', () => sockets.delete(socket));
+    socket.on('error', () => undefined);
+
+    let buffer = Buffer.alloc(0);
+    let handshaken = false;
+    socket.on('data', chunk => {
+      buffer = Buffer.concat([buffer, chunk]);
+      if (!handshaken) {
+        if (buffer.length < 20) return;
+        buffer = buffer.subarray(20);
+        handshaken = true;
+        const response = Buffer.alloc(16);
+        response.writeUInt32BE(8, 4);
+        response.writeInt32BE(0x500, 8);
+        response.writeInt32BE(1, 12);
+        socket.write(response);
+      }
+      while (buffer.length >= 24) {
+        const dlen = buffer.readInt32BE(20);
+        if (buffer.length < 24 + dlen) return;
+        const header = buffer.subarray(0, 24);
+        const data = buffer.subarray(24, 24 + dlen);
+        buffer = buffer.subarray(24 + dlen);
+        handle(socket, header, data).catch(error => {
+          socket.write(frame(header.subarray(0, 2), ResponseStatus.kXR_error, errorBody(error)));
+        });
+      }
+    });
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', () => resolve()));
+  state.port = (server.address() as AddressInfo).port;
+  state.url = `root://127.0.0.1:${state.port}`;
+  return state;
+}
@@ -0,0 +1,147 @@
+/**
+ * Fake xrdfs/xrdcp executable serving a declarative fixture tree.
+ *
+ * Invoked through the shell wrappers written by installFakeXRootD():
+ *
+ *   node fake-xrootd.js xrdfs <url> ls [-l] <path>
+ *   node fake-xrootd.js xrdfs <url> stat <path>
+ *   node fake-xrootd.js xrdfs <url> find <path> -name <pattern>
+ *   node fake-xrootd.js xrdfs <url> query checksum <path>[?cks.type=<algorithm>]
+ *   node fake-xrootd.js xrdcp [--range start:end] <url>//<path> -
+ *
+ * The fixture (a StorageFixture JSON file) is read from FAKE_XROOTD_FIXTURE
+ * and served through MemoryBackend; output mimics the real tools closely
+ * enough for XrdfsBackend's parsers.
+ */
+import { readFileSync } from 'fs';
+import { MemoryBackend, StorageFixture } from '../../src/storage.js';
+
+function pad(n: number): string {
+  return String(n).padStart(2, '0');
+}
+
+// xrdfs prints timestamps in local time as "YYYY-MM-DD hh:mm:ss"
+function formatTime(date: Date): string {
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())} ` +
+    `${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}`;
+}
+
+function joinPath(dir: string, name: string): string {
+  return `${dir}/${name}`.replace(/\/+/g, '/');
+}
+
+function fail(message: string, code: number = 54): never {
+  process.stderr.write(`[ERROR] Server responded with an error: ${message}\n`);
+  process.exit(code);
+}
+
+async function xrdfs(backend: MemoryBackend, args: string[]): Promise<void> {
+  const [, command, ...rest] = args;
+  switch (command) {
+    case 'ls': {
+      const long = rest[0] === '-l';
+      const path = long ? rest[1] : rest[0];
+      const entries = await backend.listDirectory(path);
+      for (const entry of entries) {
+        const fullPath = joinPath(path, entry.name);
+        if (long) {
+          const perms = entry.isDirectory ? 'drwxr-xr-x' : '-rw-r--r--';
+          const size = entry.isDirectory ? 4096 : entry.size ?? 0;
+          process.stdout.write(`${perms} eicprod eic ${size} ${formatTime(entry.modificationTime ?? new Date(0))} ${fullPath}\n`);
+        } else {
+          process.stdout.write(`${fullPath}\n`);
+        }
+      }
+      return;
+    }
+    case 'stat': {
+      const info = await backend.stat(rest[0]);
+      const flags = info.isDirectory ? '51 (XBitSet|IsDir|IsReadable|IsWritable)' : '48 (IsReadable|IsWritable)';
+      process.stdout.write(
+        `Path:   ${info.path}\n` +
+        `Id:     0\n` +
+        `Size:   ${info.isDirectory ? 4096 : info.size}\n` +
+        `MTime:  ${formatTime(info.modificationTime)}\n` +
+        `Flags:  ${flags}\n`
+      );
+      return;
+    }
+    case 'find': {
+      const [path, option, pattern] = rest;
+      if (option !== '-name' || pattern === undefined) {
+        fail(`[3001] Unsupported find arguments: ${rest.join(' ')}`, 50);
+      }
+      for (const found of await backend.find(path, pattern)) {
+        process.stdout.write(`${found}\n`);
+      }
+      return;
+    }
+    case 'query': {
+      const [query, path] = rest;
+      if (query !== 'checksum' || path === undefined) {
+        fail(`[3001] Unsupported query arguments: ${rest.join(' ')}`, 50);
+      }
+      const [file, type] = path.split('?cks.type=');
+      const { algorithm, value } = await backend.checksum(file, type && decodeURIComponent(type));
+      process.stdout.write(`${algorithm} ${value}\n`);
+      return;
+    }
+    default:
+      fail(`[3001] Unsupported xrdfs command: ${command}`, 50);
+  }
+}
+
+async function xrdcp(backend: MemoryBackend, args: string[]): Promise<void> {
+  let start: number | undefined;
+  let end: number | undefined;
+  const positional: string[] = [];
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === '--range') {
+      const [rawStart, rawEnd] = args[++i].split(':');
+      start = rawStart ? Number(rawStart) : undefined;
+      end = rawEnd ? Number(rawEnd) : undefined;
+    } else {
+      positional.push(args[i]);
+    }
+  }
+  const [source, destination] = positional;
+  if (destination !== '-') {
+    fail('[3001] Only copying to stdout is supported', 50);
+  }
+  const match = source.match(/^root:\/\/[^/]+\/(\/.*)$/);
+  if (!match) {
+    fail(`[3010] Opening relative path '${source}' is disallowed.`, 50);
+  }
+  const data = await backend.readFile(decodeURIComponent(match[1]), start, end);
+  process.stdout.write(data);
+}
+
+async function main(): Promise<void> {
+  const fixturePath = process.env.FAKE_XROOTD_FIXTURE;
+  if (!fixturePath) {
+    fail('[3000] FAKE_XROOTD_FIXTURE is not set', 50);
+  }
+  const fixture = JSON.parse(readFileSync(fixturePath, 'utf-8')) as StorageFixture;
+  const backend = MemoryBackend.fromFixture(fixture);
+  const [tool, ...args] = process.argv.slice(2);
+
+  // Simulates a slow server so that tests can cancel commands in flight
+  const delayMs = Number(process.env.FAKE_XROOTD_DELAY_MS || 0);
+  if (delayMs > 0) {
+    await new Promise(resolve => setTimeout(resolve, delayMs));
+  }
+
+  try {
+    if (tool === 'xrdfs') {
+      await xrdfs(backend, args);
+    } else if (tool === 'xrdcp') {
+      await xrdcp(backend, args);
+    } else {
+      fail(`[3000] Unknown tool ${tool}`, 50);
+    }
+  } catch (error: any) {
+    fail(String(error?.message ?? error));
+  }
+}
+
+main();
@@ -0,0 +1,52 @@
+import type { StorageFixture, StorageFixtureEntry } from '../../src/storage.js';
+
+export const FIXTURE_BASE_DIR = '/volatile/eic/EPIC';
+
+// Dataset directory with enough files to exercise list_directory pagination
+export const FIXTURE_LARGE_DIR = 'RECO/26.03.0/epic_craterlake/DIS/NC/10x100/minQ2=1';
+
+export const FIXTURE_DATASET_DIR = 'RECO/24.07.0/epic_craterlake/DIS/NC/18x275/q2_0.001_1.0';
+
+const OLD = '2024-07-15T10:00:00Z';
+const KB = 1024;
+const MB = 1024 * KB;
+
+/**
+ * A small EPIC-like namespace: two campaigns under RECO, an EVGEN area, a text
+ * README and a few files modified within the last day so that the "recent
+ * changes" tools have something to report.  Timestamps of recent files are
+ * relative to `now` so the fixture never goes stale.
+ */
+export function buildEpicFixture(now: Date = new Date(), baseDir: string = FIXTURE_BASE_DIR): StorageFixture {
+  const hoursAgo = (h: number): string => new Date(now.getTime() - h * 3600 * 1000).toISOString();
+  const entries: StorageFixtureEntry[] = [];
+  const add = (path: string, entry: Omit<StorageFixtureEntry, 'path'>): void => {
+    entries.push({ path: `${baseDir}/${path}`, mtime: OLD, ...entry });
+  };
+
+  add('README.md', { content: '# EPIC simulation campaigns\n\nSee RECO/ for reconstructed output.\n' });
+  add('EVGEN/SIDIS/pythia8NCDIS_18x275_minQ2=1_beamEffects_xAngle=-0.025_hiDiv_1.hepmc3.tree.root', { size: 40 * MB });
+  add('EVGEN/DIS/NC/18x275/minQ2=10/pythia8NCDIS_18x275_minQ2=10_beamEffects_xAngle=-0.025_hiDiv_1.hepmc3.tree.root', { size: 35 * MB });
+
+  // Kept small: the ROOT tools copy these in full when allow_copy is set
+  for (let i = 0; i < 3; i++) {
+    const index = String(i).padStart(4, '0');
+    add(`${FIXTURE_DATASET_DIR}/pythia8NCDIS_18x275_minQ2=0.001_beamEffects_xAngle=-0.025_hiDiv_1.${index}.eicrecon.tree.edm4eic.root`, { size: (100 + i) * KB });
+  }
+  add('RECO/24.07.0/epic_craterlake/DIS/NC/10x100/q2_1_10/pythia8NCDIS_10x100_minQ2=1_beamEffects_xAngle=-0.025_hiDiv_1.0000.eicrecon.tree.edm4eic.root', { size: 80 * MB });
+  add('RECO/24.07.0/epic_craterlake/SIDIS/pythia6-eic/ep_18x275/pythia_ep_noradcor_18x275_q2_0.000000001_1.0_run39_10runs.0000.eicrecon.tree.edm4eic.root', { size: 60 * MB });
+  add('RECO/24.07.0/epic_craterlake/README.txt', { content: 'Campaign 24.07.0\n' });
+
+  for (let i = 0; i < 11; i++) {
+    const index = String(i).padStart(4, '0');
+    add(`${FIXTURE_LARGE_DIR}/pythia8NCDIS_10x100_minQ2=1_beamEffects_xAngle=-0.025_hiDiv_1.${index}.eicrecon.tree.edm4eic.root`, {
+      size: (50 + i) * MB,
+      mtime: i < 2 ? hoursAgo(2 + i) : OLD,
+    });
+  }
+  add('RECO/26.03.0/epic_craterlake/DIS/NC/10x100/minQ2=1/job.log', { content: 'job finished\n', mtime: hoursAgo(1) });
+
+  add('LOGS/core.bin', { content: Buffer.from([0x00, 0x01, 0x02, 0xff, 0xfe, 0x7f, 0x00, 0x10]).toString('base64'), encoding: 'base64' });
+
+  return { entries };
+}
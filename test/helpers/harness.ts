@@ -0,0 +1,48 @@
+import { mkdtemp, writeFile, chmod, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { delimiter, join } from 'path';
+import { fileURLToPath } from 'url';
+import type { StorageFixture } from '../../src/storage.js';
+
+export interface FakeXRootD {
+  /** Directory holding the fake xrdfs and xrdcp executables. */
+  binDir: string;
+  /** Environment with binDir prepended to PATH and the fixture location set. */
+  env: Record<string, string>;
+  cleanup(): Promise<void>;
+}
+
+const FAKE_SCRIPT = fileURLToPath(new URL('./fake-xrootd.js', import.meta.url));
+
+/**
+ * Install fake xrdfs/xrdcp executables serving `fixture` into a temporary
+ * directory.  Pass the returned env to StdioClientTransport (or merge it into
+ * process.env) so that XrdfsBackend picks up the fakes instead of the real
+ * XRootD client tools.
+ */
+export async function installFakeXRootD(fixture: StorageFixture): Promise<FakeXRootD> {
+  const binDir = await mkdtemp(join(tmpdir(), 'fake-xrootd-'));
+  const fixturePath = join(binDir, 'fixture.json');
+  await writeFile(fixturePath, JSON.stringify(fixture));
+
+  for (const tool of ['xrdfs', 'xrdcp']) {
+    const wrapper = join(binDir, tool);
+    await writeFile(wrapper, `#!/bin/sh\nexec "${process.execPath}" "${FAKE_SCRIPT}" ${tool} "$@"\n`);
+    await chmod(wrapper, 0o755);
+  }
+
+  const env: Record<string, string> = {};
+  for (const [k, v] of Object.entries(process.env)) {
+    if (typeof v === 'string') {
+      env[k] = v;
+    }
+  }
+  env.PATH = `${binDir}${delimiter}${process.env.PATH ?? ''}`;
+  env.FAKE_XROOTD_FIXTURE = fixturePath;
+
+  return {
+    binDir,
+    env,
+    cleanup: () => rm(binDir, { recursive: true, force: true }),
+  };
+}
@@ -0,0 +1,104 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import { MemoryBackend } from '../src/storage.js';
+import { XRootDClient } from '../src/xrootd.js';
+import type { DirectoryEntry } from '../src/xrootd.js';
+
+const BASE = '/work/eic2/EPIC';
+
+// Counts listings and can refuse some directories
+class CountingBackend extends MemoryBackend {
+  listings = 0;
+  failing = new Set<string>();
+
+  async listDirectory(path: string, signal?: AbortSignal): Promise<DirectoryEntry[]> {
+    this.listings++;
+    if (this.failing.has(path)) {
+      throw new Error('[3010] Permission denied');
+    }
+    return await super.listDirectory(path, signal);
+  }
+}
+
+function setup(): { backend: CountingBackend; client: XRootDClient } {
+  const backend = new CountingBackend();
+  for (const campaign of ['24.07.0', '24.08.1']) {
+    for (const energy of ['10x100', '18x275']) {
+      backend.addFile(`${BASE}/RECO/${campaign}/DIS/${energy}/a.edm4eic.root`, 1000, new Date('2026-01-01T00:00:00Z'));
+      backend.addFile(`${BASE}/RECO/${campaign}/DIS/${energy}/job.log`, 10, new Date());
+    }
+  }
+  backend.addFile(`${BASE}/EVGEN/b.hepmc3.tree.root`, 500);
+  return { backend, client: new XRootDClient('root://localhost', BASE, false, 60, 1000, backend) };
+}
+
+describe('namespace index', () => {
+  it('answers recursive operations without listing indexed directories', async () => {
+    const { backend, client } = setup();
+    client.startIndexing(['RECO'], 60);
+    await client.refreshIndex();
+
+    const [status] = client.getIndexStatus()!;
+    assert.equal(status.root, `${BASE}/RECO`);
+    assert.equal(status.building, false);
+    assert.equal(status.directories, 9);
+    assert.equal(status.files, 8);
+    assert.ok(status.builtAt instanceof Date);
+
+    const index = client.getIndexSnapshot('RECO/24.07.0');
+    assert.ok(index);
+    assert.equal(client.getIndexSnapshot('EVGEN'), undefined);
+    assert.equal(client.getIndexSnapshot('RECO/25.01.0'), undefined);
+
+    const listed = backend.listings;
+    const stats = await client.getStatistics('RECO/24.07.0', true, { index });
+    assert.equal(stats.totalFiles, 4);
+    assert.equal(stats.totalSize, 2020);
+    const recent = await client.findRecentFiles('RECO', 1, true, { index: client.getIndexSnapshot('RECO') });
+    assert.equal(recent.length, 4);
+    const found = await client.searchFiles('*.edm4eic.root', 'RECO', true, false, { index });
+    assert.equal(found.length, 4);
+    assert.equal(backend.listings, listed);
+  });
+
+  it('serves the previous snapshot until the next crawl completes', async () => {
+    const { backend, client } = setup();
+    client.startIndexing(['RECO'], 60);
+    await client.refreshIndex();
+    backend.addFile(`${BASE}/RECO/24.08.1/DIS/10x100/b.edm4eic.root`, 1000);
+
+    const stale = await client.getStatistics('RECO', true, { index: client.getIndexSnapshot('RECO') });
+    assert.equal(stale.totalFiles, 8);
+    await client.refreshIndex();
+    const fresh = await client.getStatistics('RECO', true, { index: client.getIndexSnapshot('RECO') });
+    assert.equal(fresh.totalFiles, 9);
+  });
+
+  it('lists directories the crawl could not read from the server', async () => {
+    const { backend, client } = setup();
+    backend.failing.add(`${BASE}/RECO/24.08.1/DIS`);
+    client.startIndexing(['RECO'], 60);
+    await client.refreshIndex();
+    assert.equal(client.getIndexStatus()![0].unlistedDirectories, 1);
+
+    backend.failing.clear();
+    const listed = backend.listings;
+    const stats = await client.getStatistics('RECO', true, { index: client.getIndexSnapshot('RECO') });
+    assert.equal(stats.totalFiles, 8);
+    // DIS and its two energy directories
+    assert.equal(backend.listings - listed, 3);
+  });
+
+  it('keeps the last snapshot when a crawl fails', async () => {
+    const { backend, client } = setup();
+    client.startIndexing(['RECO'], 60);
+    await client.refreshIndex();
+    backend.failing.add(`${BASE}/RECO`);
+    await assert.rejects(client.refreshIndex(), /Permission denied/);
+
+    const [status] = client.getIndexStatus()!;
+    assert.match(status.lastError!, /Permission denied/);
+    assert.equal(status.files, 8);
+    assert.ok(client.getIndexSnapshot('RECO'));
+  });
+});
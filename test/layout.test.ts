@@ -0,0 +1,90 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import { EPIC_LAYOUT, PathLayout } from '../src/layout.js';
+import { MemoryBackend } from '../src/storage.js';
+import { XRootDClient } from '../src/xrootd.js';
+
+const BASE = '/work/eic2/EPIC';
+const CAMPAIGN = `${BASE}/RECO/24.07.0`;
+
+function setup(): XRootDClient {
+  const backend = new MemoryBackend();
+  for (const dataset of [
+    'epic_craterlake/DIS/NC/18x275/q2_0.001_1.0',
+    'epic_craterlake/DIS/NC/18x275/q2_1_10',
+    'epic_craterlake/DIS/NC/10x100/minQ2=1',
+    'epic_craterlake/SIDIS/pythia6-eic/ep_18x275',
+    // No beam-energy level: the process directory is the dataset
+    'epic_craterlake/SINGLE/e-/1GeV/45to135deg',
+  ]) {
+    backend.addFile(`${CAMPAIGN}/${dataset}/a.edm4eic.root`, 100);
+  }
+  backend.addFile(`${CAMPAIGN}/epic_craterlake/README.txt`, 'Campaign 24.07.0\n');
+  backend.addDirectory(`${CAMPAIGN}/epic_craterlake/DIS`);
+  return new XRootDClient('root://localhost', BASE, false, 60, 1000, backend);
+}
+
+describe('PathLayout', () => {
+  const layout = new PathLayout(EPIC_LAYOUT);
+
+  it('parses EPIC beam energies and Q2 bins into fields', () => {
+    assert.deepEqual(layout.parse(['epic_craterlake', 'DIS', 'NC', '10x100', 'minQ2=1']), {
+      detector: 'epic_craterlake',
+      processType: 'DIS',
+      process: 'NC',
+      beamEnergy: '10x100',
+      electronEnergy: '10',
+      hadronEnergy: '100',
+      q2Range: 'minQ2=1',
+      minQ2: '1',
+    });
+    assert.equal(layout.parse(['epic_craterlake', 'SIDIS', 'pythia6-eic', 'ep_18x275']).electronEnergy, '18');
+    assert.equal(layout.minDepth, 3);
+    assert.equal(layout.depth, 5);
+    assert.ok(!layout.matches(4, '1GeV'));
+    assert.ok(!layout.matches(6, 'anything'));
+  });
+
+  it('rejects invalid layouts', () => {
+    assert.throws(() => PathLayout.fromConfig({}), /expected an array of levels/);
+    assert.throws(() => PathLayout.fromConfig([]), /at least one level/);
+    assert.throws(() => PathLayout.fromConfig(['a', 'a']), /duplicate level name "a"/);
+    assert.throws(() => PathLayout.fromConfig([{ name: 'a', pattern: '(' }]), /level "a"/);
+    assert.throws(() => PathLayout.fromConfig(['a', { name: 'b', optional: true }, 'c']), /required level "c" follows an optional level/);
+    assert.throws(() => PathLayout.fromConfig([{ name: 'a', optional: true }]), /first level cannot be optional/);
+  });
+});
+
+describe('XRootDClient.listDatasets', () => {
+  it('descends through optional levels as deep as the layout fits', async () => {
+    const datasets = await setup().listDatasets('24.07.0');
+    assert.deepEqual(datasets.map(d => d.name), [
+      'epic_craterlake/DIS/NC/10x100/minQ2=1',
+      'epic_craterlake/DIS/NC/18x275/q2_0.001_1.0',
+      'epic_craterlake/DIS/NC/18x275/q2_1_10',
+      'epic_craterlake/SIDIS/pythia6-eic/ep_18x275',
+      'epic_craterlake/SINGLE/e-',
+    ]);
+    assert.equal(datasets[2].path, `${CAMPAIGN}/epic_craterlake/DIS/NC/18x275/q2_1_10`);
+    assert.deepEqual([datasets[2].fields?.q2Min, datasets[2].fields?.q2Max], ['1', '10']);
+  });
+
+  it('uses a configured layout', async () => {
+    const client = setup();
+    client.setLayout(PathLayout.fromConfig([
+      { name: 'detector', pattern: '^epic_' },
+      { name: 'processType', pattern: '^(?:DIS|SIDIS)$' },
+      'process',
+    ]));
+    const datasets = await client.listDatasets('24.07.0');
+    assert.deepEqual(datasets.map(d => d.name), [
+      'epic_craterlake/DIS/NC',
+      'epic_craterlake/SIDIS/pythia6-eic',
+    ]);
+    assert.deepEqual(datasets[0].fields, { detector: 'epic_craterlake', processType: 'DIS', process: 'NC' });
+  });
+
+  it('fails for a missing campaign instead of guessing', async () => {
+    await assert.rejects(setup().listDatasets('25.01.0'), /Failed to list datasets of campaign 25.01.0/);
+  });
+});
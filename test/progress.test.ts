@@ -0,0 +1,88 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import { MemoryBackend, XrdfsBackend } from '../src/storage.js';
+import { XRootDClient } from '../src/xrootd.js';
+import { installFakeXRootD } from './helpers/harness.js';
+
+const BASE = '/work/eic2/EPIC';
+
+function buildClient(): XRootDClient {
+  const backend = new MemoryBackend();
+  for (const campaign of ['24.07.0', '24.08.1', '24.09.0']) {
+    for (const energy of ['10x100', '18x275']) {
+      backend.addFile(`${BASE}/RECO/${campaign}/DIS/${energy}/a.edm4eic.root`, 1000);
+      backend.addFile(`${BASE}/RECO/${campaign}/DIS/${energy}/b.edm4eic.root`, 2000);
+    }
+  }
+  return new XRootDClient('root://localhost', BASE, true, 60, 1000, backend);
+}
+
+describe('progress reporting', () => {
+  it('reports every scanned directory of a recursive walk', async () => {
+    const client = buildClient();
+    const reports: Array<[number, number | undefined, string | undefined]> = [];
+    const stats = await client.getStatistics('RECO', true, {
+      onProgress: (progress, total, message) => reports.push([progress, total, message]),
+    });
+
+    // RECO, 3 campaigns, 3 DIS directories and 6 energy directories
+    assert.equal(reports.length, 13);
+    assert.deepEqual(reports.map(r => r[0]), Array.from({ length: 13 }, (_, i) => i + 1));
+    assert.ok(reports.every(r => r[1] === undefined));
+    assert.equal(reports[12][2], 'Scanned 13 directories (12 files)');
+    assert.equal(stats.totalFiles, 12);
+  });
+
+  it('reports progress while summing directory sizes', async () => {
+    const client = buildClient();
+    let last = 0;
+    const size = await client.getDirectorySize('RECO/24.07.0', { onProgress: progress => { last = progress; } });
+    assert.equal(size, 6000);
+    assert.equal(last, 4);
+  });
+});
+
+describe('cancellation', () => {
+  it('stops a recursive walk once the signal is aborted', async () => {
+    const client = buildClient();
+    const controller = new AbortController();
+    let reports = 0;
+    await assert.rejects(
+      client.findRecentFiles('RECO', 24, true, {
+        signal: controller.signal,
+        onProgress: progress => {
+          reports = progress;
+          if (progress === 3) {
+            controller.abort();
+          }
+        },
+      }),
+      (error: Error) => error.name === 'AbortError'
+    );
+    assert.equal(reports, 3);
+  });
+
+  it('rejects before starting when the signal is already aborted', async () => {
+    const client = buildClient();
+    await assert.rejects(client.getDirectorySize('RECO', { signal: AbortSignal.abort() }), /abort/i);
+  });
+
+  it('kills an in-flight xrdfs process', { timeout: 20000 }, async () => {
+    const fake = await installFakeXRootD({ entries: [{ path: `${BASE}/a.root`, size: 100 }] });
+    const originalPath = process.env.PATH;
+    process.env.PATH = fake.env.PATH;
+    process.env.FAKE_XROOTD_FIXTURE = fake.env.FAKE_XROOTD_FIXTURE;
+    process.env.FAKE_XROOTD_DELAY_MS = '10000';
+    try {
+      const xrdfs = new XrdfsBackend('root://localhost');
+      const startedAt = Date.now();
+      await assert.rejects(xrdfs.listDirectory(BASE, AbortSignal.timeout(200)), (error: Error) => error.name === 'AbortError');
+      assert.ok(Date.now() - startedAt < 5000, 'the command returned before the fake server answered');
+    } finally {
+      process.env.PATH = originalPath;
+      delete process.env.FAKE_XROOTD_FIXTURE;
+      delete process.env.FAKE_XROOTD_DELAY_MS;
+      await fake.cleanup();
+    }
+  });
+});
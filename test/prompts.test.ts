@@ -0,0 +1,39 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import { listPrompts, getPrompt } from '../src/prompts.js';
+
+function textOf(name: string, args: Record<string, string>): string {
+  const content = getPrompt(name, args).messages[0].content;
+  assert.strictEqual(content.type, 'text');
+  return content.text;
+}
+
+describe('prompts', () => {
+  it('lists the data-discovery workflows with their arguments', () => {
+    const prompts = listPrompts();
+    assert.deepEqual(prompts.map(p => p.name), ['summarize_campaign', 'compare_campaigns', 'validate_dataset', 'recent_changes']);
+    const compare = prompts.find(p => p.name === 'compare_campaigns')!;
+    assert.deepEqual(compare.arguments!.filter(a => a.required).map(a => a.name), ['baseline', 'candidate']);
+  });
+
+  it('references the tools each workflow needs', () => {
+    assert.match(textOf('summarize_campaign', { campaign: '25.10.2' }), /list_datasets with campaign: "25\.10\.2"/);
+    const compare = textOf('compare_campaigns', { baseline: '25.09.0', candidate: '25.10.2' });
+    assert.match(compare, /list_campaigns/);
+    assert.match(compare, /"25\.09\.0".*"25\.10\.2"/);
+    assert.match(textOf('validate_dataset', { path: 'RECO/25.10.2/x' }), /get_dataset_event_statistics with path: "RECO\/25\.10\.2\/x"/);
+    assert.match(textOf('recent_changes', {}), /summarize_recent_changes with path: "RECO" and hours: 24/);
+  });
+
+  it('threads optional arguments into the tool calls', () => {
+    const text = textOf('validate_dataset', { path: 'RECO/x', allow_copy: 'true', server: 'jlab' });
+    assert.match(text, /get_dataset_event_statistics on server "jlab" with path: "RECO\/x" and allow_copy: true/);
+    assert.match(textOf('recent_changes', { hours: '6', path: 'EVGEN' }), /path: "EVGEN" and hours: 6/);
+  });
+
+  it('rejects unknown prompts and missing or invalid arguments', () => {
+    assert.throws(() => getPrompt('nope'), /Unknown prompt/);
+    assert.throws(() => getPrompt('summarize_campaign', {}), /Missing required argument "campaign"/);
+    assert.throws(() => getPrompt('recent_changes', { hours: 'a day' }), /Invalid "hours"/);
+  });
+});
@@ -0,0 +1,87 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import { parseQuery, QueryEntry } from '../src/query.js';
+
+const NOW = new Date('2026-03-15T12:00:00Z');
+const GB = 1024 ** 3;
+
+function entry(path: string, size: number, daysAgo: number, isDirectory: boolean = false): QueryEntry {
+  return {
+    name: path.split('/').pop()!,
+    path,
+    size,
+    modificationTime: new Date(NOW.getTime() - daysAgo * 86400 * 1000),
+    isDirectory,
+    depth: path.split('/').length,
+  };
+}
+
+const ENTRIES = [
+  entry('DIS/NC/10x100/a.edm4eic.root', 2 * GB, 1),
+  entry('DIS/NC/18x275/b.edm4eic.root', 0.5 * GB, 2),
+  entry('DIS/CC/18x275/c.edm4eic.root', 3 * GB, 10),
+  entry('DIS/NC/10x100/job.log', 0, 1),
+  entry('DIS/NC', 0, 1, true),
+];
+
+function select(query: string): string[] {
+  const parsed = parseQuery(query, NOW);
+  return ENTRIES
+    .filter(e => (parsed.includesDirectories || !e.isDirectory) && parsed.matches(e))
+    .sort((a, b) => parsed.compare(a, b))
+    .map(e => e.name);
+}
+
+describe('parseQuery', () => {
+  it('combines name, size, time and path conditions', () => {
+    assert.deepEqual(
+      select('name ~ "*.root" and size > 1GB and mtime > -7d and path ~ "DIS/NC"'),
+      ['a.edm4eic.root']
+    );
+  });
+
+  it('honours or, not and parentheses with and binding tighter than or', () => {
+    assert.deepEqual(select('size = 0 or name ~ "c.*" and size >= 3GB'), ['c.edm4eic.root', 'job.log']);
+    assert.deepEqual(select('(size = 0 or name ~ "c.*") and not path ~ "CC"'), ['job.log']);
+    assert.deepEqual(select('name !~ "*.root"'), ['job.log']);
+  });
+
+  it('matches path globs against whole path segments', () => {
+    assert.deepEqual(select('path ~ "18x275"'), ['c.edm4eic.root', 'b.edm4eic.root']);
+    assert.deepEqual(select('path ~ "18x2"'), []);
+    assert.deepEqual(select('path ~ "DIS/{NC,CC}/*/*.root" and depth = 4'), ['c.edm4eic.root', 'a.edm4eic.root', 'b.edm4eic.root']);
+  });
+
+  it('parses size units and relative or absolute times', () => {
+    assert.deepEqual(select('size < 512MiB and size > 0'), []);
+    assert.deepEqual(select('size <= 512MB and size > 0b'), ['b.edm4eic.root']);
+    assert.deepEqual(select('mtime < -36h'), ['c.edm4eic.root', 'b.edm4eic.root']);
+    assert.deepEqual(select('mtime < 2026-03-10'), ['c.edm4eic.root']);
+    assert.deepEqual(select("mtime >= '2026-03-14T12:00:00Z' and size > 0"), ['a.edm4eic.root']);
+  });
+
+  it('applies sort keys and limit', () => {
+    const parsed = parseQuery('name ~ "*.root" sort by size desc, name limit 2', NOW);
+    assert.deepEqual(parsed.sort, [{ field: 'size', descending: true }, { field: 'name', descending: false }]);
+    assert.equal(parsed.limit, 2);
+    assert.deepEqual(select('SORT BY mtime ASC, name'), ['c.edm4eic.root', 'b.edm4eic.root', 'a.edm4eic.root', 'job.log']);
+    assert.ok(parseQuery('', NOW).matches(ENTRIES[0]));
+  });
+
+  it('only matches directories when the query mentions type', () => {
+    assert.ok(!select('path ~ "NC"').includes('NC'));
+    assert.deepEqual(select('type = dir'), ['NC']);
+    assert.equal(parseQuery('type != file', NOW).includesDirectories, true);
+  });
+
+  it('reports syntax errors with their position', () => {
+    assert.throws(() => parseQuery('size > lots'), /Invalid query: expected a size .* at position 8/);
+    assert.throws(() => parseQuery('owner = eic'), /unknown field 'owner'/);
+    assert.throws(() => parseQuery('size ~ "1GB"'), /operator '~' cannot be used with 'size'/);
+    assert.throws(() => parseQuery('name ~ "*.root'), /unterminated string at position 8/);
+    assert.throws(() => parseQuery('(size > 1GB'), /expected '\)'/);
+    assert.throws(() => parseQuery('size > 1GB limit 0'), /limit must be a positive integer/);
+    assert.throws(() => parseQuery('size > 1GB size < 2GB'), /unexpected 'size' at position 12/);
+    assert.throws(() => parseQuery('mtime > yesterday'), /expected a date/);
+  });
+});
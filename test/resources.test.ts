@@ -0,0 +1,99 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import { McpError } from '@modelcontextprotocol/sdk/types.js';
+import { MemoryBackend } from '../src/storage.js';
+import { XRootDClient } from '../src/xrootd.js';
+import { XRootDResources, buildResourceUri, parseResourceUri, guessMimeType, MAX_RESOURCE_FILE_BYTES } from '../src/resources.js';
+
+const BASE = '/work/eic2/EPIC';
+
+function buildResources(): XRootDResources {
+  const backend = MemoryBackend.fromFixture({
+    entries: [
+      { path: `${BASE}/README.md`, content: '# EPIC\n' },
+      { path: `${BASE}/RECO/24.07.0/minQ2=1/job.log`, content: 'done\n' },
+      { path: `${BASE}/RECO/24.07.0/minQ2=1/a.edm4eic.root`, size: 2 * MAX_RESOURCE_FILE_BYTES },
+      { path: `${BASE}/LOGS/core.bin`, content: 'AAECAw==', encoding: 'base64' },
+    ],
+  });
+  const client = new XRootDClient('root://localhost', BASE, false, 60, 1000, backend);
+  return new XRootDResources(new Map([['jlab', client]]));
+}
+
+describe('resource URIs', () => {
+  it('round-trips absolute paths, keeping "=" readable', () => {
+    const uri = buildResourceUri('jlab', `${BASE}/RECO/24.07.0/minQ2=1/job.log`);
+    assert.equal(uri, 'xrootd://jlab/work/eic2/EPIC/RECO/24.07.0/minQ2=1/job.log');
+    assert.deepEqual(parseResourceUri(uri), { server: 'jlab', path: `${BASE}/RECO/24.07.0/minQ2=1/job.log` });
+  });
+
+  it('escapes characters that would break the URI', () => {
+    const uri = buildResourceUri('jlab', '/data/run #1?.txt');
+    assert.equal(uri, 'xrootd://jlab/data/run%20%231%3F.txt');
+    assert.equal(parseResourceUri(uri).path, '/data/run #1?.txt');
+  });
+
+  it('rejects other schemes and relative segments', () => {
+    assert.throws(() => parseResourceUri('root://jlab/work'), McpError);
+    assert.throws(() => parseResourceUri('xrootd://jlab/work/../etc'), /relative segments/);
+  });
+
+  it('guesses MIME types from extensions', () => {
+    assert.equal(guessMimeType('/a/README.md'), 'text/markdown');
+    assert.equal(guessMimeType('/a/job.log'), 'text/plain');
+    assert.equal(guessMimeType('/a/noext'), undefined);
+  });
+});
+
+describe('XRootDResources', () => {
+  it('lists the base directory and its entries', async () => {
+    const list = await buildResources().listResources();
+    assert.deepEqual(list.map(r => r.uri), [
+      'xrootd://jlab/work/eic2/EPIC',
+      'xrootd://jlab/work/eic2/EPIC/LOGS',
+      'xrootd://jlab/work/eic2/EPIC/README.md',
+      'xrootd://jlab/work/eic2/EPIC/RECO',
+    ]);
+    assert.equal(list.find(r => r.name === 'README.md')!.size, 7);
+  });
+
+  it('offers one path template per server', () => {
+    const templates = buildResources().listResourceTemplates();
+    assert.equal(templates.length, 1);
+    assert.equal(templates[0].uriTemplate, 'xrootd://jlab/{+path}');
+  });
+
+  it('reads directories as JSON listings with entry URIs', async () => {
+    const result = await buildResources().readResource('xrootd://jlab/work/eic2/EPIC/RECO/24.07.0/minQ2=1');
+    const content = result.contents[0] as { text: string; mimeType: string };
+    assert.equal(content.mimeType, 'application/json');
+    const listing = JSON.parse(content.text);
+    assert.equal(listing.totalEntries, 2);
+    assert.ok(listing.entries.some((e: any) => e.uri === 'xrootd://jlab/work/eic2/EPIC/RECO/24.07.0/minQ2=1/job.log'));
+  });
+
+  it('reads small text files as text and binary files as blobs', async () => {
+    const resources = buildResources();
+    const [text] = (await resources.readResource('xrootd://jlab/work/eic2/EPIC/README.md')).contents;
+    assert.ok('text' in text && !('blob' in text));
+    assert.equal(text.text, '# EPIC\n');
+    assert.equal(text.mimeType, 'text/markdown');
+
+    const [binary] = (await resources.readResource('xrootd://jlab/work/eic2/EPIC/LOGS/core.bin')).contents;
+    assert.ok('blob' in binary && !('text' in binary));
+    assert.equal(binary.blob, 'AAECAw==');
+  });
+
+  it('refuses large files and unknown servers', async () => {
+    const resources = buildResources();
+    await assert.rejects(
+      resources.readResource('xrootd://jlab/work/eic2/EPIC/RECO/24.07.0/minQ2=1/a.edm4eic.root'),
+      /use the read_file tool/
+    );
+    await assert.rejects(resources.readResource('xrootd://other/work'), /Unknown server/);
+  });
+
+  it('enforces the base directory', async () => {
+    await assert.rejects(buildResources().readResource('xrootd://jlab/etc/passwd'), /outside base directory/);
+  });
+});
@@ -1,15 +1,34 @@
-import { describe, it, before } from 'node:test';
+import { describe, it, before, after } from 'node:test';
 import assert from 'node:assert';
 import { XRootDClient } from '../src/xrootd.js';
 import { ROOTAnalyzer, CopyRequiredError } from '../src/root-analysis.js';
+import { installFakeXRootD, FakeXRootD } from './helpers/harness.js';
 
-const XROOTD_SERVER = process.env.XROOTD_SERVER || 'root://dtn-eic.jlab.org';
+// Without XROOTD_SERVER, xrdcp is replaced by a fake serving an empty
+// namespace and HTTP access targets an unused local port, so the file-level
+// tests skip quickly instead of waiting on an unreachable endpoint.
+const USE_FAKE_XROOTD = !process.env.XROOTD_SERVER;
+const XROOTD_SERVER = process.env.XROOTD_SERVER || 'root://localhost:19999';
 const TEST_ROOT_FILE = process.env.TEST_ROOT_FILE || '/work/eic2/EPIC/RECO/24.07.0/epic_craterlake/DIS/NC/18x275/q2_0.001_1.0/pythia8NCDIS_18x275_minQ2=0.001_beamEffects_xAngle=-0.025_hiDiv_1.0000.eicrecon.tree.edm4eic.root';
 
 function isCopyRequiredError(error: unknown): error is CopyRequiredError {
   return error instanceof CopyRequiredError;
 }
 
+let fakeXRootD: FakeXRootD | undefined;
+
+before(async () => {
+  if (USE_FAKE_XROOTD) {
+    fakeXRootD = await installFakeXRootD({ entries: [] });
+    process.env.PATH = fakeXRootD.env.PATH;
+    process.env.FAKE_XROOTD_FIXTURE = fakeXRootD.env.FAKE_XROOTD_FIXTURE;
+  }
+});
+
+after(async () => {
+  await fakeXRootD?.cleanup();
+});
+
 describe('ROOT File Analysis', () => {
   let client: XRootDClient;
   let analyzer: ROOTAnalyzer;
@@ -0,0 +1,111 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert';
+import { appendFile, mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { StorageSnapshotStore, applySnapshot, snapshotOf } from '../src/snapshots.js';
+import { MemoryBackend } from '../src/storage.js';
+import { StorageNode, XRootDClient } from '../src/xrootd.js';
+
+const BASE = '/work/eic2/EPIC';
+
+function setup(): { client: XRootDClient; backend: MemoryBackend } {
+  const backend = new MemoryBackend();
+  const add = (path: string, size: number): void => backend.addFile(`${BASE}/RECO/${path}`, size);
+  add('24.07.0/epic_craterlake/DIS/NC/18x275/q2_1_10/a.root', 600);
+  add('24.07.0/epic_craterlake/DIS/NC/18x275/q2_10_100/a.root', 200);
+  add('24.07.0/epic_craterlake/DIS/NC/18x275/q2_10_100/b.root', 200);
+  // No beam-energy level: the process is the dataset
+  add('24.07.0/epic_craterlake/SINGLE/e-/1GeV/a.root', 100);
+  // Outside any dataset
+  add('24.07.0/epic_craterlake/README.txt', 50);
+  add('24.07.0/epic_brycecanyon/DIS/CC/10x100/a.root', 850);
+  add('24.06.0/epic_craterlake/DIS/NC/18x275/minQ2=1/a.root', 1000);
+  backend.addDirectory(`${BASE}/RECO/24.07.0/epic_craterlake/EXCLUSIVE/DVCS`);
+  return { client: new XRootDClient('root://localhost', BASE, false, 60, 1000, backend), backend };
+}
+
+// name, level, files, bytes and share of every node, depth first
+function flatten(node: StorageNode): Array<[string, string, number, number, number]> {
+  return [[node.name, node.level, node.fileCount, node.totalSize, Number(node.share.toFixed(3))], ...node.children.flatMap(flatten)];
+}
+
+describe('XRootDClient.getStorageReport', () => {
+  it('breaks campaigns down by detector, process and dataset', async () => {
+    const report = await setup().client.getStorageReport(['24.07.0', '24.06.0']);
+    assert.equal(report.fileCount, 7);
+    assert.equal(report.totalSize, 3000);
+    assert.deepEqual(report.campaigns.map(flatten), [
+      [
+        ['24.07.0', 'campaign', 6, 2000, 0.667],
+        ['epic_craterlake', 'detector', 5, 1150, 0.575],
+        ['DIS/NC', 'process', 3, 1000, 0.87],
+        ['18x275/q2_1_10', 'dataset', 1, 600, 0.6],
+        ['18x275/q2_10_100', 'dataset', 2, 400, 0.4],
+        ['SINGLE/e-', 'process', 1, 100, 0.087],
+        ['EXCLUSIVE/DVCS', 'process', 0, 0, 0],
+        ['epic_brycecanyon', 'detector', 1, 850, 0.425],
+        ['DIS/CC', 'process', 1, 850, 1],
+        ['10x100', 'dataset', 1, 850, 1],
+      ],
+      [
+        ['24.06.0', 'campaign', 1, 1000, 0.333],
+        ['epic_craterlake', 'detector', 1, 1000, 1],
+        ['DIS/NC', 'process', 1, 1000, 1],
+        ['18x275/minQ2=1', 'dataset', 1, 1000, 1],
+      ],
+    ]);
+  });
+
+  it('fails for a missing campaign', async () => {
+    await assert.rejects(setup().client.getStorageReport(['25.01.0']), /Failed to report storage of campaign 25.01.0/);
+  });
+});
+
+describe('storage report snapshots', () => {
+  let dir: string;
+
+  before(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'xrootd-snapshots-'));
+  });
+
+  after(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('reports growth since the latest snapshot before a date', async () => {
+    const { client, backend } = setup();
+    const store = new StorageSnapshotStore(dir, 'jlab');
+    store.save(snapshotOf(await client.getStorageReport(['24.07.0']), new Date('2026-09-01T00:00:00Z')));
+    backend.addFile(`${BASE}/RECO/24.07.0/epic_craterlake/DIS/NC/18x275/q2_1_10/b.root`, 300);
+    backend.addFile(`${BASE}/RECO/24.07.0/epic_craterlake/DIS/NC/18x275/q2_100_1000/a.root`, 100);
+    store.save(snapshotOf(await client.getStorageReport(['24.07.0']), new Date('2026-10-01T00:00:00Z')));
+    // Neither another RECO path nor a torn last line is picked up
+    store.save({ takenAt: new Date('2026-10-03T00:00:00Z'), recoPath: 'RECO-test', nodes: new Map() });
+    await appendFile(store.file, '{"takenAt": "2026-10-04');
+
+    const report = await client.getStorageReport(['24.07.0', '24.06.0']);
+    const previous = store.latest('RECO', new Date('2026-09-15T00:00:00Z'))!;
+    assert.equal(previous.takenAt.toISOString(), '2026-09-01T00:00:00.000Z');
+    applySnapshot(report, previous);
+
+    const [campaign, other] = report.campaigns;
+    assert.deepEqual([campaign.previousSize, campaign.growth, campaign.previousFileCount, campaign.fileCount], [2000, 400, 6, 8]);
+    const process = campaign.children[0].children[0];
+    assert.deepEqual(process.children.map(d => [d.name, d.growth, d.isNew]), [
+      ['18x275/q2_1_10', 300, undefined],
+      ['18x275/q2_10_100', 0, undefined],
+      ['18x275/q2_100_1000', undefined, true],
+    ]);
+    // The earlier snapshot did not cover this campaign
+    assert.deepEqual([other.growth, other.previousSize, other.isNew], [undefined, undefined, true]);
+    assert.equal(other.children[0].isNew, true);
+
+    assert.equal(store.load('RECO').length, 2);
+    assert.equal(store.latest('RECO')!.takenAt.toISOString(), '2026-10-01T00:00:00.000Z');
+    assert.equal(store.load('RECO/').length, 2, 'trailing slashes name the same directory');
+    assert.equal(store.load('./RECO').length, 2);
+    assert.equal(store.latest('RECO', new Date('2026-08-01T00:00:00Z')), undefined);
+    assert.deepEqual(new StorageSnapshotStore(dir, 'bnl').load('RECO'), []);
+  });
+});
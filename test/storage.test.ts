@@ -0,0 +1,138 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert';
+import { mkdtemp, mkdir, writeFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { MemoryBackend, LocalBackend } from '../src/storage.js';
+import { XRootDClient } from '../src/xrootd.js';
+
+const BASE = '/work/eic2/EPIC';
+
+function buildMemoryBackend(): MemoryBackend {
+  return MemoryBackend.fromFixture({
+    entries: [
+      { path: `${BASE}/README.md`, content: '# EPIC\n', mtime: '2024-07-01T00:00:00Z' },
+      { path: `${BASE}/RECO/24.07.0/epic_craterlake/DIS/NC/18x275/a.edm4eic.root`, size: 1000 },
+      { path: `${BASE}/RECO/24.07.0/epic_craterlake/DIS/NC/18x275/b.edm4eic.root`, size: 2000 },
+      { path: `${BASE}/RECO/24.07.0/epic_craterlake/DIS/NC/18x275/job.log`, content: 'done\n' },
+      { path: `${BASE}/EVGEN`, type: 'directory' },
+    ],
+  });
+}
+
+describe('MemoryBackend', () => {
+  it('creates parent directories implicitly', async () => {
+    const backend = buildMemoryBackend();
+    const entries = await backend.listDirectory(BASE);
+    assert.deepEqual(entries.map(e => e.name), ['EVGEN', 'README.md', 'RECO']);
+    assert.equal(entries.find(e => e.name === 'RECO')!.isDirectory, true);
+    assert.equal(entries.find(e => e.name === 'README.md')!.size, 7);
+  });
+
+  it('stats files and directories', async () => {
+    const backend = buildMemoryBackend();
+    const info = await backend.stat(`${BASE}/README.md`);
+    assert.equal(info.size, 7);
+    assert.equal(info.isDirectory, false);
+    assert.equal(info.modificationTime.toISOString(), '2024-07-01T00:00:00.000Z');
+    assert.equal((await backend.stat(`${BASE}/EVGEN`)).isDirectory, true);
+  });
+
+  it('reports missing paths as "No such file or directory"', async () => {
+    const backend = buildMemoryBackend();
+    await assert.rejects(backend.stat(`${BASE}/missing`), /No such file or directory/);
+    await assert.rejects(backend.listDirectory(`${BASE}/missing`), /No such file or directory/);
+  });
+
+  it('reads byte ranges with an exclusive end', async () => {
+    const backend = buildMemoryBackend();
+    assert.equal((await backend.readFile(`${BASE}/README.md`)).toString(), '# EPIC\n');
+    assert.equal((await backend.readFile(`${BASE}/README.md`, 2, 6)).toString(), 'EPIC');
+    const sized = await backend.readFile(`${BASE}/RECO/24.07.0/epic_craterlake/DIS/NC/18x275/a.edm4eic.root`, 0, 10);
+    assert.equal(sized.length, 10);
+  });
+
+  it('finds files by name glob below a base path', async () => {
+    const backend = buildMemoryBackend();
+    const found = await backend.find(`${BASE}/RECO`, '*.root');
+    assert.equal(found.length, 2);
+    assert.ok(found.every(p => p.endsWith('.edm4eic.root')));
+  });
+
+  it('removes subtrees', async () => {
+    const backend = buildMemoryBackend();
+    backend.remove(`${BASE}/RECO`);
+    const entries = await backend.listDirectory(BASE);
+    assert.deepEqual(entries.map(e => e.name), ['EVGEN', 'README.md']);
+    assert.deepEqual(await backend.find(BASE, '*.root'), []);
+  });
+});
+
+describe('LocalBackend', () => {
+  let rootDir: string;
+
+  before(async () => {
+    rootDir = await mkdtemp(join(tmpdir(), 'xrootd-mcp-local-'));
+    await mkdir(join(rootDir, 'RECO', '24.07.0'), { recursive: true });
+    await writeFile(join(rootDir, 'RECO', '24.07.0', 'a.root'), Buffer.alloc(64));
+    await writeFile(join(rootDir, 'notes.txt'), 'hello world');
+  });
+
+  after(async () => {
+    await rm(rootDir, { recursive: true, force: true });
+  });
+
+  it('maps the mount point onto the local directory', async () => {
+    const backend = new LocalBackend(rootDir, BASE);
+    const entries = await backend.listDirectory(BASE);
+    assert.deepEqual(entries.map(e => e.name).sort(), ['RECO', 'notes.txt']);
+    const info = await backend.stat(`${BASE}/RECO/24.07.0/a.root`);
+    assert.equal(info.size, 64);
+    assert.equal(info.path, `${BASE}/RECO/24.07.0/a.root`);
+  });
+
+  it('refuses paths outside the mount point', async () => {
+    const backend = new LocalBackend(rootDir, BASE);
+    await assert.rejects(backend.listDirectory('/etc'), /outside the local mirror/);
+    await assert.rejects(backend.readFile(`${BASE}/../../etc/passwd`), /outside the local mirror/);
+    await assert.rejects(backend.stat(`${BASE}/RECO/../../secret`), /outside the local mirror/);
+  });
+
+  it('refuses paths climbing out of the local directory', async () => {
+    const backend = new LocalBackend(rootDir);
+    assert.equal((await backend.readFile('/notes.txt')).toString(), 'hello world');
+    await assert.rejects(backend.readFile('../notes.txt'), /Permission denied/);
+    await assert.rejects(backend.listDirectory('RECO/../../..'), /Permission denied/);
+  });
+
+  it('reads byte ranges and finds files', async () => {
+    const backend = new LocalBackend(rootDir, BASE);
+    assert.equal((await backend.readFile(`${BASE}/notes.txt`, 6, 11)).toString(), 'world');
+    assert.deepEqual(await backend.find(BASE, '*.root'), [`${BASE}/RECO/24.07.0/a.root`]);
+  });
+});
+
+describe('XRootDClient with a pluggable backend', () => {
+  it('delegates listing, stat, read and search to the backend', async () => {
+    const client = new XRootDClient('root://localhost', BASE, true, 60, 1000, buildMemoryBackend());
+    assert.equal(client.getBackendKind(), 'memory');
+
+    const campaigns = await client.listCampaigns('RECO');
+    assert.deepEqual(campaigns.map(c => c.name), ['24.07.0']);
+
+    const info = await client.getFileInfo('README.md');
+    assert.equal(info.path, `${BASE}/README.md`);
+    assert.equal((await client.readFile('README.md')).toString(), '# EPIC\n');
+
+    const results = await client.searchFiles('*.root', 'RECO');
+    assert.equal(results.length, 2);
+    assert.equal(await client.getDirectorySize('RECO'), 3005);
+  });
+
+  it('still enforces the base directory', async () => {
+    const client = new XRootDClient('root://localhost', BASE, false, 60, 1000, buildMemoryBackend());
+    await assert.rejects(client.listDirectory('/etc'), /Access denied/);
+    await assert.rejects(client.readFile('../../secret'), /Access denied/);
+    await assert.rejects(client.readFile(`${BASE}/../../etc/passwd`), /Access denied/);
+  });
+});
@@ -0,0 +1,662 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StdioClientTransport } from '@modelcontextprotocol/sdk/client/stdio.js';
+import { ResourceUpdatedNotificationSchema } from '@modelcontextprotocol/sdk/types.js';
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import type { StorageFixture } from '../src/storage.js';
+import { installFakeXRootD, FakeXRootD } from './helpers/harness.js';
+import { buildEpicFixture, FIXTURE_BASE_DIR, FIXTURE_DATASET_DIR, FIXTURE_LARGE_DIR } from './helpers/fixture.js';
+
+// Hermetic end-to-end tests: the MCP server runs with fake xrdfs/xrdcp tools
+// on PATH that serve the fixture tree from test/helpers/fixture.ts, so every
+// tool can be exercised without a reachable XRootD endpoint.  The unused
+// port makes jsroot's HTTP access fail immediately.
+const FAKE_SERVER = 'root://localhost:19999';
+
+function fixtureSize(fixture: StorageFixture, prefix: string): number {
+  const fullPrefix = `${FIXTURE_BASE_DIR}/${prefix}/`;
+  return fixture.entries
+    .filter(e => e.path.startsWith(fullPrefix))
+    .reduce((sum, e) => sum + (e.size ?? Buffer.byteLength(e.content ?? '', e.encoding === 'base64' ? 'base64' : 'utf-8')), 0);
+}
+
+describe('MCP tools against the fake XRootD harness', () => {
+  let fake: FakeXRootD;
+  let client: Client;
+  let snapshotDir: string;
+  const fixture = buildEpicFixture();
+
+  async function call(name: string, args: Record<string, unknown> = {}): Promise<CallToolResult> {
+    return await client.callTool({ name, arguments: args }) as CallToolResult;
+  }
+
+  function textOf(result: CallToolResult): string {
+    const first = result.content[0];
+    assert.strictEqual(first.type, 'text');
+    return first.text;
+  }
+
+  async function callJson(name: string, args: Record<string, unknown> = {}): Promise<any> {
+    const result = await call(name, args);
+    assert.ok(!result.isError, `${name} failed: ${textOf(result)}`);
+    return JSON.parse(textOf(result));
+  }
+
+  before(async () => {
+    fake = await installFakeXRootD(fixture);
+    snapshotDir = await mkdtemp(join(tmpdir(), 'xrootd-snapshots-'));
+    const env = {
+      ...fake.env,
+      XROOTD_SERVER: FAKE_SERVER,
+      XROOTD_BASE_DIR: FIXTURE_BASE_DIR,
+      XROOTD_WATCH_INTERVAL: '1',
+      XROOTD_SNAPSHOT_DIR: snapshotDir,
+    };
+    delete (env as Record<string, string>).XROOTD_SERVERS;
+    const transport = new StdioClientTransport({
+      command: process.execPath,
+      args: ['build/src/index.js'],
+      env,
+    });
+    client = new Client({ name: 'xrootd-hermetic-test-client', version: '1.0.0' }, { capabilities: {} });
+    await client.connect(transport);
+  });
+
+  after(async () => {
+    await client.close();
+    await fake.cleanup();
+    await rm(snapshotDir, { recursive: true, force: true });
+  });
+
+  it('list_servers reports the configured server and backend', async () => {
+    const body = await callJson('list_servers');
+    assert.equal(body.servers.length, 1);
+    assert.equal(body.servers[0].name, 'default');
+    assert.equal(body.servers[0].backend, 'xrdfs');
+  });
+
+  it('list_servers reports cache hits and memory use', async () => {
+    await callJson('list_directory', { path: 'EVGEN' });
+    await callJson('list_directory', { path: 'EVGEN' });
+    const stats = (await callJson('list_servers')).servers[0].cacheStats;
+    assert.equal(stats.enabled, true);
+    assert.ok(stats.hits >= 1);
+    assert.ok(stats.misses >= 1);
+    assert.ok(stats.bytes > 0);
+    assert.equal(typeof stats.hitRate, 'number');
+    assert.equal(typeof stats.bytesHuman, 'string');
+  });
+
+  it('cache_prewarm, cache_inspect and cache_invalidate manage cached listings', async () => {
+    const prewarm = await callJson('cache_prewarm', { path: 'RECO/24.07.0', maxDepth: 1, wait: true });
+    assert.equal(prewarm.status, 'finished');
+    assert.equal(prewarm.path, `${FIXTURE_BASE_DIR}/RECO/24.07.0`);
+    assert.ok(prewarm.directories >= 2);
+
+    const inspect = await callJson('cache_inspect', { path: 'RECO/24.07.0' });
+    assert.equal(inspect.totalListings, prewarm.directories);
+    assert.equal(typeof inspect.listings[0].ageSeconds, 'number');
+    assert.equal(inspect.prewarmJobs.length, 1);
+
+    const invalidated = await callJson('cache_invalidate', { path: 'RECO/24.07.0', recursive: true });
+    assert.equal(invalidated.invalidated, prewarm.directories);
+    assert.equal((await callJson('cache_inspect', { path: 'RECO/24.07.0' })).totalListings, 0);
+  });
+
+  it('list_directory parses xrdfs ls -l output', async () => {
+    const body = await callJson('list_directory', { path: '.' });
+    const names = body.entries.map((e: any) => e.name).sort();
+    assert.deepEqual(names, ['EVGEN', 'LOGS', 'README.md', 'RECO']);
+    const reco = body.entries.find((e: any) => e.name === 'RECO');
+    assert.equal(reco.isDirectory, true);
+    const readme = body.entries.find((e: any) => e.name === 'README.md');
+    assert.equal(readme.isDirectory, false);
+    assert.equal(new Date(readme.modificationTime).toISOString(), '2024-07-15T10:00:00.000Z');
+  });
+
+  it('list_directory paginates large directories', async () => {
+    const body = await callJson('list_directory', { path: FIXTURE_LARGE_DIR, limit: 5, offset: 5 });
+    assert.equal(body.totalEntries, 12);
+    assert.equal(body.returnedEntries, 5);
+    assert.equal(body.hasMore, true);
+    assert.equal(body.nextOffset, 10);
+  });
+
+  it('get_file_info parses xrdfs stat output', async () => {
+    const file = await callJson('get_file_info', { path: 'README.md' });
+    assert.equal(file.path, `${FIXTURE_BASE_DIR}/README.md`);
+    assert.equal(file.isDirectory, false);
+    const readme = fixture.entries.find(e => e.path === `${FIXTURE_BASE_DIR}/README.md`)!;
+    assert.equal(file.size, Buffer.byteLength(readme.content!));
+    assert.equal(new Date(file.modificationTime).toISOString(), '2024-07-15T10:00:00.000Z');
+
+    const dir = await callJson('get_file_info', { path: 'RECO' });
+    assert.equal(dir.isDirectory, true);
+  });
+
+  it('read_file returns file contents through xrdcp', async () => {
+    const result = await call('read_file', { path: 'README.md' });
+    assert.ok(!result.isError, textOf(result));
+    assert.ok(textOf(result).startsWith('# EPIC simulation campaigns'));
+  });
+
+  it('read_file honours byte ranges', async () => {
+    const result = await call('read_file', { path: 'README.md', start: 2, end: 6 });
+    assert.ok(!result.isError, textOf(result));
+    assert.equal(textOf(result), 'EPIC');
+  });
+
+  it('read_file reports a nextStart cursor when maxBytes truncates', async () => {
+    const result = await call('read_file', { path: 'README.md', maxBytes: 6 });
+    assert.ok(!result.isError, textOf(result));
+    assert.equal(textOf(result), '# EPIC');
+    const second = result.content[1];
+    assert.strictEqual(second.type, 'text');
+    const metadata = JSON.parse(second.text);
+    assert.equal(metadata.hasMore, true);
+    assert.equal(metadata.nextStart, 6);
+    assert.equal(metadata.encoding, 'utf-8');
+
+    const next = await call('read_file', { path: 'README.md', start: metadata.nextStart, maxBytes: 11 });
+    assert.equal(textOf(next), ' simulation');
+  });
+
+  it('read_file rejects invalid byte ranges', async () => {
+    for (const [args, parameter] of [
+      [{ start: -1 }, 'start'],
+      [{ start: 1.5 }, 'start'],
+      [{ start: 'abc' }, 'start'],
+      [{ end: -3 }, 'end'],
+      [{ start: 6, end: 2 }, 'end'],
+    ] as const) {
+      const result = await call('read_file', { path: 'README.md', ...args });
+      assert.equal(result.isError, true);
+      assert.match(textOf(result), new RegExp(`Invalid "${parameter}" parameter`));
+    }
+  });
+
+  it('read_file reads paths containing "=" through xrdcp', async () => {
+    const result = await call('read_file', { path: `${FIXTURE_LARGE_DIR}/job.log` });
+    assert.ok(!result.isError, textOf(result));
+    assert.equal(textOf(result), 'job finished\n');
+  });
+
+  it('read_file refuses binary data unless an encoding is given', async () => {
+    const refused = await call('read_file', { path: 'LOGS/core.bin' });
+    assert.equal(refused.isError, true);
+    assert.match(textOf(refused), /appears to be binary/);
+
+    const base64 = await call('read_file', { path: 'LOGS/core.bin', encoding: 'base64' });
+    assert.ok(!base64.isError, textOf(base64));
+    assert.equal(textOf(base64), 'AAEC//5/ABA=');
+
+    const dump = await call('read_file', { path: 'LOGS/core.bin', encoding: 'hex-dump' });
+    assert.ok(!dump.isError, textOf(dump));
+    assert.match(textOf(dump), /^00000000  00 01 02 ff fe 7f 00 10\s+\|\.\.\.\.\.\.\.\.\|$/);
+  });
+
+  it('check_file_exists distinguishes existing and missing paths', async () => {
+    assert.equal((await callJson('check_file_exists', { path: 'README.md' })).exists, true);
+    assert.equal((await callJson('check_file_exists', { path: 'nope.txt' })).exists, false);
+  });
+
+  it('get_directory_size sums the subtree', async () => {
+    const body = await callJson('get_directory_size', { path: 'RECO/24.07.0' });
+    assert.equal(body.size, fixtureSize(fixture, 'RECO/24.07.0'));
+  });
+
+  it('search_files finds files by glob and by regex', async () => {
+    const glob = await callJson('search_files', { pattern: '*.edm4eic.root', basePath: 'RECO/24.07.0' });
+    assert.equal(glob.matchCount, 5);
+    assert.ok(glob.results.every((r: any) => r.size > 0));
+
+    const regex = await callJson('search_files', { pattern: '^job\\.log$', basePath: 'RECO', useRegex: true });
+    assert.equal(regex.matchCount, 1);
+    assert.ok(regex.results[0].path.endsWith('/minQ2=1/job.log'));
+  });
+
+  it('search_files matches path globs and brace alternations', async () => {
+    const path = await callJson('search_files', { pattern: 'RECO/24.*/epic_craterlake/DIS/**/q2_1_*/*.edm4eic.root' });
+    assert.equal(path.matchCount, 1);
+    assert.ok(path.results[0].path.endsWith('/DIS/NC/10x100/q2_1_10/pythia8NCDIS_10x100_minQ2=1_beamEffects_xAngle=-0.025_hiDiv_1.0000.eicrecon.tree.edm4eic.root'));
+
+    const names = await callJson('search_files', { pattern: '{job.log,README.txt}', basePath: 'RECO' });
+    assert.deepEqual(names.results.map((r: any) => r.path.split('/').pop()), ['README.txt', 'job.log']);
+  });
+
+  it('search_files and list_directory parse, filter and group by EPIC file name fields', async () => {
+    const grouped = await callJson('search_files', { pattern: '*.edm4eic.root', basePath: 'RECO', groupBy: 'hadronEnergy' });
+    assert.equal(grouped.matchCount, 16);
+    assert.deepEqual(grouped.groups.map((g: any) => [g.value, g.count]), [[100, 12], [275, 4]]);
+    assert.equal(grouped.results[0].fields.format, 'edm4eic');
+
+    const filtered = await callJson('search_files', {
+      pattern: '*.root',
+      basePath: 'RECO',
+      fieldFilter: { beamEnergy: '18x275', minQ2: 0.001 },
+    });
+    assert.equal(filtered.matchCount, 3);
+    assert.deepEqual(filtered.results.map((r: any) => r.fields.fileIndex), [0, 1, 2]);
+
+    const plain = await callJson('search_files', { pattern: '*.edm4eic.root', basePath: 'RECO/24.07.0' });
+    assert.equal(plain.results[0].fields, undefined);
+
+    const listing = await callJson('list_directory', { path: FIXTURE_LARGE_DIR, parse_file_names: true });
+    assert.equal(listing.totalEntries, 12);
+    assert.equal(listing.entries.find((e: any) => e.name === 'job.log').fields, undefined);
+    assert.ok(listing.entries.filter((e: any) => e.name !== 'job.log').every((e: any) => e.fields.minQ2 === 1));
+    const indexed = await callJson('list_directory', { path: FIXTURE_LARGE_DIR, fieldFilter: { fileIndex: [0, 10] } });
+    assert.equal(indexed.totalEntries, 2);
+
+    const invalid = await call('search_files', { pattern: '*.root', groupBy: 'detector' });
+    assert.equal(invalid.isError, true);
+    assert.match(textOf(invalid), /Invalid "groupBy" parameter/);
+  });
+
+  it('get_statistics aggregates the tree', async () => {
+    const body = await callJson('get_statistics', { path: 'RECO/24.07.0' });
+    assert.equal(body.totalFiles, 6);
+    assert.equal(body.totalSize, fixtureSize(fixture, 'RECO/24.07.0'));
+    assert.equal(body.sizeByExtension.root.count, 5);
+    assert.equal(body.sizeByExtension.txt.count, 1);
+  });
+
+  it('get_statistics sends progress notifications when asked for them', async () => {
+    const updates: Array<{ progress: number; message?: string }> = [];
+    const result = await client.callTool(
+      { name: 'get_statistics', arguments: { path: 'RECO' } },
+      undefined,
+      { onprogress: update => updates.push(update) }
+    ) as CallToolResult;
+    assert.ok(!result.isError, textOf(result));
+    assert.ok(updates.length >= 1);
+    assert.equal(updates[0].progress, 1);
+    assert.match(updates[0].message ?? '', /^Scanned 1 directories \(\d+ files\)$/);
+  });
+
+  it('list_directory_filtered applies extension and size filters', async () => {
+    const body = await callJson('list_directory_filtered', {
+      path: FIXTURE_LARGE_DIR,
+      extension: '.root',
+      minSize: 54 * 1024 * 1024,
+    });
+    assert.equal(body.matchCount, 7);
+  });
+
+  it('list_directory_filtered walks recursively, sorts and paginates', async () => {
+    const body = await callJson('list_directory_filtered', {
+      path: 'RECO/26.03.0',
+      extension: ['.root', '.log'],
+      recursive: true,
+      sortBy: 'size',
+      sortOrder: 'desc',
+      limit: 3,
+    });
+    assert.equal(body.matchCount, 12);
+    assert.deepEqual(body.entries.map((e: any) => e.size / (1024 * 1024)), [60, 59, 58]);
+    assert.equal(body.hasMore, true);
+    assert.equal(body.nextOffset, 3);
+
+    const last = await callJson('list_directory_filtered', {
+      path: 'RECO/26.03.0',
+      extension: '.root,.log',
+      recursive: true,
+      sortBy: 'size',
+      sortOrder: 'desc',
+      offset: 11,
+    });
+    assert.equal(last.returnedEntries, 1);
+    assert.equal(last.hasMore, false);
+    assert.ok(last.entries[0].path.endsWith('/minQ2=1/job.log'));
+  });
+
+  it('query_files combines conditions, sort keys and limit', async () => {
+    const body = await callJson('query_files', {
+      query: 'name ~ "*.edm4eic.root" and size > 54MB and path ~ "DIS/NC" sort by size desc limit 3',
+      basePath: 'RECO',
+    });
+    assert.equal(body.totalMatches, 7);
+    assert.equal(body.truncated, true);
+    assert.deepEqual(body.results.map((r: any) => r.size / (1024 * 1024)), [80, 60, 59]);
+
+    const recent = await callJson('query_files', { query: 'mtime > -1d', basePath: 'RECO' });
+    assert.equal(recent.totalMatches, 3);
+
+    const invalid = await call('query_files', { query: 'size > lots' });
+    assert.ok(invalid.isError);
+    assert.match(textOf(invalid), /Invalid query: expected a size/);
+    assert.match(textOf(await call('query_files', { query: 'size > 1MB', limit: 'abc' })), /Invalid "limit" parameter/);
+    assert.match(textOf(await call('query_files', { query: 'size > 1MB', limit: -1 })), /Invalid "limit" parameter/);
+    assert.match(textOf(await call('query_files', { query: 'size > 1MB', maxDepth: 1.5 })), /Invalid "maxDepth" parameter/);
+  });
+
+  it('find_recent_files returns files modified within the window', async () => {
+    const body = await callJson('find_recent_files', { path: 'RECO', hours: 24 });
+    assert.equal(body.fileCount, 3);
+  });
+
+  it('list_campaigns lists RECO campaigns', async () => {
+    const body = await callJson('list_campaigns');
+    assert.deepEqual(body.campaigns.map((c: any) => c.name), ['24.07.0', '26.03.0']);
+  });
+
+  it('list_datasets follows the layout down to beam energies and Q2 bins', async () => {
+    const body = await callJson('list_datasets', { campaign: '24.07.0' });
+    assert.deepEqual(body.datasets.map((d: any) => d.name), [
+      'epic_craterlake/DIS/NC/10x100/q2_1_10',
+      'epic_craterlake/DIS/NC/18x275/q2_0.001_1.0',
+      'epic_craterlake/SIDIS/pythia6-eic/ep_18x275',
+    ]);
+    assert.deepEqual(body.datasets[1].fields, {
+      detector: 'epic_craterlake',
+      processType: 'DIS',
+      process: 'NC',
+      beamEnergy: '18x275',
+      electronEnergy: '18',
+      hadronEnergy: '275',
+      q2Range: 'q2_0.001_1.0',
+      q2Min: '0.001',
+      q2Max: '1.0',
+    });
+    assert.equal(body.datasets[2].fields.q2Range, undefined);
+  });
+
+  it('compare_campaigns reports dataset and size deltas between campaigns', async () => {
+    const body = await callJson('compare_campaigns', { base: '24.07.0', target: '26.03.0' });
+    assert.deepEqual(body.summary.added, 1);
+    assert.deepEqual(body.summary.removed, 3);
+    assert.deepEqual(body.summary.changed, 0);
+    assert.equal(
+      body.summary.totalSizeDelta,
+      fixtureSize(fixture, 'RECO/26.03.0') - fixtureSize(fixture, 'RECO/24.07.0') + Buffer.byteLength('Campaign 24.07.0\n')
+    );
+    const [minQ2, , , sidis] = body.datasets;
+    assert.equal(minQ2.name, 'epic_craterlake/DIS/NC/10x100/minQ2=1');
+    assert.equal(minQ2.status, 'added');
+    assert.equal(minQ2.fileCountDelta, 12);
+    assert.equal(minQ2.fields.minQ2, '1');
+    assert.equal(sidis.status, 'removed');
+    assert.equal(sidis.totalSizeDeltaHuman, '-60 MB');
+  });
+
+  it('check_dataset_completeness reports the file-index sequence of a dataset', async () => {
+    const body = await callJson('check_dataset_completeness', { path: FIXTURE_LARGE_DIR });
+    assert.equal(body.complete, true);
+    assert.equal(body.fileCount, 12);
+    assert.deepEqual(body.sequences.map((s: any) => [s.fileCount, s.firstIndex, s.lastIndex, s.missingCount]), [[11, 0, 10, 0]]);
+    assert.deepEqual(body.unindexedFiles, [`${FIXTURE_BASE_DIR}/${FIXTURE_LARGE_DIR}/job.log`]);
+
+    const expected = await callJson('check_dataset_completeness', { path: FIXTURE_LARGE_DIR, expectedFiles: 15, limit: 2 });
+    assert.equal(expected.complete, false);
+    assert.equal(expected.missingCount, 4);
+    assert.deepEqual(expected.sequences[0].missing, [11, 12]);
+
+    const invalid = await call('check_dataset_completeness', { path: FIXTURE_LARGE_DIR, firstIndex: -1 });
+    assert.equal(invalid.isError, true);
+    assert.match(textOf(invalid), /Invalid "firstIndex" parameter/);
+  });
+
+  it('storage_report renders a usage tree as JSON and Markdown and compares it with snapshots', async () => {
+    const first = await call('storage_report', { saveSnapshot: true });
+    assert.ok(!first.isError, textOf(first));
+    const body = JSON.parse(textOf(first));
+    assert.deepEqual(body.campaigns.map((c: any) => c.name), ['24.07.0', '26.03.0']);
+    assert.equal(body.totalSize, fixtureSize(fixture, 'RECO'));
+    assert.equal(body.comparedWith, undefined);
+    assert.equal(body.snapshotSaved, true);
+    const [detector] = body.campaigns[1].children;
+    assert.deepEqual([detector.name, detector.level, detector.share], ['epic_craterlake', 'detector', 1]);
+    assert.deepEqual(detector.children[0].children.map((d: any) => [d.name, d.fileCount]), [['10x100/minQ2=1', 12]]);
+
+    const markdown = (first.content[1] as { text: string }).text;
+    assert.match(markdown, /^## Storage usage of RECO /);
+    assert.match(markdown, /\| 26\.03\.0\/epic_craterlake\/DIS\/NC\/10x100\/minQ2=1 \| dataset \| 12 \| /);
+    assert.doesNotMatch(markdown, /Growth/);
+
+    const second = await call('storage_report', { campaigns: '24.07.0', depth: 'detector' });
+    const compared = JSON.parse(textOf(second));
+    assert.equal(compared.comparedWith, body.takenAt);
+    assert.equal(compared.growth, 0);
+    assert.deepEqual(compared.campaigns[0].children.map((d: any) => [d.name, d.children]), [['epic_craterlake', undefined]]);
+    assert.match((second.content[1] as { text: string }).text, /\| 24\.07\.0\/epic_craterlake \| detector \| 6 \| .* \| 100\.0% \| \+0 Bytes \|/);
+
+    const partial = await call('storage_report', { campaigns: '24.07.0', recoPath: 'RECO/', saveSnapshot: true });
+    assert.ok(!partial.isError, textOf(partial));
+    const third = await call('storage_report', {});
+    const withNew = JSON.parse(textOf(third));
+    assert.equal(withNew.comparedWith, JSON.parse(textOf(partial)).takenAt, 'RECO/ and RECO share their snapshots');
+    assert.deepEqual(withNew.campaigns.map((c: any) => [c.name, c.growth, c.isNew]), [['24.07.0', 0, undefined], ['26.03.0', undefined, true]]);
+    assert.match((third.content[1] as { text: string }).text, /\| 26\.03\.0 \| campaign \| .* \| new \|/);
+
+    const early = await call('storage_report', { since: '2020-01-01' });
+    assert.equal(early.isError, true);
+    assert.match(textOf(early), /No storage report snapshot of RECO was taken before 2020-01-01/);
+  });
+
+  it('summarize_recent_changes summarizes the window', async () => {
+    const body = await callJson('summarize_recent_changes', { path: 'RECO', hours: 24 });
+    assert.equal(body.totalFilesAdded, 3);
+    assert.equal(body.filesByExtension.root, 2);
+    assert.equal(body.filesByExtension.log, 1);
+  });
+
+  it('find_duplicates confirms same-size files with xrdfs query checksum', async () => {
+    const copy = `${FIXTURE_BASE_DIR}/RECO/26.03.0/epic_craterlake/README.txt`;
+    const duplicated = {
+      entries: [
+        ...fixture.entries,
+        { path: copy, content: 'Campaign 24.07.0\n' },
+        { path: `${FIXTURE_BASE_DIR}/RECO/26.03.0/epic_craterlake/NOTES.txt`, content: 'Campaign 26.03.0\n' },
+      ],
+    };
+    await writeFile(fake.env.FAKE_XROOTD_FIXTURE, JSON.stringify(duplicated));
+    try {
+      const single = await callJson('find_duplicates', { paths: 'RECO/24.07.0' });
+      assert.equal(single.duplicateGroups, 0);
+
+      const body = await callJson('find_duplicates', { paths: ['RECO/24.07.0', 'RECO/26.03.0'], method: 'checksum' });
+      // Size-only fixture files hold zeros, so the two 60 MB files match as well
+      assert.equal(body.duplicateGroups, 2);
+      assert.equal(body.groups[0].wastedBytesHuman, '60 MB');
+      assert.deepEqual(body.groups[1].paths, [`${FIXTURE_BASE_DIR}/RECO/24.07.0/epic_craterlake/README.txt`, copy]);
+      assert.match(body.groups[1].fingerprint, /^adler32:/);
+      assert.equal(body.totalWastedBytes, 60 * 1024 * 1024 + 17);
+
+      const limited = await callJson('find_duplicates', { paths: ['RECO/24.07.0', 'RECO/26.03.0'], limit: 1 });
+      assert.equal(limited.groups.length, 1);
+    } finally {
+      await writeFile(fake.env.FAKE_XROOTD_FIXTURE, JSON.stringify(fixture));
+    }
+  });
+
+  it('get_checksum queries the requested checksum type', async () => {
+    const path = 'RECO/24.07.0/epic_craterlake/README.txt';
+    const adler = await callJson('get_checksum', { path });
+    assert.equal(adler.algorithm, 'adler32');
+    assert.match(adler.value, /^[0-9a-f]{8}$/);
+    const md5 = await callJson('get_checksum', { path, algorithm: 'md5' });
+    assert.deepEqual(md5, { path, algorithm: 'md5', value: '8ab9d0cabaf14672e6449ac390c96a60' });
+
+    const invalid = await call('get_checksum', { path, algorithm: 'sha1' });
+    assert.equal(invalid.isError, true);
+  });
+
+  it('verify_checksums compares a dataset with its manifest', async () => {
+    const readme = await callJson('get_checksum', { path: 'RECO/24.07.0/epic_craterlake/README.txt' });
+    const manifest = {
+      path: `${FIXTURE_BASE_DIR}/RECO/24.07.0/epic_craterlake/checksums.json`,
+      content: JSON.stringify([
+        { path: 'README.txt', adler32: readme.value },
+        { path: 'SIDIS/missing.root', adler32: '00000001' },
+        { path: 'DIS/NC/10x100/q2_1_10/pythia8NCDIS_10x100_minQ2=1_beamEffects_xAngle=-0.025_hiDiv_1.0000.eicrecon.tree.edm4eic.root', adler32: '00000001' },
+      ]),
+    };
+    await writeFile(fake.env.FAKE_XROOTD_FIXTURE, JSON.stringify({ entries: [...fixture.entries, manifest] }));
+    try {
+      const body = await callJson('verify_checksums', { manifest: 'RECO/24.07.0/epic_craterlake/checksums.json' });
+      assert.equal(body.ok, false);
+      assert.equal(body.listed, 3);
+      assert.equal(body.verified, 1);
+      assert.equal(body.mismatchCount, 1);
+      assert.equal(body.mismatches[0].expected, '00000001');
+      assert.deepEqual(body.missing, [`${FIXTURE_BASE_DIR}/RECO/24.07.0/epic_craterlake/SIDIS/missing.root`]);
+    } finally {
+      await writeFile(fake.env.FAKE_XROOTD_FIXTURE, JSON.stringify(fixture));
+    }
+  });
+
+  describe('resources', () => {
+    it('lists the base directory and offers a path template', async () => {
+      const { resources } = await client.listResources();
+      assert.ok(resources.some(r => r.uri === `xrootd://default${FIXTURE_BASE_DIR}/README.md`));
+      const { resourceTemplates } = await client.listResourceTemplates();
+      assert.deepEqual(resourceTemplates.map(t => t.uriTemplate), ['xrootd://default/{+path}']);
+    });
+
+    it('reads a file and a directory by URI', async () => {
+      const file = await client.readResource({ uri: `xrootd://default${FIXTURE_BASE_DIR}/RECO/24.07.0/epic_craterlake/README.txt` });
+      assert.equal((file.contents[0] as { text: string }).text, 'Campaign 24.07.0\n');
+
+      const dir = await client.readResource({ uri: `xrootd://default${FIXTURE_BASE_DIR}/${FIXTURE_LARGE_DIR}` });
+      assert.equal(JSON.parse((dir.contents[0] as { text: string }).text).totalEntries, 12);
+    });
+
+    it('notifies subscribers when a watched directory changes', async () => {
+      const uri = `xrootd://default${FIXTURE_BASE_DIR}/EVGEN/SIDIS`;
+      const updated = new Promise<string>(resolve => {
+        client.setNotificationHandler(ResourceUpdatedNotificationSchema, notification => resolve(notification.params.uri));
+      });
+      await client.subscribeResource({ uri });
+
+      // The fake tools re-read the fixture on every call
+      const changed = {
+        entries: [...fixture.entries, { path: `${FIXTURE_BASE_DIR}/EVGEN/SIDIS/new.hepmc3.tree.root`, size: 1024 }],
+      };
+      await writeFile(fake.env.FAKE_XROOTD_FIXTURE, JSON.stringify(changed));
+      try {
+        assert.equal(await updated, uri);
+        const listing = JSON.parse(((await client.readResource({ uri })).contents[0] as { text: string }).text);
+        assert.deepEqual(listing.lastChange.added, ['new.hepmc3.tree.root']);
+      } finally {
+        await client.unsubscribeResource({ uri });
+        await writeFile(fake.env.FAKE_XROOTD_FIXTURE, JSON.stringify(fixture));
+      }
+    });
+  });
+
+  describe('prompts', () => {
+    it('lists and renders prompt templates', async () => {
+      const { prompts } = await client.listPrompts();
+      assert.ok(prompts.some(p => p.name === 'summarize_campaign'));
+      const result = await client.getPrompt({ name: 'recent_changes', arguments: { hours: '12', server: 'default' } });
+      const content = result.messages[0].content;
+      assert.strictEqual(content.type, 'text');
+      assert.match(content.text, /summarize_recent_changes on server "default"/);
+    });
+
+    it('rejects unknown servers', async () => {
+      await assert.rejects(
+        client.getPrompt({ name: 'summarize_campaign', arguments: { campaign: '24.07.0', server: 'nope' } }),
+        /Unknown server/
+      );
+    });
+  });
+
+  describe('ROOT analysis tools', () => {
+    const rootFile = `${FIXTURE_DATASET_DIR}/pythia8NCDIS_18x275_minQ2=0.001_beamEffects_xAngle=-0.025_hiDiv_1.0000.eicrecon.tree.edm4eic.root`;
+
+    for (const name of ['analyze_root_file', 'extract_podio_metadata', 'get_event_statistics', 'get_dataset_event_statistics']) {
+      it(`${name} asks for allow_copy when HTTP access fails`, async () => {
+        const path = name === 'get_dataset_event_statistics' ? FIXTURE_DATASET_DIR : rootFile;
+        const result = await call(name, { path });
+        assert.equal(result.isError, true);
+        assert.match(textOf(result), /allow_copy: true/);
+      });
+    }
+
+    it('get_branch_histogram asks for allow_copy when HTTP access fails', async () => {
+      const result = await call('get_branch_histogram', { path: rootFile, branch: 'EventHeader.eventNumber' });
+      assert.equal(result.isError, true);
+      assert.match(textOf(result), /allow_copy: true/);
+    });
+
+    it('analyze_root_file with allow_copy copies the file via xrdcp', async () => {
+      // The fixture holds placeholder bytes, so jsroot cannot parse the copy;
+      // the failure must come from parsing, not from the copy itself.
+      const result = await call('analyze_root_file', { path: rootFile, allow_copy: true });
+      if (result.isError) {
+        const text = textOf(result);
+        assert.doesNotMatch(text, /allow_copy/);
+        assert.doesNotMatch(text, /Failed to read file/);
+      }
+    });
+
+    it('get_dataset_event_statistics with allow_copy skips files it cannot parse', async () => {
+      const body = await callJson('get_dataset_event_statistics', { path: FIXTURE_DATASET_DIR, allow_copy: true });
+      assert.equal(body.datasetPath, FIXTURE_DATASET_DIR);
+      assert.equal(body.totalEvents, 0);
+    });
+  });
+});
+
+describe('MCP tools answered from the namespace index', () => {
+  let fake: FakeXRootD;
+  let client: Client;
+  const fixture = buildEpicFixture();
+
+  async function callJson(name: string, args: Record<string, unknown> = {}): Promise<any> {
+    const result = await client.callTool({ name, arguments: args }) as CallToolResult;
+    const first = result.content[0];
+    assert.strictEqual(first.type, 'text');
+    assert.ok(!result.isError, `${name} failed: ${first.text}`);
+    return JSON.parse(first.text);
+  }
+
+  before(async () => {
+    fake = await installFakeXRootD(fixture);
+    const env = { ...fake.env, XROOTD_SERVER: FAKE_SERVER, XROOTD_BASE_DIR: FIXTURE_BASE_DIR, XROOTD_INDEX_ROOTS: 'RECO' };
+    delete (env as Record<string, string>).XROOTD_SERVERS;
+    const transport = new StdioClientTransport({ command: process.execPath, args: ['build/src/index.js'], env });
+    client = new Client({ name: 'xrootd-index-test-client', version: '1.0.0' }, { capabilities: {} });
+    await client.connect(transport);
+  });
+
+  after(async () => {
+    await client.close();
+    await fake.cleanup();
+  });
+
+  it('reports the index in list_servers once the crawl completes', { timeout: 20000 }, async () => {
+    let status: any;
+    do {
+      await new Promise(resolve => setTimeout(resolve, 100));
+      status = (await callJson('list_servers')).servers[0].index[0];
+    } while (!status.builtAt);
+    assert.equal(status.root, `${FIXTURE_BASE_DIR}/RECO`);
+    assert.equal(status.files, 18);
+  });
+
+  it('adds indexAge to responses served from the index', async () => {
+    const stats = await callJson('get_statistics', { path: 'RECO/24.07.0' });
+    assert.equal(typeof stats.indexAge, 'number');
+    assert.equal(stats.totalFiles, 6);
+    assert.equal(stats.totalSize, fixtureSize(fixture, 'RECO/24.07.0'));
+
+    const recent = await callJson('find_recent_files', { path: 'RECO', hours: 24 });
+    assert.equal(typeof recent.indexAge, 'number');
+    assert.equal(recent.fileCount, 3);
+
+    const search = await callJson('search_files', { pattern: '*.edm4eic.root', basePath: 'RECO/24.07.0' });
+    assert.equal(typeof search.indexAge, 'number');
+    assert.equal(search.matchCount, 5);
+
+    const live = await callJson('get_statistics', { path: 'RECO/24.07.0', useIndex: false });
+    assert.equal(live.indexAge, undefined);
+    const unindexed = await callJson('get_statistics', { path: 'EVGEN' });
+    assert.equal(unindexed.indexAge, undefined);
+  });
+});
@@ -0,0 +1,140 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import { MemoryBackend } from '../src/storage.js';
+import { XRootDClient, WalkEntry } from '../src/xrootd.js';
+import type { DirectoryEntry } from '../src/xrootd.js';
+
+const BASE = '/work/eic2/EPIC';
+
+// Lists slowly and records how many listings were in flight at once
+class SlowBackend extends MemoryBackend {
+  active = 0;
+  maxActive = 0;
+  failing = new Set<string>();
+
+  async listDirectory(path: string, signal?: AbortSignal): Promise<DirectoryEntry[]> {
+    this.active++;
+    this.maxActive = Math.max(this.maxActive, this.active);
+    try {
+      await new Promise(resolve => setTimeout(resolve, 5));
+      if (this.failing.has(path)) {
+        throw new Error('[3010] Permission denied');
+      }
+      return await super.listDirectory(path, signal);
+    } finally {
+      this.active--;
+    }
+  }
+}
+
+function setup(): { backend: SlowBackend; client: XRootDClient } {
+  const backend = new SlowBackend();
+  for (const campaign of ['24.07.0', '24.08.1', '24.09.0', '24.10.0']) {
+    for (const energy of ['5x41', '10x100', '18x275']) {
+      backend.addFile(`${BASE}/RECO/${campaign}/epic_craterlake/DIS/${energy}/a.root`, 1000);
+      backend.addFile(`${BASE}/RECO/${campaign}/epic_craterlake/DIS/${energy}/job.log`, 10);
+    }
+  }
+  return { backend, client: new XRootDClient('root://localhost', BASE, false, 60, 1000, backend) };
+}
+
+describe('XRootDClient.walkTree', () => {
+  it('visits every entry while listing directories in parallel', async () => {
+    const { backend, client } = setup();
+    const files: string[] = [];
+    const result = await client.walkTree('RECO', entry => {
+      if (!entry.isDirectory) files.push(entry.path);
+    }, { concurrency: 4 });
+
+    assert.equal(files.length, 24);
+    assert.ok(files.includes(`${BASE}/RECO/24.08.1/epic_craterlake/DIS/10x100/job.log`));
+    // RECO, 4 campaigns, 4 detectors, 4 DIS and 12 energy directories
+    assert.equal(result.directories, 25);
+    assert.equal(result.files, 24);
+    assert.deepEqual(result.errors, []);
+    assert.equal(backend.maxActive, 4);
+  });
+
+  it('lists one directory at a time with concurrency 1', async () => {
+    const { backend, client } = setup();
+    await client.walkTree('RECO', () => undefined, { concurrency: 1 });
+    assert.equal(backend.maxActive, 1);
+  });
+
+  it('honours maxDepth, include and exclude', async () => {
+    const { client } = setup();
+    const seen: WalkEntry[] = [];
+    const result = await client.walkTree('RECO', entry => seen.push(entry), {
+      maxDepth: 1,
+      include: entry => entry.depth === 2,
+      exclude: entry => entry.name === '24.10.0',
+    });
+    assert.deepEqual(seen.map(e => e.path).sort(), [
+      `${BASE}/RECO/24.07.0/epic_craterlake`,
+      `${BASE}/RECO/24.08.1/epic_craterlake`,
+      `${BASE}/RECO/24.09.0/epic_craterlake`,
+    ]);
+    assert.equal(result.directories, 4);
+  });
+
+  it('collects unlistable subdirectories and keeps walking', async () => {
+    const { backend, client } = setup();
+    backend.failing.add(`${BASE}/RECO/24.08.1`);
+    let files = 0;
+    const result = await client.walkTree('RECO', entry => {
+      if (!entry.isDirectory) files++;
+    });
+    assert.equal(files, 18);
+    assert.deepEqual(result.errors, [{ path: `${BASE}/RECO/24.08.1`, error: `Failed to list directory ${BASE}/RECO/24.08.1: [3010] Permission denied` }]);
+
+    await assert.rejects(client.walkTree('RECO', () => undefined, { failFast: true }), /Permission denied/);
+    backend.failing.add(`${BASE}/RECO`);
+    await assert.rejects(client.walkTree('RECO', () => undefined), /Permission denied/);
+  });
+
+  it('rejects invalid concurrency', async () => {
+    const { client } = setup();
+    await assert.rejects(client.walkTree('RECO', () => undefined, { concurrency: 0 }), /Invalid "concurrency"/);
+  });
+});
+
+describe('recursive operations built on walkTree', () => {
+  it('report unlistable subdirectories instead of failing', async () => {
+    const { backend, client } = setup();
+    backend.failing.add(`${BASE}/RECO/24.09.0/epic_craterlake`);
+    const stats = await client.getStatistics('RECO');
+    assert.equal(stats.totalFiles, 18);
+    assert.deepEqual(stats.errors?.map(e => e.path), [`${BASE}/RECO/24.09.0/epic_craterlake`]);
+
+    await assert.rejects(client.getDirectorySize('RECO'), /Failed to calculate directory size for RECO: .*Permission denied/);
+  });
+
+  it('list datasets and recent files in a stable order', async () => {
+    const { client } = setup();
+    const datasets = await client.listDatasets('24.07.0');
+    assert.deepEqual(datasets.map(d => d.name), [
+      'epic_craterlake/DIS/10x100',
+      'epic_craterlake/DIS/18x275',
+      'epic_craterlake/DIS/5x41',
+    ]);
+    assert.equal(datasets[0].path, `${BASE}/RECO/24.07.0/epic_craterlake/DIS/10x100`);
+
+    const recent = await client.findRecentFiles('RECO/24.07.0', 1);
+    const paths = recent.map(f => f.path);
+    assert.equal(paths.length, 6);
+    assert.deepEqual(paths, [...paths].sort());
+
+    const filtered = await client.listDirectoryFiltered('RECO', { extension: ['.log', '.txt'] }, { recursive: true, maxDepth: 3 });
+    assert.deepEqual(filtered, []);
+    const logFiles = await client.listDirectoryFiltered('RECO/24.08.1', { extension: ['.log'], namePattern: 'job.*' }, {
+      recursive: true,
+      sortBy: 'name',
+      sortOrder: 'desc',
+    });
+    assert.deepEqual(logFiles.map(e => e.path.split('/').slice(-2).join('/')), ['10x100/job.log', '18x275/job.log', '5x41/job.log']);
+
+    const logs = await client.searchFiles('\\.log$', 'RECO', true, true);
+    assert.equal(logs.length, 12);
+    assert.equal(logs[0].path, `${BASE}/RECO/24.07.0/epic_craterlake/DIS/10x100/job.log`);
+  });
+});
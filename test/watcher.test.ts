@@ -0,0 +1,97 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import { MemoryBackend } from '../src/storage.js';
+import { XRootDClient } from '../src/xrootd.js';
+import { DirectoryWatcher, DirectoryChanges } from '../src/watcher.js';
+import { XRootDResources } from '../src/resources.js';
+
+const DIR = '/work/eic2/EPIC/RECO/26.03.0/minQ2=1';
+const URI = 'xrootd://jlab/work/eic2/EPIC/RECO/26.03.0/minQ2=1';
+
+function setup(): { backend: MemoryBackend; client: XRootDClient } {
+  const backend = new MemoryBackend();
+  backend.addFile(`${DIR}/a.root`, 100, new Date('2026-03-01T00:00:00Z'));
+  backend.addFile(`${DIR}/b.root`, 200, new Date('2026-03-01T00:00:00Z'));
+  // Cache enabled so that the watcher's refresh of the cached listing is observable
+  return { backend, client: new XRootDClient('root://localhost', '/work/eic2/EPIC', true, 60, 1000, backend) };
+}
+
+describe('DirectoryWatcher', () => {
+  it('reports added, removed and resized entries', async () => {
+    const { backend, client } = setup();
+    const notified: DirectoryChanges[] = [];
+    const watcher = new DirectoryWatcher((_uri, changes) => notified.push(changes));
+    await watcher.watch(URI, client, DIR, 3600);
+    try {
+      assert.equal(await watcher.poll(URI), undefined);
+
+      backend.addFile(`${DIR}/c.root`, 300);
+      backend.remove(`${DIR}/a.root`);
+      backend.addFile(`${DIR}/b.root`, 250, new Date('2026-03-01T00:00:00Z'));
+      const changes = await watcher.poll(URI);
+      assert.ok(changes);
+      assert.deepEqual(changes.added.map(e => e.name), ['c.root']);
+      assert.deepEqual(changes.removed.map(e => e.name), ['a.root']);
+      assert.deepEqual(changes.changed.map(c => [c.name, c.before.size, c.after.size]), [['b.root', 200, 250]]);
+      assert.equal(notified.length, 1);
+      assert.strictEqual(watcher.getLastChanges(URI), changes);
+
+      // The next poll compares against the new snapshot
+      assert.equal(await watcher.poll(URI), undefined);
+    } finally {
+      watcher.stop();
+    }
+  });
+
+  it('refreshes the client directory cache on every poll', async () => {
+    const { backend, client } = setup();
+    const watcher = new DirectoryWatcher(() => undefined);
+    await watcher.watch(URI, client, DIR, 3600);
+    try {
+      backend.addFile(`${DIR}/c.root`, 300);
+      assert.equal((await client.listDirectory(DIR)).length, 2, 'listing is served from the cache');
+      await watcher.poll(URI);
+      assert.equal((await client.listDirectory(DIR)).length, 3);
+    } finally {
+      watcher.stop();
+    }
+  });
+
+  it('refuses to watch files and stops polling after unwatch', async () => {
+    const { backend, client } = setup();
+    const watcher = new DirectoryWatcher(() => assert.fail('unexpected notification'));
+    await assert.rejects(watcher.watch(`${URI}/a.root`, client, `${DIR}/a.root`, 3600), /Only directories/);
+
+    await watcher.watch(URI, client, DIR, 3600);
+    watcher.unwatch(URI);
+    assert.equal(watcher.isWatched(URI), false);
+    backend.addFile(`${DIR}/c.root`, 300);
+    assert.equal(await watcher.poll(URI), undefined);
+  });
+});
+
+describe('XRootDResources subscriptions', () => {
+  it('notifies subscribers and reports the last change in directory reads', async () => {
+    const { backend, client } = setup();
+    const updated: string[] = [];
+    const resources = new XRootDResources(new Map([['jlab', client]]), {
+      watchIntervals: new Map([['jlab', 3600]]),
+      onUpdated: uri => updated.push(uri),
+    });
+    try {
+      await resources.subscribe(URI);
+      backend.addFile(`${DIR}/c.root`, 300);
+      await resources.pollNow(URI);
+      assert.deepEqual(updated, [URI]);
+
+      const listing = JSON.parse(((await resources.readResource(URI)).contents[0] as { text: string }).text);
+      assert.deepEqual(listing.lastChange.added, ['c.root']);
+      assert.equal(listing.totalEntries, 3);
+
+      resources.unsubscribe(URI);
+      await assert.rejects(resources.subscribe('xrootd://jlab/work/eic2/EPIC/missing'), /Cannot subscribe/);
+    } finally {
+      resources.close();
+    }
+  });
+});
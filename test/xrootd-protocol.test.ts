@@ -0,0 +1,176 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert';
+import { MemoryBackend, NativeBackend } from '../src/storage.js';
+import { XRootDClient } from '../src/xrootd.js';
+import { parseDirList, parseStatInfo, RequestId, XRootDProtocolError } from '../src/xrootd-protocol.js';
+import { startFakeXRootDServer, FakeXRootDServer } from './helpers/fake-xrootd-server.js';
+
+const BASE = '/work/eic2/EPIC';
+const DATASET = `${BASE}/RECO/24.07.0/epic_craterlake/DIS/NC/18x275`;
+
+function buildMemoryBackend(): MemoryBackend {
+  const backend = MemoryBackend.fromFixture({
+    entries: [
+      { path: `${BASE}/README.md`, content: '# EPIC simulation campaigns\n', mtime: '2024-07-01T00:00:00Z' },
+      { path: `${BASE}/EVGEN`, type: 'directory' },
+    ],
+  });
+  for (let i = 0; i < 8; i++) {
+    backend.addFile(`${DATASET}/file_${i}.edm4eic.root`, 1000 + i, new Date('2024-07-15T10:00:00Z'));
+  }
+  backend.addFile(`${DATASET}/job.log`, 'job finished\n', new Date('2024-07-16T08:00:00Z'));
+  return backend;
+}
+
+describe('XRootD protocol parsing', () => {
+  it('parses stat responses', () => {
+    const info = parseStatInfo('12345 2048 18 1721037600\0');
+    assert.equal(info.size, 2048);
+    assert.equal(info.isDirectory, true);
+    assert.equal(info.modificationTime.toISOString(), '2024-07-15T10:00:00.000Z');
+  });
+
+  it('parses dirlist responses with and without dstat', () => {
+    const withStat = parseDirList(Buffer.from('.\n0 0 0 0\na.root\n1 10 16 0\nsub\n2 0 18 0\0'));
+    assert.deepEqual(withStat.map(e => [e.name, e.stat?.size, e.stat?.isDirectory]), [['a.root', 10, false], ['sub', 0, true]]);
+
+    const plain = parseDirList(Buffer.from('a.root\nsub\n'));
+    assert.deepEqual(plain, [{ name: 'a.root' }, { name: 'sub' }]);
+  });
+});
+
+describe('NativeBackend against a fake XRootD server', () => {
+  let memory: MemoryBackend;
+  let server: FakeXRootDServer;
+  let backend: NativeBackend;
+
+  before(async () => {
+    memory = buildMemoryBackend();
+    server = await startFakeXRootDServer(memory);
+    backend = new NativeBackend(server.url);
+  });
+
+  after(async () => {
+    backend.close();
+    await server.close();
+  });
+
+  it('lists directories from chunked dstat responses', async () => {
+    const entries = await backend.listDirectory(DATASET);
+    assert.deepEqual(entries, await memory.listDirectory(DATASET));
+    // The listing itself carries the stat information; no per-entry kXR_stat
+    assert.ok(!server.requests.includes(RequestId.kXR_stat));
+  });
+
+  it('stats files and directories', async () => {
+    const file = await backend.stat(`${BASE}/README.md`);
+    assert.equal(file.size, 28);
+    assert.equal(file.isDirectory, false);
+    assert.equal(file.modificationTime.toISOString(), '2024-07-01T00:00:00.000Z');
+    assert.equal((await backend.stat(`${BASE}/EVGEN`)).isDirectory, true);
+  });
+
+  it('reports server errors with their XRootD error code', async () => {
+    await assert.rejects(backend.stat(`${BASE}/missing.root`), (error: any) => {
+      assert.ok(error instanceof XRootDProtocolError);
+      assert.equal(error.code, 3011);
+      assert.match(error.message, /^\[3011\] No such file or directory/);
+      return true;
+    });
+  });
+
+  it('reads whole files and byte ranges', async () => {
+    assert.equal((await backend.readFile(`${BASE}/README.md`)).toString(), '# EPIC simulation campaigns\n');
+    assert.equal((await backend.readFile(`${BASE}/README.md`, 2, 6)).toString(), 'EPIC');
+    assert.equal((await backend.readFile(`${BASE}/README.md`, 100)).length, 0);
+  });
+
+  it('reads several ranges with one kXR_readv', async () => {
+    const before = server.requests.filter(r => r === RequestId.kXR_readv).length;
+    const parts = await backend.readRanges(`${BASE}/README.md`, [{ start: 0, end: 1 }, { start: 2, end: 6 }]);
+    assert.deepEqual(parts.map(p => p.toString()), ['#', 'EPIC']);
+    assert.equal(server.requests.filter(r => r === RequestId.kXR_readv).length, before + 1);
+
+    const aborted = AbortSignal.abort();
+    await assert.rejects(backend.readRanges(`${BASE}/README.md`, [{ start: 0, end: 1 }], aborted));
+    assert.equal(server.requests.filter(r => r === RequestId.kXR_readv).length, before + 1);
+  });
+
+  it('finds files by walking listings', async () => {
+    const found = await backend.find(`${BASE}/RECO`, '*.log');
+    assert.deepEqual(found, [`${DATASET}/job.log`]);
+  });
+
+  it('multiplexes concurrent requests over one pooled connection', async () => {
+    const connectionsBefore = server.connections;
+    const infos = await Promise.all(
+      Array.from({ length: 8 }, (_, i) => backend.stat(`${DATASET}/file_${i}.edm4eic.root`))
+    );
+    assert.deepEqual(infos.map(i => i.size), [1000, 1001, 1002, 1003, 1004, 1005, 1006, 1007]);
+    assert.ok(server.connections - connectionsBefore <= 1);
+    assert.ok(server.connections <= 2);
+  });
+
+  it('serves XRootDClient end to end', async () => {
+    const client = new XRootDClient(server.url, BASE, false, 60, 1000, backend);
+    const listing = await client.listDirectory('RECO/24.07.0/epic_craterlake/DIS/NC/18x275');
+    assert.equal(listing.length, 9);
+    const results = await client.searchFiles('*.root', 'RECO', true);
+    assert.equal(results.length, 8);
+    const parts = await client.readFileRanges('README.md', [{ start: 2, end: 6 }]);
+    assert.equal(parts[0].toString(), 'EPIC');
+  });
+});
+
+describe('NativeBackend protocol handling', () => {
+  it('retries requests after kXR_wait', async () => {
+    const server = await startFakeXRootDServer(buildMemoryBackend(), { waitOnFirstStat: true });
+    const backend = new NativeBackend(server.url);
+    try {
+      assert.equal((await backend.stat(`${BASE}/README.md`)).size, 28);
+      assert.equal(server.requests.filter(r => r === RequestId.kXR_stat).length, 2);
+    } finally {
+      backend.close();
+      await server.close();
+    }
+  });
+
+  it('follows redirects to another server', async () => {
+    const target = await startFakeXRootDServer(buildMemoryBackend());
+    const redirector = await startFakeXRootDServer(new MemoryBackend(), {
+      redirectTo: { host: '127.0.0.1', port: target.port },
+    });
+    const backend = new NativeBackend(redirector.url);
+    try {
+      assert.equal((await backend.readFile(`${BASE}/README.md`, 2, 6)).toString(), 'EPIC');
+      assert.equal(target.connections, 1);
+    } finally {
+      backend.close();
+      await redirector.close();
+      await target.close();
+    }
+  });
+
+  it('rejects malformed error responses without dropping the connection', async () => {
+    const server = await startFakeXRootDServer(buildMemoryBackend(), { truncatedStatError: true });
+    const backend = new NativeBackend(server.url);
+    try {
+      await assert.rejects(backend.stat(`${BASE}/README.md`), /Malformed response/);
+      assert.equal((await backend.readFile(`${BASE}/README.md`, 2, 6)).toString(), 'EPIC');
+    } finally {
+      backend.close();
+      await server.close();
+    }
+  });
+
+  it('refuses servers that require authentication', async () => {
+    const server = await startFakeXRootDServer(new MemoryBackend(), { requireAuth: true });
+    const backend = new NativeBackend(server.url);
+    try {
+      await assert.rejects(backend.stat('/'), /requires authentication/);
+    } finally {
+      backend.close();
+      await server.close();
+    }
+  });
+});
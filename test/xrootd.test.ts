@@ -3,10 +3,31 @@ import assert from 'node:assert';
 import { Client } from '@modelcontextprotocol/sdk/client/index.js';
 import { StdioClientTransport } from '@modelcontextprotocol/sdk/client/stdio.js';
 import type { Tool, CallToolResult } from '@modelcontextprotocol/sdk/types.js';
-
-const TEST_SERVER = process.env.XROOTD_SERVER || 'root://dtn-eic.jlab.org';
+import { installFakeXRootD, FakeXRootD } from './helpers/harness.js';
+import { buildEpicFixture } from './helpers/fixture.js';
+
+// Without XROOTD_SERVER the suite runs hermetically against fake xrdfs/xrdcp
+// tools serving the fixture tree in test/helpers/fixture.ts.  The unused port
+// makes jsroot's HTTP access fail immediately instead of timing out.
+const USE_FAKE_XROOTD = !process.env.XROOTD_SERVER;
+const TEST_SERVER = process.env.XROOTD_SERVER || 'root://localhost:19999';
 const TEST_BASE_DIR = process.env.XROOTD_BASE_DIR || '/volatile/eic/EPIC';
 
+let fakeXRootD: FakeXRootD | undefined;
+
+before(async () => {
+  if (USE_FAKE_XROOTD) {
+    fakeXRootD = await installFakeXRootD(buildEpicFixture(new Date(), TEST_BASE_DIR));
+    // Spawned MCP servers inherit process.env, so the fakes shadow any real tools
+    process.env.PATH = fakeXRootD.env.PATH;
+    process.env.FAKE_XROOTD_FIXTURE = fakeXRootD.env.FAKE_XROOTD_FIXTURE;
+  }
+});
+
+after(async () => {
+  await fakeXRootD?.cleanup();
+});
+
 describe('XRootD MCP Server Integration Tests', () => {
   let client: Client;
   let transport: StdioClientTransport;